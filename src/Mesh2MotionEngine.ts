@@ -13,6 +13,7 @@ import { Generators } from './lib/Generators.ts'
 import { UI } from './lib/UI.ts'
 
 import { StepLoadModel } from './lib/processes/load-model/StepLoadModel.ts'
+import { GLTFLoaderFactory } from './lib/GLTFLoaderFactory.ts'
 import { StepLoadSkeleton } from './lib/processes/load-skeleton/StepLoadSkeleton.ts'
 import { StepEditSkeleton } from './lib/processes/edit-skeleton/StepEditSkeleton.ts'
 import { StepAnimationsListing } from './lib/processes/animations-listing/StepAnimationsListing.ts'
@@ -22,6 +23,8 @@ import { StepWeightSkin } from './lib/processes/weight-skin/StepWeightSkin.ts'
 import { ProcessStep } from './lib/enums/ProcessStep.ts'
 import { type Bone, Group, Scene, type Skeleton, type Vector3 } from 'three'
 import type BoneTesterData from './lib/interfaces/BoneTesterData.ts'
+import { type WeldedTopology } from './lib/solvers/WeldedTopology.ts'
+import { ExistingArmature } from './lib/processes/load-model/ExistingArmature.ts'
 
 import { SkeletonType } from './lib/enums/SkeletonType.ts'
 
@@ -90,6 +93,9 @@ export class Mesh2MotionEngine {
     this.theme_manager = new ThemeManager()
     this.ui = UI.getInstance()
 
+    // compressed (KTX2) textures in GLTF files need to know what the GPU supports
+    GLTFLoaderFactory.set_renderer(this.renderer)
+
     // setting up steps
     this.load_model_step = new StepLoadModel()
     this.load_skeleton_step = new StepLoadSkeleton(this.scene)
@@ -393,7 +399,8 @@ export class Mesh2MotionEngine {
     }
     else if (this.process_step === ProcessStep.AnimationsListing) {
       this.process_step = ProcessStep.AnimationsListing
-      this.animations_listing_step.begin(this.load_skeleton_step.skeleton_type(), this.load_skeleton_step.skeleton_scale())
+      this.animations_listing_step.begin(this.load_skeleton_step.skeleton_type(), this.load_skeleton_step.skeleton_scale(),
+        this.load_skeleton_step.leg_length_scale())
 
       // update reference of skeleton helper to use the final skinned mesh
       this.regenerate_skeleton_helper(this.weight_skin_step.skeleton())
@@ -577,11 +584,18 @@ export class Mesh2MotionEngine {
       this.edit_skeleton_step.get_preview_plane_height()
     )
 
+    // models that were uploaded with a rig can keep their skin weights
+    const existing_armature = this.load_model_step.get_existing_armature()
+    this.weight_skin_step.set_weight_transfer(existing_armature !== null && this.edit_skeleton_step.use_existing_weight_transfer()
+      ? ExistingArmature.skin_bone_correspondence(existing_armature, this.edit_skeleton_step.armature())
+      : null)
+
     this.weight_skin_step.create_binding_skeleton()
 
     // add geometry data needed for skinning
-    this.load_model_step.models_geometry_list().forEach((mesh_geometry) => {
-      this.weight_skin_step.add_to_geometry_data_to_skin(mesh_geometry)
+    const welded_topology_list: WeldedTopology[] = this.load_model_step.models_welded_topology_list()
+    this.load_model_step.models_geometry_list().forEach((mesh_geometry, index) => {
+      this.weight_skin_step.add_to_geometry_data_to_skin(mesh_geometry, welded_topology_list[index])
     })
 
     // all mesh material data associated with the geometry data
@@ -626,8 +640,9 @@ export class Mesh2MotionEngine {
     // Don't do skinning operation if there are bones outside of the mesh
     // that messes up the bone envelope calculation
     let testing_geometry_success = true
+    const welded_topology_list: WeldedTopology[] = this.load_model_step.models_welded_topology_list()
     this.load_model_step.models_geometry_list().forEach((mesh_geometry, index) => {
-      this.weight_skin_step.set_mesh_geometry(mesh_geometry)
+      this.weight_skin_step.set_mesh_geometry(mesh_geometry, welded_topology_list[index])
       const tester_data: BoneTesterData = this.weight_skin_step.test_geometry()
 
       if (tester_data.bones_names_with_errors.length > 0) {
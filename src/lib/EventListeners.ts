@@ -2,8 +2,11 @@ import { type Mesh2MotionEngine } from '../Mesh2MotionEngine'
 import { ModelPreviewDisplay } from './enums/ModelPreviewDisplay'
 import { ProcessStep } from './enums/ProcessStep'
 import { TransformSpace } from './enums/TransformSpace'
+import { type Object3D } from 'three'
 import { Utility } from './Utilities'
 import { ModelCleanupUtility } from './processes/load-model/ModelCleanupUtility'
+import { ExistingArmature } from './processes/load-model/ExistingArmature'
+import { SkeletonType } from './enums/SkeletonType'
 
 export class EventListeners {
   constructor (private readonly bootstrap: Mesh2MotionEngine) {}
@@ -108,7 +111,18 @@ export class EventListeners {
     })
 
     this.bootstrap.load_skeleton_step.addEventListener('skeletonLoaded', () => {
-      this.bootstrap.edit_skeleton_step.load_original_armature_from_model(this.bootstrap.load_skeleton_step.armature())
+      const armature = this.bootstrap.load_skeleton_step.armature()
+
+      // VRM files know where their joints are, so the human rig can be placed without manual editing
+      const vrm_humanoid = this.bootstrap.load_model_step.get_vrm_humanoid()
+      if (vrm_humanoid !== null && this.bootstrap.load_skeleton_step.skeleton_type() === SkeletonType.Human) {
+        const fitted_bone_count: number = Utility.fit_armature_to_bone_positions(armature, vrm_humanoid.bone_positions)
+        console.log(`Fitted ${fitted_bone_count} bones to the VRM humanoid`)
+      } else {
+        this.fit_armature_to_existing_rig(armature)
+      }
+
+      this.bootstrap.edit_skeleton_step.load_original_armature_from_model(armature)
       this.bootstrap.process_step = this.bootstrap.process_step_changed(ProcessStep.EditSkeleton)
     })
 
@@ -120,12 +134,20 @@ export class EventListeners {
         this.bootstrap.regenerate_skeleton_helper(this.bootstrap.edit_skeleton_step.skeleton(), 'Skeleton Helper')
       }
 
+      // adding, deleting and undoing bones can change which bone is selected
+      this.attach_transform_controls_to_edit_selection()
+
       // Refresh weight painting if in weight painted mode
       if (this.bootstrap.mesh_preview_display_type === ModelPreviewDisplay.WeightPainted) {
         this.bootstrap.regenerate_weight_painted_preview_mesh()
       }
     })
 
+    // selecting a socket moves it with the transform controls instead of the bone
+    this.bootstrap.edit_skeleton_step.addEventListener('socketsChanged', () => {
+      this.attach_transform_controls_to_edit_selection()
+    })
+
     // attribution link clicking brings up contributors dialog
     this.bootstrap.ui.dom_attribution_link?.addEventListener('click', (event: MouseEvent) => {
       event.preventDefault()
@@ -157,7 +179,7 @@ export class EventListeners {
       // update UI with current bone name
       if (this.bootstrap.ui.dom_selected_bone_label !== null &&
         this.bootstrap.edit_skeleton_step.get_currently_selected_bone() !== null) {
-        this.bootstrap.ui.dom_selected_bone_label.innerHTML =
+        this.bootstrap.ui.dom_selected_bone_label.textContent =
           this.bootstrap.edit_skeleton_step.get_currently_selected_bone().name
       }
     }, false)
@@ -169,7 +191,9 @@ export class EventListeners {
       this.bootstrap.controls.enabled = !event.value
 
       // Store undo state when we start dragging (event.value = true)
-      if (event.value && this.bootstrap.process_step === ProcessStep.EditSkeleton) {
+      // sockets are not part of the undo history, so there is nothing to store when moving them
+      if (event.value && this.bootstrap.process_step === ProcessStep.EditSkeleton &&
+        this.bootstrap.transform_controls.object?.type === 'Bone') {
         this.bootstrap.edit_skeleton_step.store_bone_state_for_undo()
       }
 
@@ -183,6 +207,11 @@ export class EventListeners {
 
     this.bootstrap.load_model_step.addEventListener('modelLoaded', () => {
       this.bootstrap.process_step = this.bootstrap.process_step_changed(ProcessStep.LoadSkeleton)
+      this.update_model_simplification_ui(null)
+      this.update_model_orientation_status()
+      this.update_model_import_scale_status()
+      this.select_human_skeleton_for_vrm()
+      this.update_existing_armature_options()
     })
 
     this.bootstrap.ui.dom_bind_pose_button?.addEventListener('click', () => {
@@ -194,15 +223,51 @@ export class EventListeners {
 
     // rotate model after loading it in to orient it correctly
     this.bootstrap.ui.dom_rotate_model_x_button?.addEventListener('click', () => {
-      this.bootstrap.load_model_step.rotate_model_geometry('x', 90)
+      this.bootstrap.load_model_step.rotate_model_geometry('x', this.get_model_rotation_angle())
+      this.update_model_orientation_status()
     })
 
     this.bootstrap.ui.dom_rotate_model_y_button?.addEventListener('click', () => {
-      this.bootstrap.load_model_step.rotate_model_geometry('y', 90)
+      this.bootstrap.load_model_step.rotate_model_geometry('y', this.get_model_rotation_angle())
+      this.update_model_orientation_status()
     })
 
     this.bootstrap.ui.dom_rotate_model_z_button?.addEventListener('click', () => {
-      this.bootstrap.load_model_step.rotate_model_geometry('z', 90)
+      this.bootstrap.load_model_step.rotate_model_geometry('z', this.get_model_rotation_angle())
+      this.update_model_orientation_status()
+    })
+
+    this.bootstrap.ui.dom_auto_orient_model_button?.addEventListener('click', () => {
+      this.bootstrap.load_model_step.auto_orient_model()
+      this.update_model_orientation_status()
+    })
+
+    // optionally reduce the triangle count of high-poly models before skinning
+    this.bootstrap.ui.dom_simplify_model_button?.addEventListener('click', () => {
+      const triangle_budget: number = Number(this.bootstrap.ui.dom_simplify_triangle_budget_input?.value)
+      if (!Number.isFinite(triangle_budget) || triangle_budget <= 0) return
+
+      if (this.bootstrap.ui.dom_model_triangle_count !== null) {
+        this.bootstrap.ui.dom_model_triangle_count.innerHTML = 'Simplifying...'
+      }
+
+      // give the browser a chance to show the simplifying label before the work starts
+      setTimeout(() => {
+        const triangle_counts = this.bootstrap.load_model_step.simplify_model(triangle_budget)
+        this.update_model_simplification_ui(triangle_counts.before)
+      }, 10)
+    })
+
+    this.bootstrap.ui.dom_revert_simplify_model_button?.addEventListener('click', () => {
+      this.bootstrap.load_model_step.revert_model_simplification()
+      this.update_model_simplification_ui(null)
+    })
+
+    this.bootstrap.ui.dom_weld_tolerance_input?.addEventListener('change', (event: Event) => {
+      const weld_tolerance: number = parseFloat((event.target as HTMLInputElement).value)
+      if (Number.isFinite(weld_tolerance) && weld_tolerance >= 0) {
+        this.bootstrap.load_model_step.set_weld_tolerance(weld_tolerance)
+      }
     })
 
     this.bootstrap.ui.dom_show_skeleton_checkbox?.addEventListener('click', (event: MouseEvent) => {
@@ -218,13 +283,27 @@ export class EventListeners {
       const animations_to_export: number[] = this.bootstrap.animations_listing_step.get_animation_indices_to_export()
 
       this.bootstrap.file_export_step.set_animation_clips_to_export(all_clips, animations_to_export)
-      this.bootstrap.file_export_step.export(this.bootstrap.weight_skin_step.final_skinned_meshes(), 'exported-model')
+      // scaling by the inverse of the import scale gives back the size of the original file
+      const export_scale: number = this.bootstrap.ui.dom_export_original_scale_checkbox?.checked === true
+        ? 1 / this.bootstrap.load_model_step.get_import_scale_factor()
+        : 1
+      // VRM humanoid bones come from the human rig, so other skeletons export as regular GLB files
+      const export_vrm: boolean = this.bootstrap.ui.dom_export_vrm_checkbox?.checked === true &&
+        this.bootstrap.load_skeleton_step.skeleton_type() === SkeletonType.Human
+      this.bootstrap.file_export_step.set_include_vrm_humanoid(export_vrm)
+      this.bootstrap.file_export_step.export(this.bootstrap.weight_skin_step.final_skinned_meshes(), 'exported-model', export_scale)
+    })
+
+    // joint placement from the mesh shape. The geometry is in the load model step, so it is passed in here
+    this.bootstrap.ui.dom_auto_fit_skeleton_button?.addEventListener('click', () => {
+      this.bootstrap.edit_skeleton_step.auto_fit_skeleton(this.bootstrap.load_model_step.models_geometry_list())
     })
 
     // going back to edit skeleton step after skinning
     // this will do a lot of resetting
     this.bootstrap.ui.dom_back_to_edit_skeleton_button?.addEventListener('click', () => {
       this.bootstrap.remove_skinned_meshes_from_scene() // clear any existing skinned meshes
+      this.bootstrap.animations_listing_step.remove_prop_preview()
       this.bootstrap.debugging_visual_object = Utility.regenerate_debugging_scene(this.bootstrap.scene)
       this.bootstrap.process_step = this.bootstrap.process_step_changed(ProcessStep.EditSkeleton)
 
@@ -232,7 +311,7 @@ export class EventListeners {
       this.bootstrap.edit_skeleton_step.set_currently_selected_bone(null)
 
       if (this.bootstrap.ui.dom_selected_bone_label !== null) {
-        this.bootstrap.ui.dom_selected_bone_label.innerHTML = 'None'
+        this.bootstrap.ui.dom_selected_bone_label.textContent = 'None'
       }
 
       // reset the undo/redo system
@@ -312,4 +391,104 @@ export class EventListeners {
       }
     })
   }
+
+  /**
+   * Shows the current triangle count of the model. After simplifying, the count from before is shown too
+   * @param triangles_before_simplify triangle count before simplifying. null if the model has not been simplified
+   */
+  private update_model_simplification_ui (triangles_before_simplify: number | null): void {
+    const triangle_count: number = this.bootstrap.load_model_step.get_triangle_count()
+    if (this.bootstrap.ui.dom_model_triangle_count !== null) {
+      this.bootstrap.ui.dom_model_triangle_count.innerHTML = triangles_before_simplify === null
+        ? `Triangles: ${triangle_count.toLocaleString()}`
+        : `Triangles: ${triangles_before_simplify.toLocaleString()} → ${triangle_count.toLocaleString()}`
+    }
+
+    if (this.bootstrap.ui.dom_revert_simplify_model_button !== null) {
+      this.bootstrap.ui.dom_revert_simplify_model_button.disabled = !this.bootstrap.load_model_step.is_model_simplified()
+    }
+  }
+
+  // angle from the numeric input next to the rotate buttons. 90 degrees if the input is empty
+  private get_model_rotation_angle (): number {
+    const angle: number = Number(this.bootstrap.ui.dom_rotate_model_angle_input?.value)
+    return Number.isFinite(angle) && angle !== 0 ? angle : 90
+  }
+
+  /**
+   * Shows what the orientation analysis found, so users know if auto-orient will do anything
+   */
+  private update_model_orientation_status (): void {
+    const orientation = this.bootstrap.load_model_step.analyze_model_orientation()
+    const is_oriented: boolean = orientation.rotations.length === 0
+
+    if (this.bootstrap.ui.dom_model_orientation_status !== null) {
+      this.bootstrap.ui.dom_model_orientation_status.innerHTML = is_oriented
+        ? 'Model looks upright and facing front'
+        : `Detected ${orientation.up_axis} up, facing ${orientation.facing_axis}`
+    }
+
+    if (this.bootstrap.ui.dom_auto_orient_model_button !== null) {
+      this.bootstrap.ui.dom_auto_orient_model_button.disabled = is_oriented
+    }
+  }
+
+  private update_model_import_scale_status (): void {
+    if (this.bootstrap.ui.dom_model_import_scale_status === null) return
+
+    const scale_factor: number = this.bootstrap.load_model_step.get_import_scale_factor()
+    this.bootstrap.ui.dom_model_import_scale_status.innerHTML = scale_factor === 1
+      ? 'Not scaled on import'
+      : `Scaled on import by ${Number(scale_factor.toPrecision(4))}`
+  }
+
+  private update_existing_armature_options (): void {
+    const existing_armature = this.bootstrap.load_model_step.get_existing_armature()
+
+    if (this.bootstrap.ui.dom_existing_armature_options !== null) {
+      this.bootstrap.ui.dom_existing_armature_options.style.display = existing_armature !== null ? 'flex' : 'none'
+    }
+    if (this.bootstrap.ui.dom_transfer_existing_weights_container !== null) {
+      this.bootstrap.ui.dom_transfer_existing_weights_container.style.display = existing_armature !== null ? 'flex' : 'none'
+    }
+
+    if (this.bootstrap.ui.dom_existing_armature_status !== null && existing_armature !== null) {
+      const rig_type: string = existing_armature.is_mixamo ? 'Mixamo rig' : 'rig'
+      this.bootstrap.ui.dom_existing_armature_status.innerHTML = `Found a ${rig_type} with ${existing_armature.bone_count} bones`
+    }
+  }
+
+  // the selected socket, or the selected bone if no socket is selected
+  private attach_transform_controls_to_edit_selection (): void {
+    const transform_target: Object3D | null = this.bootstrap.edit_skeleton_step.transform_target()
+    if (transform_target === null) {
+      this.bootstrap.transform_controls.detach()
+    } else if (this.bootstrap.transform_controls.object !== transform_target) {
+      this.bootstrap.transform_controls.attach(transform_target)
+    }
+  }
+
+  // models that were rigged somewhere else start with their joints where the rig had them
+  private fit_armature_to_existing_rig (armature: Object3D): void {
+    const existing_armature = this.bootstrap.load_model_step.get_existing_armature()
+    if (existing_armature === null || this.bootstrap.ui.dom_use_existing_armature_checkbox?.checked !== true) return
+
+    const bone_positions = ExistingArmature.map_to_skeleton(existing_armature, armature)
+    const fitted_bone_count: number = Utility.fit_armature_to_bone_positions(armature, bone_positions)
+
+    if (this.bootstrap.ui.dom_existing_armature_status !== null) {
+      this.bootstrap.ui.dom_existing_armature_status.innerHTML = fitted_bone_count > 0
+        ? `Placed ${fitted_bone_count} joints from the model's rig`
+        : 'No rig bones matched this skeleton template'
+    }
+  }
+
+  // VRM models are always humanoid, so pick the human skeleton for them
+  private select_human_skeleton_for_vrm (): void {
+    const skeleton_selection: HTMLSelectElement | null = this.bootstrap.ui.dom_skeleton_drop_type
+    if (this.bootstrap.load_model_step.get_vrm_humanoid() === null || skeleton_selection === null) return
+
+    skeleton_selection.value = 'human'
+    skeleton_selection.dispatchEvent(new Event('change'))
+  }
 }
@@ -0,0 +1,53 @@
+import { type LoadingManager, type WebGLRenderer } from 'three'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js'
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js'
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js'
+
+/**
+ * Creates GLTF loaders that can read compressed files (Draco, Meshopt, KTX2 textures).
+ * The decoders are shared between every loader since they each spin up web workers and WASM modules.
+ * Draco and Basis decoder files are served from the static/libs folder so they work offline
+ * Usage: const loader = GLTFLoaderFactory.create_loader()
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class GLTFLoaderFactory {
+  private static draco_loader: DRACOLoader | null = null
+  private static ktx2_loader: KTX2Loader | null = null
+
+  /**
+   * KTX2 textures are transcoded to whatever compressed format the GPU supports,
+   * so this needs to be called once a renderer exists. Loaders created before this still get updated
+   */
+  public static set_renderer (renderer: WebGLRenderer): void {
+    this.get_ktx2_loader().detectSupport(renderer)
+  }
+
+  /**
+   * @param manager optional loading manager. Useful when files need to be resolved from memory (ZIP files)
+   * @returns GLTF loader with all the decoders attached
+   */
+  public static create_loader (manager?: LoadingManager): GLTFLoader {
+    const gltf_loader = new GLTFLoader(manager)
+    gltf_loader.setDRACOLoader(this.get_draco_loader())
+    gltf_loader.setKTX2Loader(this.get_ktx2_loader())
+    gltf_loader.setMeshoptDecoder(MeshoptDecoder)
+    return gltf_loader
+  }
+
+  private static get_draco_loader (): DRACOLoader {
+    if (this.draco_loader === null) {
+      this.draco_loader = new DRACOLoader()
+      this.draco_loader.setDecoderPath(`${import.meta.env.BASE_URL}libs/draco/`)
+    }
+    return this.draco_loader
+  }
+
+  private static get_ktx2_loader (): KTX2Loader {
+    if (this.ktx2_loader === null) {
+      this.ktx2_loader = new KTX2Loader()
+      this.ktx2_loader.setTranscoderPath(`${import.meta.env.BASE_URL}libs/basis/`)
+    }
+    return this.ktx2_loader
+  }
+}
@@ -7,18 +7,36 @@ export class UI {
   dom_upload_model_button: HTMLButtonElement | null = null
   dom_load_model_button: HTMLButtonElement | null = null
   dom_load_model_debug_checkbox: HTMLInputElement | null = null
+  dom_model_unit_system_select: HTMLSelectElement | null = null
+  dom_model_target_height_input: HTMLInputElement | null = null
+  dom_model_import_scale_status: HTMLElement | null = null
 
   // load skeleton UI
   dom_rotate_model_x_button: HTMLButtonElement | null = null
   dom_rotate_model_y_button: HTMLButtonElement | null = null
   dom_rotate_model_z_button: HTMLButtonElement | null = null
+  dom_rotate_model_angle_input: HTMLInputElement | null = null
+  dom_auto_orient_model_button: HTMLButtonElement | null = null
+  dom_model_orientation_status: HTMLElement | null = null
+  dom_model_triangle_count: HTMLElement | null = null
+  dom_simplify_triangle_budget_input: HTMLInputElement | null = null
+  dom_simplify_model_button: HTMLButtonElement | null = null
+  dom_revert_simplify_model_button: HTMLButtonElement | null = null
+  dom_weld_tolerance_input: HTMLInputElement | null = null
 
   dom_load_skeleton_tools: HTMLElement | null = null
   dom_load_skeleton_button: HTMLButtonElement | null = null
   dom_skeleton_edit_tools: HTMLElement | null = null
   dom_skeleton_drop_type: HTMLSelectElement | null = null
-  dom_hand_skeleton_options: HTMLElement | null = null
-  dom_hand_skeleton_selection: HTMLSelectElement | null = null
+  dom_custom_rig_upload: HTMLInputElement | null = null
+  dom_custom_rig_upload_label: HTMLElement | null = null
+  dom_custom_animations_upload: HTMLInputElement | null = null
+  dom_custom_animations_upload_label: HTMLElement | null = null
+  dom_add_custom_skeleton_template_button: HTMLButtonElement | null = null
+  dom_skeleton_variation_options: HTMLElement | null = null
+  dom_existing_armature_options: HTMLElement | null = null
+  dom_use_existing_armature_checkbox: HTMLInputElement | null = null
+  dom_existing_armature_status: HTMLElement | null = null
   dom_mirror_skeleton_checkbox: HTMLElement | null = null
   dom_scale_skeleton_button: HTMLButtonElement | null = null
   dom_undo_button: HTMLButtonElement | null = null
@@ -26,6 +44,7 @@ export class UI {
   dom_bind_pose_button: HTMLButtonElement | null = null
   dom_scale_skeleton_input_box: HTMLElement | null = null
   dom_move_to_origin_button: HTMLButtonElement | null = null
+  dom_auto_fit_skeleton_button: HTMLButtonElement | null = null
 
   // scale skeleton contols
   dom_scale_skeleton_input: HTMLInputElement | null = null
@@ -33,14 +52,29 @@ export class UI {
   dom_scale_skeleton_controls: HTMLElement | null = null
   dom_reset_skeleton_scale_button: HTMLButtonElement | null = null
 
+  // limb proportion controls. Each slider row has a data-proportion-chain attribute
+  dom_limb_proportion_controls: HTMLElement | null = null
+  dom_reset_limb_proportions_button: HTMLButtonElement | null = null
+
   // edit skeleton UI step controls
   dom_selected_bone_label: HTMLElement | null = null
+  dom_add_child_bone_button: HTMLButtonElement | null = null
+  dom_delete_bone_button: HTMLButtonElement | null = null
+  dom_bone_parent_selection: HTMLSelectElement | null = null
+  dom_bone_name_input: HTMLInputElement | null = null
+  dom_rename_bone_button: HTMLButtonElement | null = null
+  dom_socket_name_input: HTMLInputElement | null = null
+  dom_add_socket_button: HTMLButtonElement | null = null
+  dom_socket_selection: HTMLSelectElement | null = null
+  dom_delete_socket_button: HTMLButtonElement | null = null
   dom_transform_type_radio_group: HTMLElement | null = null
   dom_transform_space_radio_group: HTMLElement | null = null
 
   // preview plane controls
   dom_use_head_weight_correction_container: HTMLElement | null = null
   dom_preview_plane_checkbox: HTMLInputElement | null = null
+  dom_transfer_existing_weights_container: HTMLElement | null = null
+  dom_transfer_existing_weights_checkbox: HTMLInputElement | null = null
   dom_preview_plane_height_input: HTMLInputElement | null = null
   dom_preview_plane_height_label: HTMLElement | null = null
   dom_preview_plane_setting_container: HTMLElement | null = null
@@ -59,6 +93,8 @@ export class UI {
   // animations listing UI controls
   dom_animation_clip_list: HTMLElement | null = null
   dom_export_button: HTMLButtonElement | null = null
+  dom_export_original_scale_checkbox: HTMLInputElement | null = null
+  dom_export_vrm_checkbox: HTMLInputElement | null = null
 
   dom_mirror_animations_checkbox: HTMLInputElement | null = null
   dom_reset_a_pose_button: HTMLButtonElement | null = null
@@ -109,19 +145,37 @@ export class UI {
     this.dom_upload_model_button = document.querySelector('#model-upload')
     this.dom_load_model_button = document.querySelector('#load-model-button')
     this.dom_load_model_debug_checkbox = document.querySelector('#load-model-debug-checkbox')
+    this.dom_model_unit_system_select = document.querySelector('#model-unit-system-select')
+    this.dom_model_target_height_input = document.querySelector('#model-target-height-input')
+    this.dom_model_import_scale_status = document.querySelector('#model-import-scale-status')
 
     // UI controls with load skeleton step
     this.dom_rotate_model_x_button = document.querySelector('#rotate-model-x-button')
     this.dom_rotate_model_y_button = document.querySelector('#rotate-model-y-button')
     this.dom_rotate_model_z_button = document.querySelector('#rotate-model-z-button')
+    this.dom_rotate_model_angle_input = document.querySelector('#rotate-model-angle-input')
+    this.dom_auto_orient_model_button = document.querySelector('#auto-orient-model-button')
+    this.dom_model_orientation_status = document.querySelector('#model-orientation-status')
+    this.dom_model_triangle_count = document.querySelector('#model-triangle-count')
+    this.dom_simplify_triangle_budget_input = document.querySelector('#simplify-triangle-budget')
+    this.dom_simplify_model_button = document.querySelector('#simplify-model-button')
+    this.dom_revert_simplify_model_button = document.querySelector('#revert-simplify-model-button')
+    this.dom_weld_tolerance_input = document.querySelector('#weld-tolerance-input')
 
     // UI controls for loading/working with skeleton
     this.dom_load_skeleton_tools = document.querySelector('#load-skeleton-tools')
     this.dom_load_skeleton_button = document.querySelector('#load-skeleton-button')
     this.dom_skeleton_edit_tools = document.querySelector('#skeleton-step-actions')
     this.dom_skeleton_drop_type = document.querySelector('#skeleton-selection')
-    this.dom_hand_skeleton_options = document.querySelector('#hand-skeleton-options')
-    this.dom_hand_skeleton_selection = document.querySelector('#hand-skeleton-selection')
+    this.dom_custom_rig_upload = document.querySelector('#custom-rig-upload')
+    this.dom_custom_rig_upload_label = document.querySelector('#custom-rig-upload-label')
+    this.dom_custom_animations_upload = document.querySelector('#custom-animations-upload')
+    this.dom_custom_animations_upload_label = document.querySelector('#custom-animations-upload-label')
+    this.dom_add_custom_skeleton_template_button = document.querySelector('#add-custom-skeleton-template-button')
+    this.dom_skeleton_variation_options = document.querySelector('#skeleton-variation-options')
+    this.dom_existing_armature_options = document.querySelector('#existing-armature-options')
+    this.dom_use_existing_armature_checkbox = document.querySelector('#use-existing-armature-checkbox')
+    this.dom_existing_armature_status = document.querySelector('#existing-armature-status')
     this.dom_mirror_skeleton_checkbox = document.querySelector('#mirror-skeleton')
     this.dom_scale_skeleton_button = document.querySelector('#scale-skeleton-button')
     this.dom_reset_skeleton_scale_button = document.querySelector('#reset-skeleton-scale-button')
@@ -130,6 +184,15 @@ export class UI {
     this.dom_redo_button = document.querySelector('#redo-button')
 
     this.dom_selected_bone_label = document.querySelector('#edit-selected-bone-label')
+    this.dom_add_child_bone_button = document.querySelector('#add-child-bone-button')
+    this.dom_delete_bone_button = document.querySelector('#delete-bone-button')
+    this.dom_bone_parent_selection = document.querySelector('#bone-parent-selection')
+    this.dom_bone_name_input = document.querySelector('#bone-name-input')
+    this.dom_rename_bone_button = document.querySelector('#rename-bone-button')
+    this.dom_socket_name_input = document.querySelector('#socket-name-input')
+    this.dom_add_socket_button = document.querySelector('#add-socket-button')
+    this.dom_socket_selection = document.querySelector('#socket-selection')
+    this.dom_delete_socket_button = document.querySelector('#delete-socket-button')
 
     this.dom_transform_type_radio_group = document.querySelector('#transform-control-type-group')
     this.dom_transform_space_radio_group = document.querySelector('#transform-space-group')
@@ -137,6 +200,8 @@ export class UI {
     // preview plane controls
     this.dom_use_head_weight_correction_container = document.querySelector('#use-head-weight-correction-container')
     this.dom_preview_plane_checkbox = document.querySelector('#preview-plane-checkbox')
+    this.dom_transfer_existing_weights_container = document.querySelector('#transfer-existing-weights-container')
+    this.dom_transfer_existing_weights_checkbox = document.querySelector('#transfer-existing-weights-checkbox')
     this.dom_preview_plane_height_input = document.querySelector('#preview-plane-height-input')
     this.dom_preview_plane_height_label = document.querySelector('#preview-plane-height-label')
     this.dom_preview_plane_setting_container = document.querySelector('#preview-plane-setting-container')
@@ -144,6 +209,7 @@ export class UI {
     this.dom_bind_pose_button = document.querySelector('#action_bind_pose')
     // this.dom_scale_skeleton_input_box = document.querySelector('#scale-input')
     this.dom_move_to_origin_button = document.querySelector('#action_move_to_origin')
+    this.dom_auto_fit_skeleton_button = document.querySelector('#auto-fit-skeleton-button')
     this.dom_skinning_algorithm_selection = document.querySelector('#skinning-algorithm-options')
 
     this.dom_mesh_preview_group = document.querySelector('#mesh-preview-group')
@@ -152,6 +218,8 @@ export class UI {
     this.dom_scale_skeleton_input = document.querySelector('#scale-skeleton-input')
     this.dom_scale_skeleton_percentage_display = document.querySelector('#scale-skeleton-percentage-display')
     this.dom_scale_skeleton_controls = document.querySelector('#scale-skeleton-controls')
+    this.dom_limb_proportion_controls = document.querySelector('#limb-proportion-controls')
+    this.dom_reset_limb_proportions_button = document.querySelector('#reset-limb-proportions-button')
 
     // UI controls for working with skinned mesh
     this.dom_skinned_mesh_tools = document.querySelector('#skinned-step-tools')
@@ -166,6 +234,8 @@ export class UI {
     // UI Controls for working with animation list/selection and export
     this.dom_animation_clip_list = document.querySelector('#animations-items')
     this.dom_export_button = document.querySelector('#export-button')
+    this.dom_export_original_scale_checkbox = document.querySelector('#export-original-scale-checkbox')
+    this.dom_export_vrm_checkbox = document.querySelector('#export-vrm-checkbox')
     this.dom_import_animations_button = document.querySelector('#mirror-animations-checkbox')
     this.dom_mirror_animations_checkbox = document.querySelector('#mirror-animations-checkbox')
     this.dom_reset_a_pose_button = document.querySelector('#reset-a-pose-button')
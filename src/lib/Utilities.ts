@@ -5,6 +5,7 @@ import {
 import BoneTransformState from './interfaces/BoneTransformState'
 import type BoneCalculationData from './interfaces/BoneCalculationData'
 import IntersectionPointData from './interfaces/IntersectionPointData'
+import { type MirrorNamingConvention } from './processes/load-skeleton/interfaces/SkeletonTemplate'
 
 // eslint-disable-next-line @typescript-eslint/no-extraneous-class
 export class Utility {
@@ -81,11 +82,15 @@ export class Utility {
       }
 
       if (obj.material !== undefined) {
-        if (obj.material.map) {
-          obj.material.map.dispose()
-        }
+        // meshes with geometry groups have an array of materials
+        const materials = Array.isArray(obj.material) ? obj.material : [obj.material]
+        materials.forEach((material) => {
+          if (material.map) {
+            material.map.dispose()
+          }
 
-        obj.material.dispose()
+          material.dispose()
+        })
       }
     }
 
@@ -180,7 +185,9 @@ export class Utility {
         bone.name,
         bone.position.clone(),
         new_rotation,
-        bone.scale.clone()
+        bone.scale.clone(),
+        bone.uuid,
+        bone.parent instanceof Bone ? bone.parent.uuid : null
       )
       bone_transforms.push(new_transform_state)
     })
@@ -194,10 +201,11 @@ export class Utility {
   ): void {
     original_bone_transforms.forEach((bone_transform) => {
       const bone: Bone | null =
-        skeleton.bones.find((bone: Bone) => bone.name === bone_transform.name) ??
+        skeleton.bones.find((bone: Bone) => bone.uuid === bone_transform.uuid) ??
         null
 
       if (bone !== null) {
+        bone.name = bone_transform.name // undoes renaming the bone
         bone.position.copy(bone_transform.position)
         const euler: Euler = new Euler()
         euler.setFromVector3(bone_transform.rotation)
@@ -207,17 +215,73 @@ export class Utility {
     })
   }
 
-  static calculate_bone_base_name (bone_name: string): string {
-    // human has different bone naming convention than 4 legged animals
-    if (bone_name.includes('DEF-')) {
-      return bone_name
-        .replace('DEF-', '')
-        .replace(/(R|L)/g, '')
+  /**
+   * @returns true if the skeleton has the same bones and parents as the stored bone transforms
+   */
+  static has_same_bone_hierarchy (skeleton: Skeleton, bone_transforms: BoneTransformState[]): boolean {
+    if (skeleton.bones.length !== bone_transforms.length) {
+      return false
     }
 
-    // animal rig
-    return bone_name
-      .replace(/(Right|Right_|R_|_Right|_R|Left|Left_|_Left|L_|_R|_L)/g, '')
+    const parent_uuids = new Map<string, string | null>()
+    skeleton.bones.forEach((bone: Bone) => {
+      parent_uuids.set(bone.uuid, bone.parent instanceof Bone ? bone.parent.uuid : null)
+    })
+    return bone_transforms.every((bone_transform: BoneTransformState) => {
+      return parent_uuids.has(bone_transform.uuid) && parent_uuids.get(bone_transform.uuid) === bone_transform.parent_uuid
+    })
+  }
+
+  /**
+   * Adds, removes and re-parents bones so they match the stored bone transforms.
+   * Deleted bones are put back as the same object, so their sockets come back with them.
+   * Transforms and names are not changed, so call restore_bone_transforms() afterwards.
+   * The skeleton bone list is not updated, so create a new skeleton from the top bone afterwards
+   * @param stored_bones bones from earlier states by uuid, so deleted bones can be put back. Bones that are not in here are created again
+   */
+  static restore_bone_hierarchy (skeleton: Skeleton, original_bone_transforms: BoneTransformState[], stored_bones: Map<string, Bone>): void {
+    const bones_by_uuid = new Map<string, Bone>(stored_bones)
+    skeleton.bones.forEach((bone: Bone) => bones_by_uuid.set(bone.uuid, bone))
+
+    // bone transforms are stored parents first, so the parent always exists when we get to a child
+    const restored_bone_uuids = new Set<string>()
+    original_bone_transforms.forEach((bone_transform: BoneTransformState) => {
+      let bone: Bone | undefined = bones_by_uuid.get(bone_transform.uuid)
+      if (bone === undefined) {
+        bone = new Bone()
+        bone.uuid = bone_transform.uuid
+        bone.name = bone_transform.name
+        bones_by_uuid.set(bone.uuid, bone)
+      }
+      restored_bone_uuids.add(bone.uuid)
+
+      const parent: Bone | undefined = bone_transform.parent_uuid !== null ? bones_by_uuid.get(bone_transform.parent_uuid) : undefined
+      if (parent !== undefined && bone.parent !== parent) {
+        parent.add(bone)
+      }
+    })
+
+    // bones that were added after the state was stored
+    skeleton.bones.forEach((bone: Bone) => {
+      if (!restored_bone_uuids.has(bone.uuid)) {
+        bone.removeFromParent()
+      }
+    })
+  }
+
+  /**
+   * Name of the bone on the other side of the skeleton template, using its left/right suffixes
+   * @returns null for bones that are not on a side (head, neck, spine)
+   */
+  static mirror_bone_name (bone_name: string, mirror_naming: MirrorNamingConvention): string | null {
+    const { left_suffix, right_suffix } = mirror_naming
+    if (bone_name.endsWith(left_suffix)) {
+      return bone_name.slice(0, -left_suffix.length) + right_suffix
+    }
+    if (bone_name.endsWith(right_suffix)) {
+      return bone_name.slice(0, -right_suffix.length) + left_suffix
+    }
+    return null
   }
 
   // Find the closest bone for raycaster using screen-space distance to account for camera zoom
@@ -248,6 +312,29 @@ export class Utility {
     return output
   }
 
+  /**
+   * Moves the armature bones to the given world positions. Bones without a position,
+   * like the finger tips, keep their offset from their parent
+   * @param bone_positions - world position for each bone name
+   * @returns number of bones that were moved
+   */
+  static fit_armature_to_bone_positions (armature: Object3D, bone_positions: Map<string, Vector3>): number {
+    let fitted_bone_count = 0
+    armature.updateWorldMatrix(true, true)
+
+    // traverse visits parents before children, so each parent is in place before its children are moved
+    armature.traverse((child: Object3D) => {
+      const target_position: Vector3 | undefined = bone_positions.get(child.name)
+      if (child.type !== 'Bone' || target_position === undefined || child.parent === null) return
+
+      child.position.copy(child.parent.worldToLocal(target_position.clone()))
+      child.updateWorldMatrix(false, true)
+      fitted_bone_count++
+    })
+
+    return fitted_bone_count
+  }
+
   static scale_armature_by_scalar (armature: Object3D, scalar: number): void {
     armature.traverse((bone: Object3D) => {
       if (bone.type === 'Bone') {
@@ -260,6 +347,11 @@ export class Utility {
     return bone_name.replace('mixamorig_', '')
   }
 
+  // for names that come from user files (meshes, materials, blend shapes, file names) before they go in HTML
+  static escape_html (text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  }
+
   static find_closest_bone_index_from_vertex_index (vertex_index: number, geometry: BufferGeometry, bones: BoneCalculationData[]): number {
     const vertex_position: Vector3 = new Vector3().fromBufferAttribute(geometry.attributes.position, vertex_index)
     // let closest_bone: Bone = bones[0].bone_object
@@ -0,0 +1,9 @@
+// outcome of loading a model file. Success and MissingTextures both mean the model was loaded
+export enum ModelLoadResultCode {
+  Success = 'success',
+  MissingTextures = 'missing-textures',
+  NoMeshes = 'no-meshes',
+  CorruptFile = 'corrupt-file',
+  MissingModelFile = 'missing-model-file',
+  UnsupportedExtension = 'unsupported-extension'
+}
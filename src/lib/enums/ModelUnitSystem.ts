@@ -0,0 +1,7 @@
+// units the model file was authored in. Auto guesses from the model size
+export enum ModelUnitSystem {
+  Auto = 'auto',
+  Meters = 'meters',
+  Centimeters = 'centimeters',
+  Inches = 'inches'
+}
@@ -1,18 +1,13 @@
-// Supported skeleton types
-// the file names for the skeleton types are associated with the const
+// Ids of the skeleton templates that have special handling in code
+// everything else about a template (rig file, animations, etc.) is in the SkeletonTemplateManifest
 export enum SkeletonType {
-  Quadraped = 'rigs/rig-fox.glb',
-  Human = 'rigs/rig-human.glb',
-  Bird = 'rigs/rig-bird.glb',
-  Dragon = 'rigs/rig-dragon.glb',
-  Error = 'ERROR',
-  None = 'NONE'
-}
-
-// Hand skeleton variation types for human skeleton
-export enum HandSkeletonType {
-  AllFingers = 'all-fingers',
-  ThumbAndIndex = 'thumb-and-index',
-  SimplifiedHand = 'simplified-hand',
-  SingleBone = 'single-bone'
+  Quadraped = 'quadraped',
+  Human = 'human',
+  Bird = 'bird',
+  Dragon = 'dragon',
+  Insect = 'insect',
+  Spider = 'spider',
+  Serpent = 'serpent',
+  Error = 'error',
+  None = 'select-skeleton'
 }
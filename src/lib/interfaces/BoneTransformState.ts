@@ -5,11 +5,15 @@ export default class BoneTransformState {
   public position: Vector3
   public rotation: Vector3 // Not sure if this is right
   public scale: Vector3
+  public uuid: string // bones are matched by uuid, so renamed and deleted bones are restored as the same object
+  public parent_uuid: string | null // null for the top bone. Used to undo adding, deleting and re-parenting bones
 
-  constructor (name = '', position: Vector3, rotation: Vector3, scale: Vector3) {
+  constructor (name = '', position: Vector3, rotation: Vector3, scale: Vector3, uuid: string = '', parent_uuid: string | null = null) {
     this.name = name
     this.position = position
     this.rotation = rotation
     this.scale = scale
+    this.uuid = uuid
+    this.parent_uuid = parent_uuid
   }
 }
@@ -1,7 +1,8 @@
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { type GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFLoaderFactory } from '../../GLTFLoaderFactory.ts'
 import { type AnimationClip } from 'three'
 import { AnimationUtility } from './AnimationUtility.ts'
-import { SkeletonType } from '../../enums/SkeletonType.ts'
+import { SkeletonTemplateRegistry } from '../load-skeleton/SkeletonTemplateRegistry.ts'
 import { type TransformedAnimationClipPair } from './interfaces/TransformedAnimationClipPair.ts'
 
 export interface AnimationLoadProgress {
@@ -17,7 +18,7 @@ export interface AnimationLoadProgress {
 }
 
 export class AnimationLoader extends EventTarget {
-  private readonly gltf_loader: GLTFLoader = new GLTFLoader()
+  private readonly gltf_loader: GLTFLoader = GLTFLoaderFactory.create_loader()
   private animations_file_path: string = 'animations/'
   private readonly file_progress_map = new Map<string, { loaded: number, total: number }>()
   private completed_files: number = 0
@@ -32,13 +33,17 @@ export class AnimationLoader extends EventTarget {
 
   /**
    * Loads all animations for the specified skeleton type
-   * @param skeleton_type The type of skeleton to load animations for
+   * @param skeleton_type Id of the skeleton template to load animations for
    * @param skeleton_scale Scale factor to apply to position keyframes
+   * @param leg_length_scale Leg proportion of the skeleton, also applied to position keyframes
+   * @param rig_bone_names only keep tracks for these bones. Used for custom skeleton templates
    * @returns Promise that resolves with the loaded animation clips
    */
   public async load_animations (
-    skeleton_type: SkeletonType,
-    skeleton_scale: number = 1.0
+    skeleton_type: string,
+    skeleton_scale: number = 1.0,
+    leg_length_scale: number = 1.0,
+    rig_bone_names: string[] | null = null
   ): Promise<TransformedAnimationClipPair[]> {
     const file_paths = this.get_animation_file_paths(skeleton_type)
 
@@ -77,7 +82,7 @@ export class AnimationLoader extends EventTarget {
               this.completed_files++
 
               // Process the loaded animations
-              const processed_clips = this.process_loaded_animations(gltf.animations as AnimationClip[], skeleton_scale)
+              const processed_clips = this.process_loaded_animations(gltf.animations as AnimationClip[], skeleton_scale, leg_length_scale, rig_bone_names)
               loaded_clips.push(...processed_clips)
 
               completed_loads++
@@ -127,25 +132,12 @@ export class AnimationLoader extends EventTarget {
   /**
    * Gets the file paths for animations based on skeleton type
    */
-  private get_animation_file_paths (skeleton_type: SkeletonType): string[] {
-    const base_path = this.animations_file_path
-
-    switch (skeleton_type) {
-      case SkeletonType.Human:
-        return [
-          `${base_path}human-base-animations.glb`,
-          `${base_path}human-addon-animations.glb`
-        ]
-      case SkeletonType.Quadraped:
-        return [`${base_path}quad-creature-animations.glb`]
-      case SkeletonType.Bird:
-        return [`${base_path}bird-animations.glb`]
-      case SkeletonType.Dragon:
-        return [`${base_path}dragon-animations.glb`]
-      default:
-        console.error('Unknown skeleton type for loading animations:', skeleton_type)
-        return []
+  private get_animation_file_paths (skeleton_type: string): string[] {
+    const file_paths: string[] = SkeletonTemplateRegistry.animation_file_paths(skeleton_type, this.animations_file_path)
+    if (file_paths.length === 0) {
+      console.error('Unknown skeleton type for loading animations:', skeleton_type)
     }
+    return file_paths
   }
 
   /**
@@ -153,16 +145,22 @@ export class AnimationLoader extends EventTarget {
    */
   private process_loaded_animations (
     raw_animations: AnimationClip[],
-    skeleton_scale: number
+    skeleton_scale: number,
+    leg_length_scale: number,
+    rig_bone_names: string[] | null
   ): TransformedAnimationClipPair[] {
     // Deep clone the animations to avoid modifying originals
-    const cloned_animations = AnimationUtility.deep_clone_animation_clips(raw_animations)
+    let cloned_animations = AnimationUtility.deep_clone_animation_clips(raw_animations)
+
+    if (rig_bone_names !== null) {
+      cloned_animations = AnimationUtility.filter_tracks_to_bones(cloned_animations, rig_bone_names)
+    }
 
     // Clean track data (remove position tracks except for specific cases)
     AnimationUtility.clean_track_data(cloned_animations)
 
     // Apply skeleton scaling to position keyframes
-    AnimationUtility.apply_skeleton_scale_to_position_keyframes(cloned_animations, skeleton_scale)
+    AnimationUtility.apply_skeleton_scale_to_position_keyframes(cloned_animations, skeleton_scale, leg_length_scale)
 
     // Create the transformed pairs
     return cloned_animations.map(clip => ({
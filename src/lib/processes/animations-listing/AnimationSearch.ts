@@ -1,6 +1,6 @@
 import { type AnimationClip } from 'three'
 import { type ThemeManager } from '../../ThemeManager'
-import { SkeletonType } from '../../enums/SkeletonType'
+import { SkeletonTemplateRegistry } from '../load-skeleton/SkeletonTemplateRegistry'
 import { type AnimationWithState } from './interfaces/AnimationWithState'
 
 export class AnimationSearch extends EventTarget {
@@ -10,11 +10,11 @@ export class AnimationSearch extends EventTarget {
   private filtered_animations_list: AnimationWithState[] = []
 
   private readonly theme_manager: ThemeManager
-  private readonly skeleton_type: SkeletonType
+  private readonly skeleton_type: string
 
   private custom_event: CustomEvent | null = null
 
-  constructor (filter_input_id: string, animation_list_container_id: string, theme_manager: ThemeManager, skeleton_type: SkeletonType) {
+  constructor (filter_input_id: string, animation_list_container_id: string, theme_manager: ThemeManager, skeleton_type: string) {
     super()
     this.filter_input = document.querySelector(`#${filter_input_id}`)
     this.animation_list_container = document.querySelector(`#${animation_list_container_id}`)
@@ -137,35 +137,21 @@ export class AnimationSearch extends EventTarget {
       const checked_attribute = was_checked ? 'checked' : ''
 
       // build out where the video previews will be stored
-      // each skeleton type has its own folder
-      let preview_folder: string = ''
-      switch (this.skeleton_type) {
-        case SkeletonType.Human:
-          preview_folder = 'human'
-          break
-        case SkeletonType.Quadraped:
-          preview_folder = 'four-legged'
-          break
-        case SkeletonType.Bird:
-          preview_folder = 'bird'
-          break
-        case SkeletonType.Dragon:
-          preview_folder = 'dragon'
-          break
-        default:
-          preview_folder = 'error'
-          console.error('Unknown skeleton type for animation previews. Update AnimationSearch.ts switch statement.')
-          break
-      }
+      // each skeleton type has its own folder. Custom skeleton templates do not have previews
+      const preview_folder: string | null = SkeletonTemplateRegistry.get_template(this.skeleton_type)?.preview_folder ?? null
 
       const anim_name: string = animation_clip.name
       const theme_name: string = this.theme_manager.get_current_theme()
 
       // Use a placeholder for the video preview, to be replaced by IntersectionObserver
+      const preview_element: string = preview_folder !== null
+        ? `<div class="anim-preview-placeholder" data-src="${import.meta.env.BASE_URL}animpreviews/${preview_folder}/${theme_name}_${anim_name}.webm" style="pointer-events: none;"></div>`
+        : '<span class="material-symbols-outlined" style="pointer-events: none;">play_arrow</span>'
+
       this.animation_list_container.innerHTML +=
         `<div class="anim-item">
             <button class="secondary-button play" data-index="${original_index}" style="display: flex; flex-direction:column">
-              <div class="anim-preview-placeholder" data-src="${import.meta.env.BASE_URL}animpreviews/${preview_folder}/${theme_name}_${anim_name}.webm" style="pointer-events: none;"></div>
+              ${preview_element}
             </button>
             <label class="styled-checkbox">
                 <input type="checkbox" name="${animation_clip.name}" value="${original_index}" ${checked_attribute}>
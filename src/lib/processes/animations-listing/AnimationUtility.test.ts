@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { AnimationClip, QuaternionKeyframeTrack, VectorKeyframeTrack } from 'three'
+import { AnimationUtility } from './AnimationUtility'
+
+function create_track (track_name: string): QuaternionKeyframeTrack | VectorKeyframeTrack {
+  return track_name.endsWith('.quaternion')
+    ? new QuaternionKeyframeTrack(track_name, [0], [0, 0, 0, 1])
+    : new VectorKeyframeTrack(track_name, [0], [0, 0, 0])
+}
+
+describe('AnimationUtility', () => {
+  describe('filter_tracks_to_bones', () => {
+    it('should remove tracks for bones that are not in the rig', () => {
+      const animation_clip = new AnimationClip('Walk', 1, ['hips.quaternion', 'hips.position', 'tail.quaternion'].map(create_track))
+
+      const filtered_clips: AnimationClip[] = AnimationUtility.filter_tracks_to_bones([animation_clip], ['hips', 'spine'])
+
+      expect(filtered_clips).toEqual([animation_clip])
+      expect(animation_clip.tracks.map(track => track.name)).toEqual(['hips.quaternion', 'hips.position'])
+    })
+
+    it('should drop clips that have no tracks left', () => {
+      const walk_clip = new AnimationClip('Walk', 1, [create_track('hips.quaternion')])
+      const other_rig_clip = new AnimationClip('Other rig', 1, [create_track('mixamorigHips.quaternion')])
+
+      expect(AnimationUtility.filter_tracks_to_bones([walk_clip, other_rig_clip], ['hips'])).toEqual([walk_clip])
+    })
+  })
+})
@@ -1,19 +1,24 @@
-import { AnimationClip, Quaternion, Vector3, type KeyframeTrack, type QuaternionKeyframeTrack } from 'three'
+import { AnimationClip, PropertyBinding, Quaternion, Vector3, type KeyframeTrack, type QuaternionKeyframeTrack } from 'three'
 import type { TransformedAnimationClipPair } from './interfaces/TransformedAnimationClipPair'
+import { type MirrorNamingConvention } from '../load-skeleton/interfaces/SkeletonTemplate'
 
 export class AnimationUtility {
   // when we scaled the skeleton itself near the beginning, we kept track of that
   // this scaling will affect position keyframes since they expect the original skeleton scale
   // this will fix any issues with position keyframes not matching the current skeleton scale
-  static apply_skeleton_scale_to_position_keyframes (animation_clips: AnimationClip[], scaleAmount: number): void {
+  /**
+   * @param leg_length_scale leg proportion of the skeleton. The hips height and stride length follow the legs
+   */
+  static apply_skeleton_scale_to_position_keyframes (animation_clips: AnimationClip[], scaleAmount: number, leg_length_scale: number = 1.0): void {
+    const position_scale: number = scaleAmount * leg_length_scale
     animation_clips.forEach((animation_clip: AnimationClip) => {
       animation_clip.tracks.forEach((track: KeyframeTrack) => {
         if (track.name.includes('.position')) {
           const values = track.values
           for (let i = 0; i < values.length; i += 3) {
-            values[i] *= scaleAmount
-            values[i + 1] *= scaleAmount
-            values[i + 2] *= scaleAmount
+            values[i] *= position_scale
+            values[i + 1] *= position_scale
+            values[i + 2] *= position_scale
           }
         }
       })
@@ -31,6 +36,20 @@ export class AnimationUtility {
     })
   }
 
+  /**
+   * Removes tracks for bones that are not in the rig. Animations from other rigs can have extra bones
+   * @returns clips that still have tracks left
+   */
+  static filter_tracks_to_bones (animation_clips: AnimationClip[], bone_names: string[]): AnimationClip[] {
+    const rig_bone_names = new Set<string>(bone_names)
+    animation_clips.forEach((animation_clip: AnimationClip) => {
+      animation_clip.tracks = animation_clip.tracks.filter((track: KeyframeTrack) => {
+        return rig_bone_names.has(PropertyBinding.parseTrackName(track.name).nodeName)
+      })
+    })
+    return animation_clips.filter((animation_clip: AnimationClip) => animation_clip.tracks.length > 0)
+  }
+
   /// Removes position tracks from animation clips, keeping only rotation tracks.
   /// @param animation_clips - The animation clips to modify.
   /// @param preserve_root_position - Whether to keep the root position track.
@@ -117,9 +136,12 @@ export class AnimationUtility {
 
   /**
    * Mirrors animations by swapping left and right bone tracks.
-   * This swaps tracks that end with 'L' or 'R' to create mirrored animations.
+   * This swaps tracks of bones that end with the skeleton template's left/right suffixes to create mirrored animations.
    */
-  static apply_animation_mirroring (animation_clips: TransformedAnimationClipPair[]): void {
+  static apply_animation_mirroring (animation_clips: TransformedAnimationClipPair[], mirror_naming: MirrorNamingConvention): void {
+    const left_track_suffix: string = `${mirror_naming.left_suffix}.quaternion`
+    const right_track_suffix: string = `${mirror_naming.right_suffix}.quaternion`
+
     // do the swapping of the left/right tracks since we have all mirrored tracks exist now
     animation_clips.forEach((warped_clip: TransformedAnimationClipPair) => {
       const tracks = warped_clip.display_animation_clip.tracks
@@ -132,9 +154,9 @@ export class AnimationUtility {
         const track_name = track.name
 
         // Check if this is a left track that we haven't already processed
-        if (track_name.endsWith('L.quaternion')) {
+        if (track_name.endsWith(left_track_suffix)) {
           // Find the corresponding right track
-          const right_track_name = track_name.replace(/L\.quaternion$/, 'R.quaternion')
+          const right_track_name = track_name.slice(0, -left_track_suffix.length) + right_track_suffix
           const right_track_index = tracks.findIndex(t => t.name === right_track_name)
 
           if (right_track_index !== -1) {
@@ -0,0 +1,99 @@
+import { type SkinnedMesh } from 'three'
+import { Utility } from '../../Utilities.ts'
+
+/**
+ * Sliders to preview the blend shapes (morph targets) of the skinned meshes.
+ * Blend shapes with the same name on different meshes share a slider, so a face and its
+ * eyebrows move together. The panel is hidden when the model has no blend shapes
+ */
+export class BlendShapePanel {
+  private readonly panel_element: HTMLElement | null = null
+  private readonly sliders_container: HTMLElement | null = null
+  private skinned_meshes: SkinnedMesh[] = []
+
+  constructor (panel_element_id: string, sliders_container_id: string, reset_button_id: string) {
+    this.panel_element = document.querySelector(`#${panel_element_id}`)
+    this.sliders_container = document.querySelector(`#${sliders_container_id}`)
+    this.setup_slider_listener()
+
+    document.querySelector(`#${reset_button_id}`)?.addEventListener('click', () => {
+      this.reset_blend_shapes()
+    })
+  }
+
+  public set_skinned_meshes (skinned_meshes: SkinnedMesh[]): void {
+    this.skinned_meshes = skinned_meshes
+    this.render()
+  }
+
+  public blend_shape_names (): string[] {
+    const names = new Set<string>()
+    this.skinned_meshes.forEach((skinned_mesh: SkinnedMesh) => {
+      Object.keys(skinned_mesh.morphTargetDictionary ?? {}).forEach((name: string) => names.add(name))
+    })
+    return Array.from(names)
+  }
+
+  /**
+   * Sets the influence on every mesh that has a blend shape with this name
+   */
+  public set_blend_shape_influence (name: string, influence: number): void {
+    this.skinned_meshes.forEach((skinned_mesh: SkinnedMesh) => {
+      const morph_index: number | undefined = skinned_mesh.morphTargetDictionary?.[name]
+      if (morph_index !== undefined && skinned_mesh.morphTargetInfluences !== undefined) {
+        skinned_mesh.morphTargetInfluences[morph_index] = influence
+      }
+    })
+  }
+
+  // influences are exported as the default weights, so reset them to not bake a preview into the file
+  public reset_blend_shapes (): void {
+    this.skinned_meshes.forEach((skinned_mesh: SkinnedMesh) => {
+      skinned_mesh.morphTargetInfluences?.fill(0)
+    })
+    this.sliders_container?.querySelectorAll('input[type="range"]').forEach((slider: Element) => {
+      (slider as HTMLInputElement).value = '0'
+    })
+  }
+
+  private render (): void {
+    const names: string[] = this.blend_shape_names()
+
+    if (this.panel_element !== null) {
+      this.panel_element.style.display = names.length > 0 ? 'flex' : 'none'
+    }
+
+    if (this.sliders_container === null) {
+      return
+    }
+
+    this.sliders_container.innerHTML = names.map((name: string) => {
+      const safe_name: string = Utility.escape_html(name)
+      return `<label class="blend-shape-slider">
+            <span title="${safe_name}">${safe_name}</span>
+            <input type="range" min="0" max="1" step="0.01" value="${this.current_influence(name)}" data-blend-shape="${safe_name}">
+        </label>`
+    }).join('')
+  }
+
+  private current_influence (name: string): number {
+    for (const skinned_mesh of this.skinned_meshes) {
+      const morph_index: number | undefined = skinned_mesh.morphTargetDictionary?.[name]
+      if (morph_index !== undefined) {
+        return skinned_mesh.morphTargetInfluences?.[morph_index] ?? 0
+      }
+    }
+    return 0
+  }
+
+  private setup_slider_listener (): void {
+    // sliders are rebuilt for every model, so listen on the container instead of each slider
+    this.sliders_container?.addEventListener('input', (event: Event) => {
+      const target = event.target as HTMLInputElement
+      const name: string | undefined = target.dataset.blendShape
+      if (name !== undefined) {
+        this.set_blend_shape_influence(name, parseFloat(target.value))
+      }
+    })
+  }
+}
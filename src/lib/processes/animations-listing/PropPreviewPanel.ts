@@ -0,0 +1,108 @@
+import { type Object3D, type SkinnedMesh } from 'three'
+import { GLTFLoaderFactory } from '../../GLTFLoaderFactory.ts'
+import { ModalDialog } from '../../ModalDialog.ts'
+import { Utility } from '../../Utilities.ts'
+import { SkeletonSockets } from '../edit-skeleton/SkeletonSockets.ts'
+import { SocketFollower } from '../edit-skeleton/SocketFollower.ts'
+
+/**
+ * Loads a prop model (weapon, hat, etc.) and shows it on one of the skeleton sockets while the animations play.
+ * The prop follows the socket from outside of the skinned mesh, so it is not exported with the model.
+ * The panel is hidden when the skeleton has no sockets
+ */
+export class PropPreviewPanel {
+  private readonly panel_element: HTMLElement | null = null
+  private readonly prop_upload: HTMLInputElement | null = null
+  private readonly socket_selection: HTMLSelectElement | null = null
+  private sockets: Object3D[] = []
+  private preview_parent: Object3D | null = null // scene the skinned meshes are in
+  private prop_model: Object3D | null = null
+  private prop_follower: SocketFollower | null = null
+
+  constructor (panel_element_id: string, prop_upload_id: string, socket_selection_id: string, remove_button_id: string) {
+    this.panel_element = document.querySelector(`#${panel_element_id}`)
+    this.prop_upload = document.querySelector(`#${prop_upload_id}`)
+    this.socket_selection = document.querySelector(`#${socket_selection_id}`)
+
+    this.prop_upload?.addEventListener('change', () => {
+      const prop_file: File | undefined = this.prop_upload?.files?.[0]
+      if (prop_file !== undefined) {
+        void this.load_prop_file(prop_file)
+      }
+    })
+
+    this.socket_selection?.addEventListener('change', () => {
+      this.attach_prop_to_selected_socket()
+    })
+
+    document.querySelector(`#${remove_button_id}`)?.addEventListener('click', () => {
+      this.remove_prop()
+    })
+  }
+
+  public set_skinned_meshes (skinned_meshes: SkinnedMesh[]): void {
+    this.remove_prop()
+
+    // every skinned mesh shares the same skeleton, so the sockets are only on the first one
+    const top_bone: Object3D | undefined = skinned_meshes[0]?.skeleton.bones[0]
+    this.sockets = top_bone !== undefined ? SkeletonSockets.find_sockets(top_bone) : []
+    this.preview_parent = skinned_meshes[0]?.parent ?? null
+    this.render()
+  }
+
+  public remove_prop (): void {
+    this.prop_follower?.removeFromParent()
+    this.prop_follower = null
+    this.prop_model = null
+
+    // lets the same file be picked again
+    if (this.prop_upload !== null) {
+      this.prop_upload.value = ''
+    }
+  }
+
+  private async load_prop_file (prop_file: File): Promise<void> {
+    try {
+      const gltf = await GLTFLoaderFactory.create_loader().parseAsync(await prop_file.arrayBuffer(), '')
+      this.prop_model = gltf.scene
+      this.prop_model.name = `Prop Preview: ${prop_file.name}`
+    } catch (error) {
+      console.error('error reading prop file: ', error)
+      new ModalDialog('Could not load prop', `${Utility.escape_html(prop_file.name)} could not be read. Props need to be GLB files.`).show()
+      return
+    }
+
+    this.attach_prop_to_selected_socket()
+  }
+
+  private attach_prop_to_selected_socket (): void {
+    this.prop_follower?.removeFromParent()
+    this.prop_follower = null
+
+    const socket: Object3D | undefined = this.sockets.find((socket: Object3D) => socket.name === this.socket_selection?.value)
+    if (socket === undefined || this.prop_model === null || this.preview_parent === null) {
+      return
+    }
+
+    this.prop_follower = new SocketFollower(socket)
+    this.prop_follower.name = 'Prop Preview'
+    this.prop_follower.add(this.prop_model)
+    this.preview_parent.add(this.prop_follower)
+  }
+
+  private render (): void {
+    if (this.panel_element !== null) {
+      this.panel_element.style.display = this.sockets.length > 0 ? 'flex' : 'none'
+    }
+
+    const socket_selection: HTMLSelectElement | null = this.socket_selection
+    if (socket_selection === null) {
+      return
+    }
+
+    socket_selection.replaceChildren()
+    this.sockets.forEach((socket: Object3D) => {
+      socket_selection.add(new Option(socket.name, socket.name))
+    })
+  }
+}
@@ -9,9 +9,13 @@ import { AnimationUtility } from './AnimationUtility.ts'
 import { AnimationLoader, type AnimationLoadProgress } from './AnimationLoader.ts'
 
 import { SkeletonType } from '../../enums/SkeletonType.ts'
+import { SkeletonTemplateRegistry } from '../load-skeleton/SkeletonTemplateRegistry.ts'
+import { type SkeletonTemplate } from '../load-skeleton/interfaces/SkeletonTemplate.ts'
 import { Utility } from '../../Utilities.ts'
 import { type ThemeManager } from '../../ThemeManager.ts'
 import { AnimationSearch } from './AnimationSearch.ts'
+import { BlendShapePanel } from './BlendShapePanel.ts'
+import { PropPreviewPanel } from './PropPreviewPanel.ts'
 import { type TransformedAnimationClipPair } from './interfaces/TransformedAnimationClipPair.ts'
 
 // Note: EventTarget is a built-ininterface and do not need to import it
@@ -21,17 +25,20 @@ export class StepAnimationsListing extends EventTarget {
   private readonly animation_player: AnimationPlayer
   private animation_clips_loaded: TransformedAnimationClipPair[] = []
   private readonly animation_loader: AnimationLoader = new AnimationLoader()
+  private readonly blend_shape_panel: BlendShapePanel = new BlendShapePanel('blend-shape-panel', 'blend-shape-sliders', 'reset-blend-shapes-button')
+  private readonly prop_preview_panel: PropPreviewPanel = new PropPreviewPanel('prop-preview-panel', 'prop-preview-upload', 'prop-preview-socket-selection', 'remove-prop-preview-button')
 
   private animation_mixer: AnimationMixer = new AnimationMixer(new Object3D())
   private skinned_meshes_to_animate: SkinnedMesh[] = []
   private current_playing_index: number = 0
-  private skeleton_type: SkeletonType = SkeletonType.Human
+  private skeleton_type: string = SkeletonType.Human
 
   private animations_file_path: string = 'animations/'
 
   // retrieved from load skeleton step
   // we will use this to scale all position animation keyframes (uniform scale)
   private skeleton_scale: number = 1.0
+  private leg_length_scale: number = 1.0
 
   private _added_event_listeners: boolean = false
 
@@ -59,8 +66,9 @@ export class StepAnimationsListing extends EventTarget {
     this.theme_manager = theme_manager
   }
 
-  public begin (skeleton_type: SkeletonType, skeleton_scale: number): void {
+  public begin (skeleton_type: string, skeleton_scale: number, leg_length_scale: number = 1.0): void {
     this.skeleton_scale = skeleton_scale
+    this.leg_length_scale = leg_length_scale
 
     if (this.ui.dom_current_step_index != null) {
       this.ui.dom_current_step_index.innerHTML = '4'
@@ -99,6 +107,12 @@ export class StepAnimationsListing extends EventTarget {
     this.animation_mixer = new AnimationMixer(new Object3D())
     this.current_playing_index = 0
     this.animation_player.clear_animation()
+    this.prop_preview_panel.remove_prop()
+  }
+
+  // the prop is not part of the skinned meshes, so it stays in the scene when going back to another step
+  public remove_prop_preview (): void {
+    this.prop_preview_panel.remove_prop()
   }
 
   public mixer (): AnimationMixer {
@@ -121,6 +135,8 @@ export class StepAnimationsListing extends EventTarget {
 
   public load_and_apply_default_animation_to_skinned_mesh (final_skinned_meshes: SkinnedMesh[]): void {
     this.skinned_meshes_to_animate = final_skinned_meshes
+    this.blend_shape_panel.set_skinned_meshes(final_skinned_meshes)
+    this.prop_preview_panel.set_skinned_meshes(final_skinned_meshes)
 
     // Set the animations file path on the loader
     this.animation_loader.set_animations_file_path(this.animations_file_path)
@@ -130,8 +146,13 @@ export class StepAnimationsListing extends EventTarget {
     // Create an animation mixer to do the playback. Play the first by default
     this.animation_mixer = new AnimationMixer(new Object3D())
 
+    // animation packs for custom templates can be made for other rigs, so only keep tracks for bones in this rig
+    const rig_bone_names: string[] | null = SkeletonTemplateRegistry.get_template(this.skeleton_type)?.is_custom === true
+      ? (final_skinned_meshes[0]?.skeleton.bones.map((bone) => bone.name) ?? [])
+      : null
+
     // Load animations using the new AnimationLoader
-    this.animation_loader.load_animations(this.skeleton_type, this.skeleton_scale)
+    this.animation_loader.load_animations(this.skeleton_type, this.skeleton_scale, this.leg_length_scale, rig_bone_names)
       .then((loaded_clips: TransformedAnimationClipPair[]) => {
         this.animation_clips_loaded = loaded_clips
         this.onAllAnimationsLoaded()
@@ -222,8 +243,9 @@ export class StepAnimationsListing extends EventTarget {
       warped_clip.display_animation_clip = AnimationUtility.deep_clone_animation_clip(warped_clip.original_animation_clip)
     })
 
-    if (this.mirror_animations_enabled) {
-      AnimationUtility.apply_animation_mirroring(this.animation_clips_loaded)
+    const skeleton_template: SkeletonTemplate | undefined = SkeletonTemplateRegistry.get_template(this.skeleton_type)
+    if (this.mirror_animations_enabled && skeleton_template !== undefined) {
+      AnimationUtility.apply_animation_mirroring(this.animation_clips_loaded, skeleton_template.mirror_naming)
     }
 
     /// Apply the arm extension warp:
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { type Bone, type BufferGeometry, CylinderGeometry, Object3D, Vector3 } from 'three'
+import { SkeletonAutoFit } from './SkeletonAutoFit'
+import { create_bone } from '../../test-helpers/TestRigs'
+
+// T-pose: hips > spine > upper arm > hand, and hips > thigh > shin. Positions are from the parent.
+// The skeleton is a bit smaller than the mesh, and off to the side
+function create_armature (): Object3D {
+  const armature = new Object3D()
+  const root: Bone = create_bone('root', armature, 0, 0)
+  const hips: Bone = create_bone('hips', root, 0.1, 0.9)
+  const spine: Bone = create_bone('spine', hips, 0, 0.7)
+  create_bone('handL', create_bone('upper_armL', spine, 0.35, 0.05), 0.35, 0)
+  create_bone('handR', create_bone('upper_armR', spine, -0.35, 0.05), -0.35, 0)
+  create_bone('shinL', create_bone('thighL', hips, 0.17, -0.05), 0, -0.45)
+  create_bone('shinR', create_bone('thighR', hips, -0.17, -0.05), 0, -0.45)
+  return armature
+}
+
+// torso from 1 to 2 high, arms out to the sides, and two legs from 0 to 1 high. The mesh is symmetric around x = 0
+function create_symmetric_mesh (): BufferGeometry[] {
+  const torso = new CylinderGeometry(0.3, 0.3, 1, 24, 50).translate(0, 1.5, 0)
+  const arms = new CylinderGeometry(0.08, 0.08, 2, 24, 100).rotateZ(Math.PI / 2).translate(0, 1.8, 0)
+  const left_leg = new CylinderGeometry(0.1, 0.1, 1, 24, 50).translate(0.2, 0.5, 0)
+  const right_leg = new CylinderGeometry(0.1, 0.1, 1, 24, 50).translate(-0.2, 0.5, 0)
+  return [torso, arms, left_leg, right_leg]
+}
+
+function world_position (armature: Object3D, bone_name: string): Vector3 {
+  const bone: Object3D | undefined = armature.getObjectByName(bone_name)
+  if (bone === undefined) {
+    throw new Error(`${bone_name} is not in the armature`)
+  }
+  return bone.getWorldPosition(new Vector3())
+}
+
+describe('SkeletonAutoFit', () => {
+  describe('fit_armature', () => {
+    it('should fit a skeleton that is off to the side into a symmetric mesh', () => {
+      const armature: Object3D = create_armature()
+      const fitted_bone_count: number = SkeletonAutoFit.fit_armature(armature, create_symmetric_mesh(), { left_suffix: 'L', right_suffix: 'R' })
+
+      expect(fitted_bone_count).toBe(10) // everything except the root
+
+      // center joints are on the symmetry plane
+      expect(world_position(armature, 'hips').x).toBeCloseTo(0, 2)
+      expect(world_position(armature, 'spine').x).toBeCloseTo(0, 2)
+
+      // hands are at the end of the arms, in the middle of the arm
+      const left_hand: Vector3 = world_position(armature, 'handL')
+      expect(left_hand.x).toBeGreaterThan(0.9)
+      expect(left_hand.y).toBeCloseTo(1.8, 1)
+      expect(left_hand.z).toBeCloseTo(0, 1)
+
+      // leg joints are in the middle of their own leg, and mirror each other
+      const left_shin: Vector3 = world_position(armature, 'shinL')
+      const right_shin: Vector3 = world_position(armature, 'shinR')
+      expect(left_shin.x).toBeCloseTo(0.2, 2)
+      expect(left_shin.z).toBeCloseTo(0, 2)
+      expect(right_shin.x).toBeCloseTo(-left_shin.x, 5)
+      expect(right_shin.y).toBeCloseTo(left_shin.y, 5)
+    })
+
+    it('should keep the joints inside the mesh height', () => {
+      const armature: Object3D = create_armature()
+      SkeletonAutoFit.fit_armature(armature, create_symmetric_mesh(), null)
+
+      armature.traverse((child: Object3D) => {
+        if (child.type !== 'Bone' || child.name === 'root') return
+        const y: number = child.getWorldPosition(new Vector3()).y
+        expect(y, child.name).toBeGreaterThan(0)
+        expect(y, child.name).toBeLessThan(2)
+      })
+    })
+
+    it('should not move any bones when there are no vertices', () => {
+      const armature: Object3D = create_armature()
+      const hips_before: Vector3 = world_position(armature, 'hips')
+
+      expect(SkeletonAutoFit.fit_armature(armature, [], null)).toBe(0)
+      expect(world_position(armature, 'hips')).toEqual(hips_before)
+    })
+  })
+})
@@ -0,0 +1,308 @@
+import { Box3, type BufferGeometry, type Object3D, Vector3 } from 'three'
+import { Utility } from '../../Utilities.ts'
+import { type MirrorNamingConvention } from '../load-skeleton/interfaces/SkeletonTemplate.ts'
+
+/**
+ * Mesh vertices bucketed in a coarse grid, so a cross-section slice only looks at the vertices near the joint
+ */
+interface VertexGrid {
+  positions: Float32Array // x, y, z for each vertex
+  box: Box3
+  cell_size: number
+  cell_counts: Vector3
+  cells: number[][] // vertex indices in each cell
+}
+
+/**
+ * SkeletonAutoFit
+ * Best guess for where the skeleton template joints go inside a mesh, so users only need to fine-tune them.
+ * 1. Find the symmetry plane of the mesh
+ * 2. Stretch the skeleton so the limb extremities (head, hands, feet, tail) line up with the mesh extremities
+ * 3. Move each joint to the middle of the mesh cross-section around it
+ * 4. Mirror the left and right joints, and put the center joints on the symmetry plane
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class SkeletonAutoFit {
+  // joints sit inside the surface, so the extremity joints are kept this far in (percent of the mesh size)
+  private static readonly extremity_margin: number = 0.03
+
+  // cross-section slices. Both are a percent of the mesh height
+  private static readonly slice_thickness: number = 0.02
+  private static readonly slice_search_radius: number = 0.15
+  private static readonly centering_iterations: number = 6
+
+  // dense meshes are sampled down to this many vertices. A best guess does not need every vertex
+  private static readonly max_fit_vertices: number = 100000
+
+  // keeps the grid small for long and flat meshes, where the slice size would make a lot of cells
+  private static readonly max_grid_cells_per_axis: number = 64
+
+  // the skeleton is already scaled to the model in the load skeleton step, so it is not stretched more than this
+  private static readonly max_stretch_ratio: number = 2.0
+
+  /**
+   * Moves the armature bones. The root bone is only for global transform changes, so it stays where it is
+   * @returns number of bones that were moved
+   */
+  public static fit_armature (armature: Object3D, geometry_list: BufferGeometry[], mirror_naming: MirrorNamingConvention | null): number {
+    const positions: Float32Array = this.collect_vertices(geometry_list)
+    if (positions.length === 0) {
+      console.warn('auto-fit skeleton: no mesh vertices to fit the skeleton to')
+      return 0
+    }
+
+    armature.updateWorldMatrix(true, true)
+    const bones: Object3D[] = []
+    armature.traverse((child: Object3D) => {
+      if (child.type === 'Bone' && child.name !== 'root') {
+        bones.push(child)
+      }
+    })
+
+    const mesh_box = new Box3()
+    const vertex = new Vector3()
+    for (let i = 0; i < positions.length; i += 3) {
+      mesh_box.expandByPoint(vertex.fromArray(positions, i))
+    }
+
+    const x_values: number[] = Array.from({ length: positions.length / 3 }, (_value: unknown, index: number) => positions[index * 3])
+    const symmetry_x: number = this.median(x_values)
+    const bone_positions: Map<string, Vector3> = this.fit_extremities(bones, mesh_box, symmetry_x)
+
+    const mesh_height: number = mesh_box.getSize(new Vector3()).y
+    this.center_in_cross_sections(bones, bone_positions, positions, mesh_box, mesh_height)
+
+    if (mirror_naming !== null) {
+      this.apply_symmetry(bone_positions, mirror_naming, symmetry_x)
+    }
+
+    return Utility.fit_armature_to_bone_positions(armature, bone_positions)
+  }
+
+  /**
+   * @returns x, y, z for each vertex of all the geometry. Every nth vertex when there are more than max_fit_vertices
+   */
+  private static collect_vertices (geometry_list: BufferGeometry[]): Float32Array {
+    const total_vertex_count: number = geometry_list.reduce((count: number, geometry: BufferGeometry) => {
+      return count + (geometry.attributes.position?.count ?? 0)
+    }, 0)
+    const stride: number = Math.max(1, Math.ceil(total_vertex_count / this.max_fit_vertices))
+
+    const sampled_vertex_count: number = geometry_list.reduce((count: number, geometry: BufferGeometry) => {
+      return count + Math.ceil((geometry.attributes.position?.count ?? 0) / stride)
+    }, 0)
+
+    const positions = new Float32Array(sampled_vertex_count * 3)
+    let position_index: number = 0
+    geometry_list.forEach((geometry: BufferGeometry) => {
+      const position_attribute = geometry.attributes.position
+      if (position_attribute === undefined) return
+
+      for (let i = 0; i < position_attribute.count; i += stride) {
+        positions[position_index++] = position_attribute.getX(i)
+        positions[position_index++] = position_attribute.getY(i)
+        positions[position_index++] = position_attribute.getZ(i)
+      }
+    })
+    return positions
+  }
+
+  /**
+   * Stretches the bone positions on each axis so the outermost joints line up with the outermost vertices
+   * @returns world position for each bone name
+   */
+  private static fit_extremities (bones: Object3D[], mesh_box: Box3, symmetry_x: number): Map<string, Vector3> {
+    const original_positions: Vector3[] = bones.map((bone: Object3D) => Utility.world_position_from_object(bone))
+    const skeleton_box: Box3 = new Box3().setFromPoints(original_positions)
+    const mesh_size: Vector3 = mesh_box.getSize(new Vector3())
+    const margin: Vector3 = mesh_size.clone().multiplyScalar(this.extremity_margin)
+
+    // widths are measured from the center, so the left and right sides stretch the same amount
+    const skeleton_center_x: number = (skeleton_box.min.x + skeleton_box.max.x) / 2
+    const skeleton_half_width: number = original_positions.reduce((half_width: number, position: Vector3) => {
+      return Math.max(half_width, Math.abs(position.x - skeleton_center_x))
+    }, 0)
+    const mesh_half_width: number = Math.max(mesh_box.max.x - symmetry_x, symmetry_x - mesh_box.min.x) - margin.x
+
+    const bone_positions = new Map<string, Vector3>()
+    bones.forEach((bone: Object3D, index: number) => {
+      const position: Vector3 = original_positions[index]
+      bone_positions.set(bone.name, new Vector3(
+        symmetry_x + (position.x - skeleton_center_x) * this.stretch_ratio(skeleton_half_width, mesh_half_width),
+        this.fit_to_range(position.y, skeleton_box.min.y, skeleton_box.max.y, mesh_box.min.y + margin.y, mesh_box.max.y - margin.y),
+        this.fit_to_range(position.z, skeleton_box.min.z, skeleton_box.max.z, mesh_box.min.z + margin.z, mesh_box.max.z - margin.z)
+      ))
+    })
+    return bone_positions
+  }
+
+  // flat skeletons (a snake has no width) keep their size on that axis
+  private static stretch_ratio (skeleton_size: number, mesh_size: number): number {
+    if (skeleton_size < 1e-4 || mesh_size <= 0) {
+      return 1.0
+    }
+    return Math.min(Math.max(mesh_size / skeleton_size, 1 / this.max_stretch_ratio), this.max_stretch_ratio)
+  }
+
+  private static fit_to_range (value: number, from_min: number, from_max: number, to_min: number, to_max: number): number {
+    const ratio: number = this.stretch_ratio(from_max - from_min, to_max - to_min)
+    const from_center: number = (from_min + from_max) / 2
+    const to_center: number = (to_min + to_max) / 2
+    return to_center + (value - from_center) * ratio
+  }
+
+  /**
+   * Moves each joint to the middle of the slice of the mesh that goes through it, across the bone direction.
+   * Parents are done first, so the bone directions of their children use the centered positions
+   */
+  private static center_in_cross_sections (bones: Object3D[], bone_positions: Map<string, Vector3>,
+    positions: Float32Array, mesh_box: Box3, mesh_height: number): void {
+    const slice_thickness: number = mesh_height * this.slice_thickness
+    const search_radius: number = mesh_height * this.slice_search_radius
+    const vertex_grid: VertexGrid = this.create_vertex_grid(positions, mesh_box, search_radius + slice_thickness)
+
+    bones.forEach((bone: Object3D) => {
+      const position: Vector3 | undefined = bone_positions.get(bone.name)
+      if (position === undefined) return
+
+      // top-level bones like the hips use the up direction, so the slice is horizontal
+      const parent_position: Vector3 | undefined = bone.parent !== null ? bone_positions.get(bone.parent.name) : undefined
+      const direction: Vector3 = parent_position !== undefined && parent_position.distanceTo(position) > 1e-5
+        ? position.clone().sub(parent_position).normalize()
+        : new Vector3(0, 1, 0)
+
+      for (let i = 0; i < this.centering_iterations; i++) {
+        const offset: Vector3 | null = this.cross_section_center_offset(position, direction, vertex_grid, slice_thickness, search_radius)
+        if (offset === null) break
+        position.add(offset)
+      }
+    })
+  }
+
+  /**
+   * Every vertex in a slice is within slice_reach of the joint, so the slice only needs the cells next to the joint cell
+   */
+  private static create_vertex_grid (positions: Float32Array, mesh_box: Box3, slice_reach: number): VertexGrid {
+    const mesh_size: Vector3 = mesh_box.getSize(new Vector3())
+    const largest_size: number = Math.max(mesh_size.x, mesh_size.y, mesh_size.z)
+    const cell_size: number = Math.max(slice_reach, largest_size / this.max_grid_cells_per_axis, 1e-6)
+    const cell_counts: Vector3 = mesh_size.divideScalar(cell_size).floor().addScalar(1)
+    const vertex_grid: VertexGrid = {
+      positions,
+      box: mesh_box,
+      cell_size,
+      cell_counts,
+      cells: Array.from({ length: cell_counts.x * cell_counts.y * cell_counts.z }, (): number[] => [])
+    }
+
+    for (let i = 0; i < positions.length / 3; i++) {
+      const cell_index: number = this.grid_cell_index(vertex_grid,
+        this.grid_cell(vertex_grid, positions[i * 3], 0),
+        this.grid_cell(vertex_grid, positions[i * 3 + 1], 1),
+        this.grid_cell(vertex_grid, positions[i * 3 + 2], 2))
+      vertex_grid.cells[cell_index].push(i)
+    }
+    return vertex_grid
+  }
+
+  // cell coordinate on one axis (0 = x, 1 = y, 2 = z). Positions outside of the mesh box use the closest cell
+  private static grid_cell (vertex_grid: VertexGrid, value: number, axis: number): number {
+    const cell: number = Math.floor((value - vertex_grid.box.min.getComponent(axis)) / vertex_grid.cell_size)
+    return Math.min(Math.max(cell, 0), vertex_grid.cell_counts.getComponent(axis) - 1)
+  }
+
+  private static grid_cell_index (vertex_grid: VertexGrid, cell_x: number, cell_y: number, cell_z: number): number {
+    return cell_x + vertex_grid.cell_counts.x * (cell_y + vertex_grid.cell_counts.y * cell_z)
+  }
+
+  /**
+   * @returns indices of the vertices in the cells around the position
+   */
+  private static nearby_vertex_indices (vertex_grid: VertexGrid, position: Vector3): number[] {
+    const center_x: number = this.grid_cell(vertex_grid, position.x, 0)
+    const center_y: number = this.grid_cell(vertex_grid, position.y, 1)
+    const center_z: number = this.grid_cell(vertex_grid, position.z, 2)
+
+    const vertex_indices: number[] = []
+    for (let z = Math.max(center_z - 1, 0); z <= Math.min(center_z + 1, vertex_grid.cell_counts.z - 1); z++) {
+      for (let y = Math.max(center_y - 1, 0); y <= Math.min(center_y + 1, vertex_grid.cell_counts.y - 1); y++) {
+        for (let x = Math.max(center_x - 1, 0); x <= Math.min(center_x + 1, vertex_grid.cell_counts.x - 1); x++) {
+          vertex_grid.cells[this.grid_cell_index(vertex_grid, x, y, z)].forEach((vertex_index: number) => vertex_indices.push(vertex_index))
+        }
+      }
+    }
+    return vertex_indices
+  }
+
+  /**
+   * Only uses the part of the slice closest to the joint, so a leg slice does not include the other leg
+   * @returns how far the joint is from the middle of the slice, across the bone direction. Null if the slice is empty
+   */
+  private static cross_section_center_offset (position: Vector3, direction: Vector3, vertex_grid: VertexGrid,
+    slice_thickness: number, search_radius: number): Vector3 | null {
+    const positions: Float32Array = vertex_grid.positions
+    const offset = new Vector3()
+
+    // radial offsets are measured again in the second pass, instead of keeping a vector for each vertex
+    const radial_offset = (vertex_index: number): number | null => {
+      offset.fromArray(positions, vertex_index * 3).sub(position)
+      const distance_along_bone: number = offset.dot(direction)
+      if (Math.abs(distance_along_bone) > slice_thickness) return null
+
+      offset.addScaledVector(direction, -distance_along_bone)
+      return offset.length()
+    }
+
+    const slice_vertex_indices: number[] = this.nearby_vertex_indices(vertex_grid, position)
+    const closest_distance: number = slice_vertex_indices.reduce((closest: number, vertex_index: number) => {
+      const distance: number | null = radial_offset(vertex_index)
+      return distance !== null && distance <= search_radius ? Math.min(closest, distance) : closest
+    }, Infinity)
+
+    if (closest_distance === Infinity) {
+      return null
+    }
+
+    const cluster_radius: number = Math.max(closest_distance * 3, slice_thickness)
+    const center = new Vector3()
+    let cluster_size: number = 0
+    slice_vertex_indices.forEach((vertex_index: number) => {
+      const distance: number | null = radial_offset(vertex_index)
+      if (distance !== null && distance <= Math.min(cluster_radius, search_radius)) {
+        center.add(offset)
+        cluster_size++
+      }
+    })
+    return center.divideScalar(cluster_size)
+  }
+
+  /**
+   * Left and right joints end up at the average of the two sides, and center joints on the symmetry plane
+   */
+  private static apply_symmetry (bone_positions: Map<string, Vector3>, mirror_naming: MirrorNamingConvention, symmetry_x: number): void {
+    bone_positions.forEach((position: Vector3, bone_name: string) => {
+      const mirror_bone_name: string | null = Utility.mirror_bone_name(bone_name, mirror_naming)
+      if (mirror_bone_name === null) {
+        position.x = symmetry_x
+        return
+      }
+
+      // each pair only needs to be done once
+      const mirror_position: Vector3 | undefined = bone_positions.get(mirror_bone_name)
+      if (mirror_position === undefined || !bone_name.endsWith(mirror_naming.left_suffix)) return
+
+      const average_position = new Vector3(
+        (position.x + (2 * symmetry_x - mirror_position.x)) / 2,
+        (position.y + mirror_position.y) / 2,
+        (position.z + mirror_position.z) / 2
+      )
+      position.copy(average_position)
+      mirror_position.set(2 * symmetry_x - average_position.x, average_position.y, average_position.z)
+    })
+  }
+
+  private static median (values: number[]): number {
+    const sorted_values: number[] = [...values].sort((a: number, b: number) => a - b)
+    return sorted_values[Math.floor(sorted_values.length / 2)]
+  }
+}
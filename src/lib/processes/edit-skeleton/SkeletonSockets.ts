@@ -0,0 +1,31 @@
+import { Object3D } from 'three'
+
+/**
+ * Sockets are empty nodes parented to bones, so games can attach props and weapons to them (right hand weapon, back sheath, etc.).
+ * They are not bones, so the solvers and animations skip them, but they are exported as nodes with the skeleton.
+ * The userData flag is exported as glTF extras, so game engines can find them
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class SkeletonSockets {
+  public static create_socket (bone: Object3D, socket_name: string): Object3D {
+    const socket = new Object3D()
+    socket.name = socket_name
+    socket.userData.socket = true
+    bone.add(socket)
+    return socket
+  }
+
+  public static is_socket (object: Object3D): boolean {
+    return object.userData.socket === true
+  }
+
+  public static find_sockets (armature: Object3D): Object3D[] {
+    const sockets: Object3D[] = []
+    armature.traverse((child: Object3D) => {
+      if (this.is_socket(child)) {
+        sockets.push(child)
+      }
+    })
+    return sockets
+  }
+}
@@ -0,0 +1,19 @@
+import { Group, type Object3D } from 'three'
+
+/**
+ * Group that copies the world transform of a socket every frame. Used to show the socket axes and prop previews
+ * without adding them to the skeleton, since everything under the skeleton is exported.
+ * Add it to the scene directly, since the socket world transform is used as its local transform
+ */
+export class SocketFollower extends Group {
+  constructor (private readonly socket: Object3D) {
+    super()
+    this.matrixAutoUpdate = false
+  }
+
+  public updateMatrixWorld (force?: boolean): void {
+    this.socket.updateWorldMatrix(true, false)
+    this.matrix.copy(this.socket.matrixWorld)
+    super.updateMatrixWorld(true)
+  }
+}
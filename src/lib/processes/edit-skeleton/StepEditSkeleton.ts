@@ -3,13 +3,19 @@ import { Generators } from '../../Generators.ts'
 import { Utility } from '../../Utilities.ts'
 import { UndoRedoSystem } from './UndoRedoSystem.ts'
 import { PreviewPlaneManager } from './PreviewPlaneManager.ts'
+import { SkeletonAutoFit } from './SkeletonAutoFit.ts'
+import { ModalDialog } from '../../ModalDialog.ts'
+import { SkeletonSockets } from './SkeletonSockets.ts'
+import { SocketFollower } from './SocketFollower.ts'
 import {
   Vector3,
   Euler,
   Object3D,
   Skeleton,
   type Scene,
-  type Bone,
+  Bone,
+  PropertyBinding,
+  AxesHelper,
   BufferGeometry,
   PointsMaterial,
   Points,
@@ -18,7 +24,8 @@ import {
   type Camera
 } from 'three'
 import { SkinningFormula } from '../../enums/SkinningFormula.ts'
-import { SkeletonType } from '../../enums/SkeletonType.ts'
+import { SkeletonTemplateRegistry } from '../load-skeleton/SkeletonTemplateRegistry.ts'
+import { type MirrorNamingConvention, type SkeletonTemplate } from '../load-skeleton/interfaces/SkeletonTemplate.ts'
 
 /*
  * StepEditSkeleton
@@ -38,14 +45,26 @@ export class StepEditSkeleton extends EventTarget {
   // Skeleton created from the armature that Three.js uses
   private threejs_skeleton: Skeleton = new Skeleton()
   private mirror_mode_enabled: boolean = true
+  private mirror_naming: MirrorNamingConvention | null = null // from the skeleton template
   private skinning_algorithm: string | null = null
   private show_debug: boolean = true
 
   private currently_selected_bone: Bone | null = null
 
+  // animations use the skeleton template bone names, so only bones added in this step can be renamed
+  private template_bone_names: Set<string> = new Set<string>()
+
+  // the transform controls move the selected socket instead of the selected bone
+  private currently_selected_socket: Object3D | null = null
+  private socket_helpers: SocketFollower[] = []
+  private readonly socket_helper_size: number = 0.1
+
   private joint_hover_point: Object3D | null = null
   private _main_scene_ref: Scene | null = null
 
+  // models uploaded with a rig keep their skin weights instead of using the solver
+  private transfer_existing_weights: boolean = true
+
   // Preview plane state
   private enable_head_weight_correction: boolean = false
   private head_weight_correction_height: number = 1.4 // default
@@ -75,6 +94,7 @@ export class StepEditSkeleton extends EventTarget {
   public undo_bone_transformation (): boolean {
     const result = this.undo_redo_system.undo()
     if (result) {
+      this.sync_skeleton_from_undo_system()
       // Update skeleton helper and any UI elements that depend on bone positions
       this.dispatchEvent(new CustomEvent('skeletonTransformed'))
       console.log('Undo successful')
@@ -88,6 +108,7 @@ export class StepEditSkeleton extends EventTarget {
   public redo_bone_transformation (): boolean {
     const result = this.undo_redo_system.redo()
     if (result) {
+      this.sync_skeleton_from_undo_system()
       // Update skeleton helper and any UI elements that depend on bone positions
       this.dispatchEvent(new CustomEvent('skeletonTransformed'))
       console.log('Redo successful')
@@ -97,11 +118,312 @@ export class StepEditSkeleton extends EventTarget {
     return result
   }
 
-  private update_ui_options_on_begin (skeleton_type: SkeletonType): void {
+  /**
+   * Moves the joints to a best guess inside the mesh. Can be undone, and users fine-tune the joints afterwards
+   */
+  public auto_fit_skeleton (geometry_list: BufferGeometry[]): void {
+    this.store_bone_state_for_undo()
+
+    const fitted_bone_count: number = SkeletonAutoFit.fit_armature(this.edited_armature, geometry_list, this.mirror_naming)
+    console.log(`Auto-fit ${fitted_bone_count} bones to the mesh`)
+
+    this.dispatchEvent(new CustomEvent('skeletonTransformed'))
+  }
+
+  /**
+   * Adds a bone under the selected bone, half a bone length further along the same direction
+   * @returns the new bone, which is now the selected bone
+   */
+  public add_child_bone (): Bone | null {
+    const parent_bone: Bone | null = this.currently_selected_bone
+    if (parent_bone === null) {
+      return null
+    }
+
+    this.store_bone_state_for_undo()
+
+    const parent_position: Vector3 = Utility.world_position_from_object(parent_bone)
+    const grandparent_position: Vector3 = parent_bone.parent !== null
+      ? Utility.world_position_from_object(parent_bone.parent)
+      : parent_position.clone()
+    const offset: Vector3 = parent_position.clone().sub(grandparent_position).multiplyScalar(0.5)
+    if (offset.lengthSq() < 1e-8) {
+      offset.set(0, 0.1, 0) // bones at the same spot as their parent have no direction
+    }
+
+    const child_bone = new Bone()
+    child_bone.name = this.unique_bone_name(`${parent_bone.name}_child`)
+    parent_bone.add(child_bone)
+    child_bone.position.copy(parent_bone.worldToLocal(parent_position.add(offset)))
+
+    this.currently_selected_bone = child_bone
+    this.bone_hierarchy_changed()
+    return child_bone
+  }
+
+  /**
+   * Only bones without child bones can be deleted, so whole chains are not removed by accident
+   */
+  public delete_selected_bone (): void {
+    const bone: Bone | null = this.currently_selected_bone
+    if (bone === null || !this.can_delete_bone(bone)) {
+      return
+    }
+
+    this.store_bone_state_for_undo()
+    bone.removeFromParent()
+    this.currently_selected_bone = null
+    this.bone_hierarchy_changed()
+  }
+
+  /**
+   * The bone keeps its world position and rotation under the new parent
+   */
+  public reparent_selected_bone (parent_bone_name: string): void {
+    const bone: Bone | null = this.currently_selected_bone
+    const new_parent: Bone | undefined = this.threejs_skeleton.bones.find((skeleton_bone: Bone) => skeleton_bone.name === parent_bone_name)
+    if (bone === null || new_parent === undefined || bone.parent === new_parent) {
+      return
+    }
+
+    if (this.is_bone_in_hierarchy(new_parent, bone)) {
+      new ModalDialog('Could not change parent', `${Utility.escape_html(new_parent.name)} is a child of ${Utility.escape_html(bone.name)}, so it cannot be the parent.`).show()
+      return
+    }
+
+    this.store_bone_state_for_undo()
+    new_parent.attach(bone)
+    this.bone_hierarchy_changed()
+  }
+
+  public rename_selected_bone (new_name: string): void {
+    const bone: Bone | null = this.currently_selected_bone
+    if (bone === null || this.template_bone_names.has(bone.name)) {
+      return
+    }
+
+    // same name clean up three.js does when loading files, so the name stays the same after exporting
+    const bone_name: string = PropertyBinding.sanitizeNodeName(new_name.trim())
+    if (bone_name === '' || bone_name === bone.name) {
+      return
+    }
+
+    if (this.is_name_in_use(bone_name)) {
+      new ModalDialog('Could not rename bone', `There is already a bone or socket named ${Utility.escape_html(bone_name)}. Names need to be unique.`).show()
+      return
+    }
+
+    this.store_bone_state_for_undo()
+    bone.name = bone_name
+    this.bone_hierarchy_changed()
+  }
+
+  private can_delete_bone (bone: Bone): boolean {
+    return bone.parent instanceof Bone && !bone.children.some((child: Object3D) => child instanceof Bone)
+  }
+
+  // true if the bone is the parent bone or one of its children
+  private is_bone_in_hierarchy (bone: Object3D, parent_bone: Object3D): boolean {
+    let is_in_hierarchy: boolean = false
+    parent_bone.traverse((child: Object3D) => {
+      if (child === bone) is_in_hierarchy = true
+    })
+    return is_in_hierarchy
+  }
+
+  private unique_bone_name (base_name: string): string {
+    let bone_name: string = base_name
+    for (let i = 1; this.is_name_in_use(bone_name); i++) {
+      bone_name = `${base_name}${i}`
+    }
+    return bone_name
+  }
+
+  // bones and sockets are both nodes in the exported file, so they share names
+  private is_name_in_use (name: string): boolean {
+    return this.template_bone_names.has(name) ||
+      this.threejs_skeleton.bones.some((bone: Bone) => bone.name === name) ||
+      this.sockets().some((socket: Object3D) => socket.name === name)
+  }
+
+  /**
+   * Adds a socket to the selected bone. It starts at the bone joint, so it is moved with the transform controls after
+   * @returns the new socket, which is now the selected socket
+   */
+  public add_socket (socket_name: string): Object3D | null {
+    const bone: Bone | null = this.currently_selected_bone
+    if (bone === null) {
+      return null
+    }
+
+    const name: string = PropertyBinding.sanitizeNodeName(socket_name.trim())
+    if (name === '') {
+      new ModalDialog('Could not add socket', 'Enter a name for the socket.').show()
+      return null
+    }
+
+    if (this.is_name_in_use(name)) {
+      new ModalDialog('Could not add socket', `There is already a bone or socket named ${Utility.escape_html(name)}. Names need to be unique.`).show()
+      return null
+    }
+
+    this.currently_selected_socket = SkeletonSockets.create_socket(bone, name)
+    this.sockets_changed()
+    return this.currently_selected_socket
+  }
+
+  public delete_selected_socket (): void {
+    if (this.currently_selected_socket === null) {
+      return
+    }
+
+    this.currently_selected_socket.removeFromParent()
+    this.currently_selected_socket = null
+    this.sockets_changed()
+  }
+
+  /**
+   * @param socket_name empty to go back to moving the selected bone
+   */
+  public select_socket (socket_name: string): void {
+    this.currently_selected_socket = this.sockets().find((socket: Object3D) => socket.name === socket_name) ?? null
+    this.sockets_changed()
+  }
+
+  public sockets (): Object3D[] {
+    return SkeletonSockets.find_sockets(this.edited_armature)
+  }
+
+  /**
+   * What the transform controls should be attached to
+   */
+  public transform_target (): Object3D | null {
+    return this.currently_selected_socket ?? this.currently_selected_bone
+  }
+
+  private sockets_changed (): void {
+    this.refresh_socket_helpers()
+    this.update_socket_ui()
+    this.dispatchEvent(new CustomEvent('socketsChanged'))
+  }
+
+  // axes show where each socket is and which way it points
+  private refresh_socket_helpers (): void {
+    this.remove_socket_helpers()
+    if (this._main_scene_ref === null) {
+      return
+    }
+
+    this.sockets().forEach((socket: Object3D) => {
+      const socket_helper = new SocketFollower(socket)
+      socket_helper.name = `Socket Helper: ${socket.name}`
+      socket_helper.add(new AxesHelper(this.socket_helper_size))
+      this._main_scene_ref?.add(socket_helper)
+      this.socket_helpers.push(socket_helper)
+    })
+  }
+
+  private remove_socket_helpers (): void {
+    this.socket_helpers.forEach((socket_helper: SocketFollower) => socket_helper.removeFromParent())
+    this.socket_helpers = []
+  }
+
+  private update_socket_ui (): void {
+    const sockets: Object3D[] = this.sockets()
+
+    // undoing bone changes can remove the bone a socket was on
+    if (this.currently_selected_socket !== null && !sockets.includes(this.currently_selected_socket)) {
+      this.currently_selected_socket = null
+    }
+
+    if (this.ui.dom_add_socket_button !== null) {
+      this.ui.dom_add_socket_button.disabled = this.currently_selected_bone === null
+    }
+    if (this.ui.dom_delete_socket_button !== null) {
+      this.ui.dom_delete_socket_button.disabled = this.currently_selected_socket === null
+    }
+
+    const socket_selection: HTMLSelectElement | null = this.ui.dom_socket_selection
+    if (socket_selection === null) {
+      return
+    }
+    socket_selection.replaceChildren(new Option('No socket selected', ''))
+    sockets.forEach((socket: Object3D) => {
+      socket_selection.add(new Option(`${socket.name} (${socket.parent?.name ?? ''})`, socket.name))
+    })
+    socket_selection.value = this.currently_selected_socket?.name ?? ''
+  }
+
+  // the skeleton bone list does not change when bones are added or removed, so the skeleton is created again
+  private bone_hierarchy_changed (): void {
+    this.create_threejs_skeleton_object()
+    this.undo_redo_system.update_skeleton(this.threejs_skeleton)
+    this.update_bone_hierarchy_ui()
+    this.refresh_socket_helpers()
+    this.update_socket_ui()
+    this.dispatchEvent(new CustomEvent('skeletonTransformed'))
+  }
+
+  // undo/redo creates a new skeleton when it changes the bone hierarchy
+  private sync_skeleton_from_undo_system (): void {
+    const skeleton: Skeleton | null = this.undo_redo_system.skeleton()
+    if (skeleton !== null) {
+      this.threejs_skeleton = skeleton
+    }
+
+    if (this.currently_selected_bone !== null && !this.threejs_skeleton.bones.includes(this.currently_selected_bone)) {
+      this.currently_selected_bone = null
+    }
+    this.update_bone_hierarchy_ui()
+    this.refresh_socket_helpers()
+    this.update_socket_ui()
+  }
+
+  private update_bone_hierarchy_ui (): void {
+    const bone: Bone | null = this.currently_selected_bone
+    const is_added_bone: boolean = bone !== null && !this.template_bone_names.has(bone.name)
+
+    if (this.ui.dom_selected_bone_label !== null) {
+      this.ui.dom_selected_bone_label.textContent = bone?.name ?? 'None'
+    }
+    if (this.ui.dom_add_child_bone_button !== null) {
+      this.ui.dom_add_child_bone_button.disabled = bone === null
+    }
+    if (this.ui.dom_delete_bone_button !== null) {
+      this.ui.dom_delete_bone_button.disabled = bone === null || !this.can_delete_bone(bone)
+    }
+    if (this.ui.dom_bone_name_input !== null) {
+      this.ui.dom_bone_name_input.value = bone?.name ?? ''
+      this.ui.dom_bone_name_input.disabled = !is_added_bone
+    }
+    if (this.ui.dom_rename_bone_button !== null) {
+      this.ui.dom_rename_bone_button.disabled = !is_added_bone
+    }
+
+    // a bone cannot be parented to itself or one of its children
+    const parent_selection: HTMLSelectElement | null = this.ui.dom_bone_parent_selection
+    if (parent_selection === null) {
+      return
+    }
+    parent_selection.replaceChildren()
+    parent_selection.disabled = bone === null || !(bone.parent instanceof Bone)
+    if (bone === null || !(bone.parent instanceof Bone)) {
+      return
+    }
+
+    this.threejs_skeleton.bones.forEach((skeleton_bone: Bone) => {
+      if (!this.is_bone_in_hierarchy(skeleton_bone, bone)) {
+        parent_selection.add(new Option(skeleton_bone.name, skeleton_bone.name))
+      }
+    })
+    parent_selection.value = bone.parent.name
+  }
+
+  private update_ui_options_on_begin (skeleton_template: SkeletonTemplate | undefined): void {
     // keep track of skeleton type to show/hide certain UI elements
-    // only human skeletons have the head weight correction option
+    // only some skeleton templates (human) have the head weight correction option
     if (this.ui.dom_use_head_weight_correction_container != null) {
-      if (skeleton_type === SkeletonType.Human) {
+      if (skeleton_template?.features.head_weight_correction === true) {
         this.ui.dom_use_head_weight_correction_container.style.display = 'block'
       } else {
         this.ui.dom_use_head_weight_correction_container.style.display = 'none'
@@ -113,8 +435,10 @@ export class StepEditSkeleton extends EventTarget {
     this.show_preview_plane_options()
   }
 
-  public begin (main_scene: Scene, skeleton_type: SkeletonType): void {
-    this.update_ui_options_on_begin(skeleton_type)
+  public begin (main_scene: Scene, skeleton_type: string): void {
+    const skeleton_template: SkeletonTemplate | undefined = SkeletonTemplateRegistry.get_template(skeleton_type)
+    this.mirror_naming = skeleton_template?.mirror_naming ?? null
+    this.update_ui_options_on_begin(skeleton_template)
 
     // show UI elemnents for editing mesh
     if (this.ui.dom_current_step_index != null) {
@@ -154,6 +478,8 @@ export class StepEditSkeleton extends EventTarget {
     )
 
     this.initialize_preview_plane(main_scene)
+    this.refresh_socket_helpers()
+    this.update_socket_ui()
   }
 
   private initialize_preview_plane (main_scene: Scene): void {
@@ -195,8 +521,11 @@ export class StepEditSkeleton extends EventTarget {
    * @description This is the bone that is currently selected in the UI while editing
    * the skeleton.
    */
-  public set_currently_selected_bone (bone: Bone): void {
+  public set_currently_selected_bone (bone: Bone | null): void {
     this.currently_selected_bone = bone
+    this.currently_selected_socket = null
+    this.update_bone_hierarchy_ui()
+    this.update_socket_ui()
   }
 
   public get_currently_selected_bone (): Bone | null {
@@ -225,6 +554,10 @@ export class StepEditSkeleton extends EventTarget {
     this.preview_plane_manager.update_height(this.head_weight_correction_height)
   }
 
+  public use_existing_weight_transfer (): boolean {
+    return this.transfer_existing_weights
+  }
+
   /**
    * Get the current visibility state of the preview plane
    */
@@ -288,6 +621,46 @@ export class StepEditSkeleton extends EventTarget {
       this.update_undo_redo_button_states(event.detail.canUndo, event.detail.canRedo)
     })
 
+    // bone hierarchy changes for the selected bone
+    this.ui.dom_add_child_bone_button?.addEventListener('click', () => {
+      this.add_child_bone()
+    })
+
+    this.ui.dom_delete_bone_button?.addEventListener('click', () => {
+      this.delete_selected_bone()
+    })
+
+    this.ui.dom_bone_parent_selection?.addEventListener('change', (event) => {
+      this.reparent_selected_bone((event.target as HTMLSelectElement).value)
+    })
+
+    this.ui.dom_rename_bone_button?.addEventListener('click', () => {
+      this.rename_selected_bone(this.ui.dom_bone_name_input?.value ?? '')
+    })
+
+    // sockets for props and weapons
+    this.ui.dom_add_socket_button?.addEventListener('click', () => {
+      this.add_socket(this.ui.dom_socket_name_input?.value ?? '')
+    })
+
+    this.ui.dom_delete_socket_button?.addEventListener('click', () => {
+      this.delete_selected_socket()
+    })
+
+    this.ui.dom_socket_selection?.addEventListener('change', (event) => {
+      this.select_socket((event.target as HTMLSelectElement).value)
+    })
+
+    this.ui.dom_bone_name_input?.addEventListener('keydown', (event: KeyboardEvent) => {
+      if (event.key === 'Enter') {
+        this.rename_selected_bone(this.ui.dom_bone_name_input?.value ?? '')
+      }
+    })
+
+    this.ui.dom_transfer_existing_weights_checkbox?.addEventListener('change', (event) => {
+      this.transfer_existing_weights = (event.target as HTMLInputElement).checked
+    })
+
     // Add preview plane event listeners
     this.ui.dom_preview_plane_checkbox?.addEventListener('change', (event) => {
       const target = event.target as HTMLInputElement
@@ -388,6 +761,7 @@ export class StepEditSkeleton extends EventTarget {
     this.remove_event_listeners()
     this.clear_hover_point_if_exists()
     this.remove_preview_plane()
+    this.remove_socket_helpers()
   }
 
   /**
@@ -404,6 +778,7 @@ export class StepEditSkeleton extends EventTarget {
     this.edited_armature = armature.clone()
 
     this.create_threejs_skeleton_object()
+    this.template_bone_names = new Set<string>(this.threejs_skeleton.bones.map((bone: Bone) => bone.name))
 
     // Initialize the undo/redo system with the skeleton
     this.undo_redo_system.set_skeleton(this.threejs_skeleton)
@@ -433,21 +808,12 @@ export class StepEditSkeleton extends EventTarget {
     // if we are on the positive side mirror mode is enabled
     // we need to change the position of the bone on the other side of the mirror
 
-    // first step is to find the base bone name
-    // strip out the left/right and _L/_R from the name
-    // mixamo is a common skeleton that prefixes everything with mixamorig_, so remove that
-    const base_bone_name = Utility.calculate_bone_base_name(selected_bone.name)
-
-    // Find another bone that has the same base name
-    // that should be the mirror
-    let mirror_bone: Bone | undefined
-
-    this.threejs_skeleton.bones.forEach((bone) => {
-      const bone_name_to_compare = Utility.calculate_bone_base_name(bone.name)
-      if (bone_name_to_compare === base_bone_name && bone.name !== selected_bone.name) {
-        mirror_bone = bone
-      }
-    })
+    // the skeleton template says how left and right bones are named
+    // swap the side suffix to find the bone on the other side
+    const mirror_bone_name: string | null = this.mirror_naming !== null
+      ? Utility.mirror_bone_name(selected_bone.name, this.mirror_naming)
+      : null
+    const mirror_bone: Bone | undefined = this.threejs_skeleton.bones.find((bone) => bone.name === mirror_bone_name)
 
     if (mirror_bone === undefined) {
       return // we probably something along the axis (head, neck, spine)
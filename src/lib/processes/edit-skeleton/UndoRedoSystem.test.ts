@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { type Bone, Object3D, type Skeleton } from 'three'
+import { UndoRedoSystem } from './UndoRedoSystem'
+import { SkeletonSockets } from './SkeletonSockets'
+import { Generators } from '../../Generators'
+import { create_bone } from '../../test-helpers/TestRigs'
+
+function current_skeleton (undo_redo_system: UndoRedoSystem): Skeleton {
+  const skeleton: Skeleton | null = undo_redo_system.skeleton()
+  if (skeleton === null) {
+    throw new Error('undo/redo system has no skeleton')
+  }
+  return skeleton
+}
+
+function bone_names (undo_redo_system: UndoRedoSystem): string[] {
+  return current_skeleton(undo_redo_system).bones.map((bone: Bone) => bone.name)
+}
+
+describe('UndoRedoSystem', () => {
+  let hips: Bone
+  let spine: Bone
+  let head: Bone
+  let hand: Bone
+  let undo_redo_system: UndoRedoSystem
+
+  // hips > spine > head, and spine > hand. Same edits the edit skeleton step makes, with the state stored first
+  beforeEach(() => {
+    hips = create_bone('hips', new Object3D(), 0, 1)
+    spine = create_bone('spine', hips, 0, 1)
+    head = create_bone('head', spine, 0, 1)
+    hand = create_bone('hand', spine, 0, 0.5)
+
+    undo_redo_system = new UndoRedoSystem()
+    undo_redo_system.set_skeleton(Generators.create_skeleton(hips))
+  })
+
+  it('should undo and redo a bone transform', () => {
+    undo_redo_system.store_current_state()
+    head.position.set(0, 2, 0)
+
+    expect(undo_redo_system.undo()).toBe(true)
+    expect(head.position.y).toBe(1)
+
+    expect(undo_redo_system.redo()).toBe(true)
+    expect(head.position.y).toBe(2)
+  })
+
+  it('should remove an added bone on undo, and put the same bone back on redo', () => {
+    undo_redo_system.store_current_state()
+    const added_bone: Bone = create_bone('head_child', head, 0, 0.5)
+    undo_redo_system.update_skeleton(Generators.create_skeleton(hips))
+
+    undo_redo_system.undo()
+    expect(bone_names(undo_redo_system)).toEqual(['hips', 'spine', 'head', 'hand'])
+    expect(added_bone.parent).toBeNull()
+
+    undo_redo_system.redo()
+    expect(current_skeleton(undo_redo_system).bones).toContain(added_bone)
+    expect(added_bone.parent).toBe(head)
+  })
+
+  it('should put a deleted bone back as the same object with its sockets', () => {
+    const socket: Object3D = SkeletonSockets.create_socket(hand, 'weapon')
+    undo_redo_system.store_current_state()
+    hand.removeFromParent()
+    undo_redo_system.update_skeleton(Generators.create_skeleton(hips))
+
+    undo_redo_system.undo()
+    expect(current_skeleton(undo_redo_system).bones).toContain(hand)
+    expect(hand.parent).toBe(spine)
+    expect(socket.parent).toBe(hand)
+    expect(hand.position.y).toBe(0.5)
+
+    undo_redo_system.redo()
+    expect(current_skeleton(undo_redo_system).bones).not.toContain(hand)
+    expect(hand.parent).toBeNull()
+  })
+
+  it('should move a re-parented bone back to its parent and local position', () => {
+    undo_redo_system.store_current_state()
+    hips.updateWorldMatrix(true, true)
+    hips.attach(hand)
+    expect(hand.position.y).toBe(1.5) // attach() keeps the world position
+    undo_redo_system.update_skeleton(Generators.create_skeleton(hips))
+
+    undo_redo_system.undo()
+    expect(hand.parent).toBe(spine)
+    expect(hand.position.y).toBe(0.5)
+
+    undo_redo_system.redo()
+    expect(hand.parent).toBe(hips)
+    expect(hand.position.y).toBe(1.5)
+  })
+
+  it('should rename the same bone on undo, and keep its sockets and other children', () => {
+    const socket: Object3D = SkeletonSockets.create_socket(hand, 'weapon')
+    const other_child = new Object3D()
+    hand.add(other_child)
+
+    undo_redo_system.store_current_state()
+    hand.name = 'left_hand'
+
+    undo_redo_system.undo()
+    expect(current_skeleton(undo_redo_system).bones).toContain(hand)
+    expect(hand.name).toBe('hand')
+    expect(hand.children).toEqual([socket, other_child])
+
+    undo_redo_system.redo()
+    expect(hand.name).toBe('left_hand')
+    expect(hand.children).toEqual([socket, other_child])
+  })
+
+  it('should not keep deleted bones after the history is cleared', () => {
+    undo_redo_system.store_current_state()
+    hand.removeFromParent()
+    undo_redo_system.update_skeleton(Generators.create_skeleton(hips))
+    undo_redo_system.clear_history()
+
+    expect(undo_redo_system.undo()).toBe(false)
+    expect(bone_names(undo_redo_system)).toEqual(['hips', 'spine', 'head'])
+  })
+})
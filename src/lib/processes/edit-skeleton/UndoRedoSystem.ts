@@ -1,11 +1,14 @@
 import { type Skeleton, type Bone } from 'three'
 import { Utility } from '../../Utilities.ts'
+import { Generators } from '../../Generators.ts'
 import type BoneTransformState from '../../interfaces/BoneTransformState.ts'
 
 /**
  * UndoRedoSystem
  * Manages undo/redo functionality for skeleton bone transformations
  * Stores states and allows reverting to previous states
+ * States also keep the bone hierarchy, so adding, deleting, re-parenting and renaming bones can be undone.
+ * That creates a new skeleton, so get it again with skeleton() after undo/redo
  */
 export class UndoRedoSystem extends EventTarget {
   private undo_stack: BoneTransformState[][] = []
@@ -13,6 +16,9 @@ export class UndoRedoSystem extends EventTarget {
   private readonly max_history_size: number = 50
   private skeleton_ref: Skeleton | null = null
 
+  // every bone that has been in a stored state by uuid, so deleted bones can be put back as the same object
+  private stored_bones = new Map<string, Bone>()
+
   constructor (max_history_size: number = 50) {
     super()
     this.max_history_size = max_history_size
@@ -26,6 +32,18 @@ export class UndoRedoSystem extends EventTarget {
     this.clear_history()
   }
 
+  /**
+   * Use a new skeleton for the same armature without clearing the history
+   * This is needed after bones are added or removed, since the skeleton bone list does not change
+   */
+  public update_skeleton (skeleton: Skeleton): void {
+    this.skeleton_ref = skeleton
+  }
+
+  public skeleton (): Skeleton | null {
+    return this.skeleton_ref
+  }
+
   /**
    * Store the current state of all bones in the skeleton
    * This should be called before making any changes to bones
@@ -36,7 +54,7 @@ export class UndoRedoSystem extends EventTarget {
       return
     }
 
-    const current_state = Utility.store_bone_transforms(this.skeleton_ref)
+    const current_state = this.store_bone_transforms(this.skeleton_ref)
     this.undo_stack.push(current_state)
 
     // If the stack exceeds the maximum size, remove the oldest state
@@ -67,7 +85,7 @@ export class UndoRedoSystem extends EventTarget {
     }
 
     // Store current state in redo stack before undoing
-    const current_state = Utility.store_bone_transforms(this.skeleton_ref)
+    const current_state = this.store_bone_transforms(this.skeleton_ref)
     this.redo_stack.push(current_state)
 
     // Get and apply the previous state
@@ -76,12 +94,7 @@ export class UndoRedoSystem extends EventTarget {
       console.warn('Failed to get previous state from undo stack')
       return false
     }
-    Utility.restore_bone_transforms(this.skeleton_ref, previous_state)
-
-    // Update world matrices for all bones
-    this.skeleton_ref.bones.forEach((bone: Bone) => {
-      bone.updateWorldMatrix(true, true)
-    })
+    this.apply_state(previous_state)
 
     this.dispatch_state_changed_event()
     return true
@@ -103,7 +116,7 @@ export class UndoRedoSystem extends EventTarget {
     }
 
     // Store current state in undo stack before redoing
-    const current_state = Utility.store_bone_transforms(this.skeleton_ref)
+    const current_state = this.store_bone_transforms(this.skeleton_ref)
     this.undo_stack.push(current_state)
 
     // Get and apply the next state
@@ -112,12 +125,7 @@ export class UndoRedoSystem extends EventTarget {
       console.warn('Failed to get next state from redo stack')
       return false
     }
-    Utility.restore_bone_transforms(this.skeleton_ref, next_state)
-
-    // Update world matrices for all bones
-    this.skeleton_ref.bones.forEach((bone: Bone) => {
-      bone.updateWorldMatrix(true, true)
-    })
+    this.apply_state(next_state)
 
     this.dispatch_state_changed_event()
     return true
@@ -157,6 +165,7 @@ export class UndoRedoSystem extends EventTarget {
   public clear_history (): void {
     this.undo_stack = []
     this.redo_stack = []
+    this.stored_bones = new Map<string, Bone>()
     this.dispatch_state_changed_event()
   }
 
@@ -168,7 +177,7 @@ export class UndoRedoSystem extends EventTarget {
     if (this.skeleton_ref === null) {
       return null
     }
-    return Utility.store_bone_transforms(this.skeleton_ref)
+    return this.store_bone_transforms(this.skeleton_ref)
   }
 
   /**
@@ -185,14 +194,33 @@ export class UndoRedoSystem extends EventTarget {
     this.store_current_state()
 
     // Apply the snapshot
-    Utility.restore_bone_transforms(this.skeleton_ref, state_snapshot)
+    this.apply_state(state_snapshot)
+
+    this.dispatch_state_changed_event()
+  }
+
+  private apply_state (state: BoneTransformState[]): void {
+    if (this.skeleton_ref === null) {
+      return
+    }
+
+    // bones were added, deleted or re-parented since the state was stored
+    if (!Utility.has_same_bone_hierarchy(this.skeleton_ref, state)) {
+      Utility.restore_bone_hierarchy(this.skeleton_ref, state, this.stored_bones)
+      this.skeleton_ref = Generators.create_skeleton(this.skeleton_ref.bones[0])
+    }
+
+    Utility.restore_bone_transforms(this.skeleton_ref, state)
 
     // Update world matrices for all bones
     this.skeleton_ref.bones.forEach((bone: Bone) => {
       bone.updateWorldMatrix(true, true)
     })
+  }
 
-    this.dispatch_state_changed_event()
+  private store_bone_transforms (skeleton: Skeleton): BoneTransformState[] {
+    skeleton.bones.forEach((bone: Bone) => this.stored_bones.set(bone.uuid, bone))
+    return Utility.store_bone_transforms(skeleton)
   }
 
   /**
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest'
+import {
+  AnimationClip, Bone, BoxGeometry, Float32BufferAttribute, MeshBasicMaterial, Skeleton,
+  SkinnedMesh, Uint16BufferAttribute, VectorKeyframeTrack
+} from 'three'
+import { StepExportToFile } from './StepExportToFile'
+import { SkeletonSockets } from '../edit-skeleton/SkeletonSockets'
+
+interface GLTFNode {
+  name?: string
+  children?: number[]
+  extras?: Record<string, unknown>
+}
+
+// hips > hand, with a weapon socket under the hand. Every vertex is skinned to the hips
+function create_skinned_mesh (): SkinnedMesh {
+  const geometry = new BoxGeometry()
+  const vertex_count: number = geometry.attributes.position.count
+  geometry.setAttribute('skinIndex', new Uint16BufferAttribute(new Array(vertex_count * 4).fill(0), 4))
+  geometry.setAttribute('skinWeight', new Float32BufferAttribute(new Array(vertex_count * 4).fill(0).map((_weight: number, index: number) => index % 4 === 0 ? 1 : 0), 4))
+
+  const hips = new Bone()
+  hips.name = 'hips'
+  const hand = new Bone()
+  hand.name = 'hand'
+  hand.position.set(0, 1, 0)
+  hips.add(hand)
+  SkeletonSockets.create_socket(hand, 'weapon').position.set(0, 0.2, 0)
+
+  const skinned_mesh = new SkinnedMesh(geometry, new MeshBasicMaterial())
+  skinned_mesh.add(hips)
+  skinned_mesh.bind(new Skeleton([hips, hand]))
+  return skinned_mesh
+}
+
+// nodes from the JSON chunk, which is the first chunk after the 12 byte GLB header
+async function read_glb_nodes (glb_file: Blob): Promise<GLTFNode[]> {
+  const glb_data = new DataView(await new Promise<ArrayBuffer>((resolve) => {
+    const file_reader = new FileReader()
+    file_reader.onload = () => { resolve(file_reader.result as ArrayBuffer) }
+    file_reader.readAsArrayBuffer(glb_file)
+  }))
+  const json_length: number = glb_data.getUint32(12, true)
+  const json_text: string = new TextDecoder().decode(new Uint8Array(glb_data.buffer, 20, json_length))
+  return (JSON.parse(json_text) as { nodes: GLTFNode[] }).nodes
+}
+
+describe('StepExportToFile', () => {
+  let exported_files: Blob[]
+
+  beforeAll(() => {
+    // the exported file is saved by clicking a hidden download link
+    const download_link: HTMLAnchorElement = document.createElement('a')
+    download_link.id = 'download-hidden-link'
+    download_link.addEventListener('click', (event: MouseEvent) => { event.preventDefault() })
+    document.body.appendChild(download_link)
+
+    exported_files = []
+    URL.createObjectURL = vi.fn((file: Blob) => {
+      exported_files.push(file)
+      return 'blob:exported-file'
+    })
+  })
+
+  describe('export', () => {
+    it('should export sockets as nodes under their bone, with the socket flag in the extras', async () => {
+      const skinned_mesh: SkinnedMesh = create_skinned_mesh()
+      const clip = new AnimationClip('idle', 1, [new VectorKeyframeTrack('hips.position', [0, 1], [0, 0, 0, 0, 1, 0])])
+
+      const step_export_to_file = new StepExportToFile()
+      step_export_to_file.set_animation_clips_to_export([clip], [0])
+      step_export_to_file.export([skinned_mesh], 'socket-test')
+      await vi.waitFor(() => { expect(exported_files).toHaveLength(1) })
+
+      const nodes: GLTFNode[] = await read_glb_nodes(exported_files[0])
+      const socket_nodes: GLTFNode[] = nodes.filter((node: GLTFNode) => node.extras?.socket === true)
+      expect(socket_nodes.map((node: GLTFNode) => node.name)).toEqual(['weapon'])
+
+      const hand_node: GLTFNode | undefined = nodes.find((node: GLTFNode) => node.name === 'hand')
+      expect(hand_node?.children?.map((child_index: number) => nodes[child_index].name)).toEqual(['weapon'])
+
+      expect(hand_node?.extras?.socket).toBeUndefined() // bones are not sockets
+    })
+  })
+})
@@ -1,12 +1,16 @@
 import { UI } from '../../UI.ts'
-import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
-import { type AnimationClip, Scene, type SkinnedMesh, type Object3D } from 'three'
+import { GLTFExporter, type GLTFWriter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { VRMExporterPlugin } from './VRMExporterPlugin.ts'
+import { type AnimationClip, Group, Scene, type SkinnedMesh, type Object3D } from 'three'
 
 // Note: EventTarget is a built-ininterface and do not need to import it
 export class StepExportToFile extends EventTarget {
   private readonly ui: UI = UI.getInstance()
   private animation_clips_to_export: AnimationClip[] = []
 
+  // exports a .vrm file with humanoid metadata instead of a plain .glb
+  private include_vrm_humanoid: boolean = false
+
   public set_animation_clips_to_export (all_animations_clips: AnimationClip[], animation_checkboxes: number[]): void {
     this.animation_clips_to_export = []
     animation_checkboxes.forEach((indx) => {
@@ -16,7 +20,14 @@ export class StepExportToFile extends EventTarget {
     })
   }
 
-  public export (skinned_meshes: SkinnedMesh[], filename = 'exported_model'): void {
+  public set_include_vrm_humanoid (include: boolean): void {
+    this.include_vrm_humanoid = include
+  }
+
+  /**
+   * @param export_scale scale of the root node in the exported file. Used to undo scaling from import
+   */
+  public export (skinned_meshes: SkinnedMesh[], filename = 'exported_model', export_scale: number = 1): void {
     if (this.animation_clips_to_export.length === 0) {
       console.log('ERROR: No animation clips added to export')
       return
@@ -24,6 +35,15 @@ export class StepExportToFile extends EventTarget {
 
     const export_scene = new Scene()
 
+    // scale a root node instead of the meshes, so the skeleton and animations do not need to change
+    let export_root: Object3D = export_scene
+    if (export_scale !== 1) {
+      export_root = new Group()
+      export_root.name = 'Root'
+      export_root.scale.setScalar(export_scale)
+      export_scene.add(export_root)
+    }
+
     // When exporting to a file, we need to temporarily move the skinned mesh to a new scene
     // skinned meshes can only be part of one scene at a time, so we must move it back to
     // its original parent after exporting
@@ -32,7 +52,7 @@ export class StepExportToFile extends EventTarget {
     skinned_meshes.forEach((final_skinned_mesh) => {
     // Save the original parent
       original_parents.set(final_skinned_mesh, final_skinned_mesh.parent)
-      export_scene.add(final_skinned_mesh)
+      export_root.add(final_skinned_mesh)
     })
 
     console.log('SKINNED MESH DATA TO EXPORT:', skinned_meshes)
@@ -47,7 +67,7 @@ export class StepExportToFile extends EventTarget {
             original_par.add(final_skinned_mesh)
           } else {
             // If there was no original parent, remove it from the scene
-            export_scene.remove(final_skinned_mesh)
+            export_root.remove(final_skinned_mesh)
             console.log('ERROR: No original parent found for skinned mesh when exporting and re-parenting to original scene')
           }
         })
@@ -58,6 +78,10 @@ export class StepExportToFile extends EventTarget {
   public async export_glb (exported_scene: Scene, animations_to_export: AnimationClip[], file_name: string): Promise<void> {
     await new Promise<void>((resolve, reject) => {
       const gltf_exporter = new GLTFExporter()
+      if (this.include_vrm_humanoid) {
+        gltf_exporter.register((writer: GLTFWriter) => new VRMExporterPlugin(writer, file_name))
+      }
+      const file_extension: string = this.include_vrm_humanoid ? 'vrm' : 'glb'
 
       const export_options = {
         binary: true,
@@ -71,7 +95,7 @@ export class StepExportToFile extends EventTarget {
         (result: ArrayBuffer) => {
           // Handle the result of the export
           if (result !== null) {
-            this.save_array_buffer(result, `${file_name}.glb`)
+            this.save_array_buffer(result, `${file_name}.${file_extension}`)
             resolve() // Resolve the promise when the export is complete
           } else {
             console.log('ERROR: result is not an instance of ArrayBuffer')
@@ -0,0 +1,52 @@
+import { type Object3D } from 'three'
+import { type GLTFExporterPlugin, type GLTFWriter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { VRMHumanoid } from '../load-model/VRMHumanoid.ts'
+
+// the GLTFWriter types do not include the JSON output or the object -> node index lookup
+interface GLTFWriterOutput {
+  json: { extensions?: Record<string, unknown> }
+  nodeMap: Map<Object3D, number>
+}
+
+/**
+ * Adds VRM 1.0 humanoid metadata (the "VRMC_vrm" extension) to the exported file, so VRM apps
+ * know which node is which bone. Only works with the human rig, since that is what the bone names map to
+ */
+export class VRMExporterPlugin implements GLTFExporterPlugin {
+  private readonly writer: GLTFWriter
+  private readonly model_name: string
+
+  constructor (writer: GLTFWriter, model_name: string) {
+    this.writer = writer
+    this.model_name = model_name
+  }
+
+  public afterParse (): void {
+    const writer_output = this.writer as unknown as GLTFWriterOutput
+
+    const human_bones: Record<string, { node: number }> = {}
+    writer_output.nodeMap.forEach((node_index: number, object: Object3D) => {
+      const vrm_bone_name: string | undefined = VRMHumanoid.vrm_bone_name(object.name)
+      if (object.type === 'Bone' && vrm_bone_name !== undefined) {
+        human_bones[vrm_bone_name] = { node: node_index }
+      }
+    })
+
+    if (human_bones.hips === undefined) {
+      console.warn('VRM export: no human rig bones found, so humanoid metadata was not added')
+      return
+    }
+
+    writer_output.json.extensions = writer_output.json.extensions ?? {}
+    writer_output.json.extensions.VRMC_vrm = {
+      specVersion: '1.0',
+      meta: {
+        name: this.model_name,
+        authors: ['Unknown'],
+        licenseUrl: 'https://vrm.dev/licenses/1.0/'
+      },
+      humanoid: { humanBones: human_bones }
+    }
+    this.writer.extensionsUsed.VRMC_vrm = true
+  }
+}
@@ -1,7 +1,9 @@
 import JSZip from 'jszip'
 import { EventDispatcher } from 'three'
 import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js'
-import { ModalDialog } from '../../ModalDialog'
+import { ModelLoadError, type FileRemap } from './ModelLoadResult'
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode'
+import { ZipFileResolver, type ResolvedZipFile } from './ZipFileResolver'
 
 /**
  * Loads a DAE (with textures) from a ZIP file buffer, using in-memory URLs for all assets.
@@ -10,6 +12,10 @@ import { ModalDialog } from '../../ModalDialog'
 export class CustomDAELoader extends EventDispatcher {
   private readonly loader: ColladaLoader
 
+  // referenced files that could not be found in the ZIP. Read after loading with get_missing_files()
+  private readonly missing_files = new Set<string>()
+  private readonly file_resolver = new ZipFileResolver()
+
   constructor (loader: ColladaLoader) {
     super()
     this.loader = loader
@@ -27,17 +33,21 @@ export class CustomDAELoader extends EventDispatcher {
       // 1. Load and scan the ZIP for DAE file
       const zip_file: JSZip = await JSZip.loadAsync(zip_data)
       const dae_file = this.find_dae_file(zip_file)
-      if (!dae_file) throw new Error('No DAE file found in ZIP')
+      if (!dae_file) throw new ModelLoadError(ModelLoadResultCode.MissingModelFile, 'No DAE file found in ZIP')
 
-      // 2. Build a map of all relevant files (textures, dae) by filename
-      const file_map: Record<string, Uint8Array> = await this.build_file_map(zip_file)
+      // 2. Read all relevant files (textures, dae) so references can be looked up
+      await this.file_resolver.add_files_from_zip(zip_file, /\.(dae|png|jpg|jpeg|webp)$/i)
 
       // 3. Patch loader to use in-memory blobs for all referenced files
-      this.loader.manager.setURLModifier(this.make_url_modifier(file_map))
+      this.loader.manager.setURLModifier(this.make_url_modifier())
 
       // Add error listener for texture/resource loading
+      this.missing_files.clear()
+      // object URLs are files we found in the ZIP, so only track the ones that were not found
       this.loader.manager.itemError = (url: string) => {
-        new ModalDialog('Could not find file in ZIP', `${this.get_last_segment_of_url(url)}`).show()
+        if (!this.is_object_url(url)) {
+          this.missing_files.add(this.get_last_segment_of_url(url))
+        }
       }
 
       // 4. Load the DAE from the in-memory XML blob
@@ -71,6 +81,14 @@ export class CustomDAELoader extends EventDispatcher {
     this.loader.manager.onError = null
   }
 
+  public get_missing_files (): string[] {
+    return Array.from(this.missing_files)
+  }
+
+  public get_remapped_files (): FileRemap[] {
+    return this.file_resolver.get_remapped_files()
+  }
+
   /**
    * Scans the ZIP for .dae file and returns its file object.
    */
@@ -84,59 +102,39 @@ export class CustomDAELoader extends EventDispatcher {
     return dae_file
   }
 
-  /**
-   * Builds a map of all relevant files (textures, dae) by filename (case-insensitive, handles spaces).
-   */
-  private async build_file_map (zip: JSZip): Promise<Record<string, Uint8Array>> {
-    const fileMap: Record<string, Uint8Array> = {}
-    const filePromises = Object.keys(zip.files).map(async (filename) => {
-      const file = zip.files[filename]
-      if (!file.dir) {
-        const nameOnly = filename.split('/').pop() ?? filename
-        if (/\.(dae|png|jpg|jpeg|webp)$/i.test(nameOnly)) {
-          const buffer = new Uint8Array(await file.async('arraybuffer'))
-          fileMap[nameOnly] = buffer
-          fileMap[nameOnly.toLowerCase()] = buffer
-          try {
-            const decoded = decodeURIComponent(nameOnly)
-            fileMap[decoded] = buffer
-            fileMap[decoded.toLowerCase()] = buffer
-          } catch {}
-        }
-      }
-    })
-    await Promise.all(filePromises)
-    return fileMap
-  }
-
   /**
    * Returns a URL modifier function for the loader, serving in-memory blobs for referenced files.
    */
-  private make_url_modifier (file_map: Record<string, Uint8Array>): (url: string) => string {
+  private make_url_modifier (): (url: string) => string {
     return (url: string) => {
-      const clean_url = url.split(/[?#]/)[0]
-      const name_only: string = clean_url.split('/').pop() ?? clean_url
-      let buffer: Uint8Array | undefined = file_map[name_only]
-      if (!buffer) buffer = file_map[name_only.toLowerCase()]
-      if (!buffer) {
-        try {
-          const decoded = decodeURIComponent(name_only)
-          buffer = file_map[decoded] || file_map[decoded.toLowerCase()]
-        } catch {}
-      }
-      if (buffer) {
+      // embedded data and in-memory files do not need to be looked up. Relative paths are
+      // resolved against the in-memory model file, so those are blob URLs that still need a lookup
+      if (url.startsWith('data:') || this.is_object_url(url)) return url
+
+      const resolved_file: ResolvedZipFile | null = this.file_resolver.resolve(url)
+      if (resolved_file !== null) {
         let mime = 'application/octet-stream'
-        if (/\.png$/i.test(name_only)) mime = 'image/png'
-        else if (/\.jpe?g$/i.test(name_only)) mime = 'image/jpeg'
-        else if (/\.webp$/i.test(name_only)) mime = 'image/webp'
-        else if (/\.dae$/i.test(name_only)) mime = 'model/vnd.collada+xml'
-        const blob = new Blob([buffer], { type: mime })
+        if (/\.png$/i.test(resolved_file.path)) mime = 'image/png'
+        else if (/\.jpe?g$/i.test(resolved_file.path)) mime = 'image/jpeg'
+        else if (/\.webp$/i.test(resolved_file.path)) mime = 'image/webp'
+        else if (/\.dae$/i.test(resolved_file.path)) mime = 'model/vnd.collada+xml'
+        const blob = new Blob([resolved_file.data as BlobPart], { type: mime })
         return URL.createObjectURL(blob)
       }
+      const clean_url = url.split(/[?#]/)[0].replace(/\\/g, '/')
+      this.missing_files.add(clean_url.split('/').pop() ?? clean_url)
       return url
     }
   }
 
+  /**
+   * Object URLs look like "blob:https://site.com/<uuid>". Blob URLs that end in a file name
+   * are relative paths that were resolved against an object URL
+   */
+  private is_object_url (url: string): boolean {
+    return /^blob:.*\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(url)
+  }
+
   /**
    * Gets the last segment of a URL path.
    */
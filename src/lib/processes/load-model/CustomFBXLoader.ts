@@ -1,10 +1,10 @@
 import { EventDispatcher, type Object3DEventMap, type Group } from 'three'
 import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader'
-import { ModalDialog } from '../../ModalDialog'
 
 export interface FBXResults {
   fbx_scene: Group<Object3DEventMap>
   is_missing_dependencies: boolean
+  missing_files: string[]
 }
 
 export class CustomFBXLoader extends EventDispatcher {
@@ -20,6 +20,7 @@ export class CustomFBXLoader extends EventDispatcher {
       let has_finished_loading_fbx = false
       let has_finished_loading_all_dependencies = false
       let is_missing_dependencies = false
+      const missing_files: string[] = []
       let loaded_fbx: Group
 
       const check_if_complete = (): void => {
@@ -27,21 +28,18 @@ export class CustomFBXLoader extends EventDispatcher {
         if (is_complete) {
           const fbx_results: FBXResults = {
             fbx_scene: loaded_fbx,
-            is_missing_dependencies
+            is_missing_dependencies,
+            missing_files
           } satisfies FBXResults
           resolve(fbx_results)
         }
       }
 
       // check for errors while loading dependencies like images
+      // the material will be replaced with a basic material when this happens
       this.loader.manager.itemError = (url: string) => {
         is_missing_dependencies = true
-        new ModalDialog(
-          'Error loading resource associated with FBX.',
-          `The material will be replaced with a basic material for now. You will need to update this outside the application: ${url
-            .split('/')
-            .pop()}`
-        ).show()
+        missing_files.push(url.split('/').pop() ?? url)
       }
 
       this.loader.load(url, (fbx) => {
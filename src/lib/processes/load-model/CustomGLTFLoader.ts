@@ -2,7 +2,9 @@ import JSZip from 'jszip'
 import { EventDispatcher } from 'three'
 import { type GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
 import { type Scene } from 'three/src/scenes/Scene.js'
-import { ModalDialog } from '../../ModalDialog'
+import { ModelLoadError, type FileRemap } from './ModelLoadResult'
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode'
+import { ZipFileResolver, type ResolvedZipFile } from './ZipFileResolver'
 
 /**
  * Loads a GLTF (with BIN and textures) from a ZIP file buffer, using in-memory URLs for all assets.
@@ -11,6 +13,10 @@ import { ModalDialog } from '../../ModalDialog'
 export class CustomGLTFLoader extends EventDispatcher {
   private readonly loader: GLTFLoader
 
+  // referenced files that could not be found in the ZIP. Read after loading with get_missing_files()
+  private readonly missing_files = new Set<string>()
+  private readonly file_resolver = new ZipFileResolver()
+
   constructor (loader: GLTFLoader) {
     super()
     this.loader = loader
@@ -27,21 +33,25 @@ export class CustomGLTFLoader extends EventDispatcher {
       // 1. Load and scan the ZIP for GLTF and BIN files
       const zip_file: JSZip = await JSZip.loadAsync(zip_data)
       const gltf_files_result: GltfFilesResult = this.find_gltf_and_bin_files(zip_file)
-      if (!gltf_files_result.gltf_file) throw new Error('No GLTF file found in ZIP')
+      if (!gltf_files_result.gltf_file) throw new ModelLoadError(ModelLoadResultCode.MissingModelFile, 'No GLTF file found in ZIP')
 
       // 2. Parse GLTF JSON and patch buffer URI if needed
       const gltf_json: any = await this.parse_gltf_json(gltf_files_result.gltf_file,
         gltf_files_result.bin_file, gltf_files_result.bin_filename)
 
-      // 3. Build a map of all relevant files (textures, bin, gltf) by filename
-      const file_map: Record<string, Uint8Array> = await this.build_file_map(zip_file)
+      // 3. Read all relevant files (textures, bin, gltf) so references can be looked up
+      await this.file_resolver.add_files_from_zip(zip_file, /\.(bin|gltf|png|jpg|jpeg|webp)$/i)
 
       // 4. Patch loader to use in-memory blobs for all referenced files
-      this.loader.manager.setURLModifier(this.make_url_modifier(file_map))
+      this.loader.manager.setURLModifier(this.make_url_modifier())
 
       // Add error listener for texture/resource loading
+      this.missing_files.clear()
+      // object URLs are files we found in the ZIP, so only track the ones that were not found
       this.loader.manager.itemError = (url: string) => {
-        new ModalDialog('Could not find file in ZIP', `${this.get_last_segment_of_url(url)}`).show()
+        if (!this.is_object_url(url)) {
+          this.missing_files.add(this.get_last_segment_of_url(url))
+        }
       }
 
       // 5. Load the GLTF from the in-memory JSON blob
@@ -70,6 +80,14 @@ export class CustomGLTFLoader extends EventDispatcher {
     this.loader.manager.onError = null
   }
 
+  public get_missing_files (): string[] {
+    return Array.from(this.missing_files)
+  }
+
+  public get_remapped_files (): FileRemap[] {
+    return this.file_resolver.get_remapped_files()
+  }
+
   /**
    * Scans the ZIP for .gltf and .bin files and returns their file objects and names.
    */
@@ -113,66 +131,43 @@ export class CustomGLTFLoader extends EventDispatcher {
     return gltf_json
   }
 
-  /**
-   * Builds a map of all relevant files (textures, bin, gltf) by filename (case-insensitive, handles spaces).
-   */
-  private async build_file_map (zip: JSZip): Promise<Record<string, Uint8Array>> {
-    const fileMap: Record<string, Uint8Array> = {}
-    const filePromises = Object.keys(zip.files).map(async (filename) => {
-      const file = zip.files[filename]
-      if (!file.dir) {
-        const nameOnly = filename.split('/').pop() ?? filename
-        if (/\.(bin|gltf|png|jpg|jpeg|webp)$/i.test(nameOnly)) {
-          const buffer = new Uint8Array(await file.async('arraybuffer'))
-          // Map by original, lowercased, and decoded name
-          fileMap[nameOnly] = buffer
-          fileMap[nameOnly.toLowerCase()] = buffer
-          try {
-            const decoded = decodeURIComponent(nameOnly)
-            fileMap[decoded] = buffer
-            fileMap[decoded.toLowerCase()] = buffer
-          } catch {}
-        }
-      }
-    })
-    await Promise.all(filePromises)
-    return fileMap
-  }
-
   /**
    * Returns a URL modifier function for the loader, serving in-memory blobs for referenced files.
    */
-  private make_url_modifier (file_map: Record<string, Uint8Array>): (url: string) => string {
+  private make_url_modifier (): (url: string) => string {
     return (url: string) => {
-      // Remove query/hash, get filename
-      const clean_url = url.split(/[?#]/)[0]
-      const name_only: string = clean_url.split('/').pop() ?? clean_url
-      // Try original, lowercased, and decoded
-      let buffer: Uint8Array | undefined = file_map[name_only]
-
-      if (!buffer) buffer = file_map[name_only.toLowerCase()]
-      if (!buffer) {
-        try {
-          const decoded = decodeURIComponent(name_only)
-          buffer = file_map[decoded] || file_map[decoded.toLowerCase()]
-        } catch {}
-      }
+      // embedded data and in-memory files do not need to be looked up. Relative paths are
+      // resolved against the in-memory model file, so those are blob URLs that still need a lookup
+      if (url.startsWith('data:') || this.is_object_url(url)) return url
+
+      const resolved_file: ResolvedZipFile | null = this.file_resolver.resolve(url)
 
-      if (buffer) {
+      if (resolved_file !== null) {
         // Guess MIME type
         let mime = 'application/octet-stream'
-        if (/\.png$/i.test(name_only)) mime = 'image/png'
-        else if (/\.jpe?g$/i.test(name_only)) mime = 'image/jpeg'
-        else if (/\.webp$/i.test(name_only)) mime = 'image/webp'
-        else if (/\.gltf$/i.test(name_only)) mime = 'application/json'
-        const blob = new Blob([buffer], { type: mime })
+        if (/\.png$/i.test(resolved_file.path)) mime = 'image/png'
+        else if (/\.jpe?g$/i.test(resolved_file.path)) mime = 'image/jpeg'
+        else if (/\.webp$/i.test(resolved_file.path)) mime = 'image/webp'
+        else if (/\.gltf$/i.test(resolved_file.path)) mime = 'application/json'
+        const blob = new Blob([resolved_file.data as BlobPart], { type: mime })
         return URL.createObjectURL(blob)
       }
 
+      const clean_url = url.split(/[?#]/)[0].replace(/\\/g, '/')
+      this.missing_files.add(clean_url.split('/').pop() ?? clean_url)
+
       return url
     }
   }
 
+  /**
+   * Object URLs look like "blob:https://site.com/<uuid>". Blob URLs that end in a file name
+   * are relative paths that were resolved against an object URL
+   */
+  private is_object_url (url: string): boolean {
+    return /^blob:.*\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(url)
+  }
+
   /**
    * Gets the last segment of a URL path.
    * @param path The URL path.
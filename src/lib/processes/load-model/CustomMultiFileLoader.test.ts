@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { type Mesh, type MeshPhongMaterial, type MeshStandardMaterial, type Object3D } from 'three'
+import { CustomMultiFileLoader, type MultiFileLoadResult } from './CustomMultiFileLoader'
+import { ModelLoadError } from './ModelLoadResult'
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode'
+import { create_glb } from '../../test-helpers/TestFiles'
+import { add_browser_file_apis } from '../../test-helpers/BrowserFileApis'
+
+const triangle_positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0])
+const obj_text = 'mtllib crate.mtl\nv 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl Wood\nf 1 2 3'
+
+// triangle with its positions in a separate BIN file and a base color texture
+function create_gltf_file (texture_uri: string): File {
+  const gltf_json = {
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0, name: 'Triangle' }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 }, material: 0 }] }],
+    materials: [{ pbrMetallicRoughness: { baseColorTexture: { index: 0 } } }],
+    textures: [{ source: 0 }],
+    images: [{ uri: texture_uri }],
+    buffers: [{ uri: 'triangle.bin', byteLength: triangle_positions.byteLength }],
+    bufferViews: [{ buffer: 0, byteLength: triangle_positions.byteLength }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }]
+  }
+  return new File([JSON.stringify(gltf_json)], 'triangle.gltf')
+}
+
+function first_mesh (scene: Object3D): Mesh {
+  let mesh: Mesh | undefined
+  scene.traverse((child: Object3D) => {
+    if (mesh === undefined && child.type === 'Mesh') mesh = child as Mesh
+  })
+  if (mesh === undefined) {
+    throw new Error('the loaded model has no meshes')
+  }
+  return mesh
+}
+
+describe('CustomMultiFileLoader', () => {
+  beforeEach(() => {
+    add_browser_file_apis()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('load_from_files', () => {
+    it('should load loose GLTF + BIN + texture files, finding the texture under a different path', async () => {
+      const files: File[] = [
+        create_gltf_file('textures/Wood.PNG'),
+        new File([triangle_positions], 'triangle.bin'),
+        new File([new Uint8Array([137, 80, 78, 71])], 'wood.png')
+      ]
+
+      const result: MultiFileLoadResult = await new CustomMultiFileLoader().load_from_files(files)
+
+      expect(result.model_file_name).toBe('triangle.gltf')
+      expect(result.unresolved_files).toEqual([])
+      expect(result.remapped_files).toEqual([{ reference: 'textures/Wood.PNG', resolved_path: 'wood.png' }])
+      const mesh: Mesh = first_mesh(result.scene)
+      expect(mesh.geometry.attributes.position.count).toBe(3)
+      expect((mesh.material as MeshStandardMaterial).map).not.toBeNull()
+    })
+
+    it('should load loose OBJ + MTL files with their materials', async () => {
+      const files: File[] = [
+        new File([obj_text], 'crate.obj'),
+        new File(['newmtl Wood\nKd 1 0 0'], 'Crate.MTL')
+      ]
+
+      const result: MultiFileLoadResult = await new CustomMultiFileLoader().load_from_files(files)
+
+      expect(result.unresolved_files).toEqual([])
+      const mesh: Mesh = first_mesh(result.scene)
+      expect((mesh.material as MeshPhongMaterial).name).toBe('Wood')
+      expect(mesh.geometry.attributes.normal).toBeDefined() // OBJ files are not required to have normals
+    })
+
+    it('should load the model file with the highest priority', async () => {
+      const glb_json = {
+        asset: { version: '2.0' },
+        scene: 0,
+        scenes: [{ nodes: [0] }],
+        nodes: [{ mesh: 0, name: 'Triangle' }],
+        meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+        buffers: [{ byteLength: triangle_positions.byteLength }],
+        bufferViews: [{ buffer: 0, byteLength: triangle_positions.byteLength }],
+        accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }]
+      }
+      const files: File[] = [
+        new File([obj_text], 'crate.obj'),
+        new File([create_glb(glb_json, triangle_positions)], 'triangle.glb')
+      ]
+
+      const result: MultiFileLoadResult = await new CustomMultiFileLoader().load_from_files(files)
+
+      expect(result.model_file_name).toBe('triangle.glb')
+    })
+
+    it('should report the referenced files that were not picked', async () => {
+      const files: File[] = [
+        create_gltf_file('wood.png'),
+        new File([triangle_positions], 'triangle.bin'),
+        new File([obj_text], 'crate.obj')
+      ]
+
+      const result: MultiFileLoadResult = await new CustomMultiFileLoader().load_from_files(files)
+
+      expect(result.model_file_name).toBe('triangle.gltf')
+      expect(result.unresolved_files).toEqual(['wood.png'])
+      expect(first_mesh(result.scene).geometry.attributes.position.count).toBe(3) // still loads without the texture
+    })
+
+    it('should throw when none of the files is a model file', async () => {
+      const files: File[] = [new File(['newmtl Wood'], 'crate.mtl'), new File([triangle_positions], 'triangle.bin')]
+
+      const error: unknown = await new CustomMultiFileLoader().load_from_files(files).catch((err: unknown) => err)
+
+      expect(error).toBeInstanceOf(ModelLoadError)
+      expect((error as ModelLoadError).code).toBe(ModelLoadResultCode.MissingModelFile)
+    })
+  })
+})
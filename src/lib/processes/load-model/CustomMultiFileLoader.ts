@@ -0,0 +1,165 @@
+import { type Group, LoadingManager, type Object3D } from 'three'
+import { GLTFLoaderFactory } from '../../GLTFLoaderFactory.ts'
+import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js'
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js'
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js'
+import { CustomOBJLoader } from './CustomOBJLoader.ts'
+import { ModelLoadError, type FileRemap } from './ModelLoadResult.ts'
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode.ts'
+import { ZipFileResolver, type ResolvedZipFile } from './ZipFileResolver.ts'
+
+export interface MultiFileLoadResult {
+  scene: Object3D
+  model_file_name: string
+  unresolved_files: string[] // referenced files that were not part of the dropped files
+  remapped_files: FileRemap[] // referenced files that were found under a different path
+}
+
+/**
+ * Loads a model from a set of loose files (e.g. GLTF + BIN + textures dropped together),
+ * looking up references with the ZIP file resolver and using in-memory URLs for all assets. Works like the ZIP loaders, but without the ZIP.
+ * Usage: await new CustomMultiFileLoader().load_from_files(files)
+ */
+export class CustomMultiFileLoader {
+  // model files that can be the "main" file in the set. Order is the priority when multiple are dropped
+  private readonly model_file_priorities: RegExp[] = [/\.glb$/i, /\.gltf$/i, /\.fbx$/i, /\.dae$/i, /\.obj$/i]
+
+  private readonly unresolved_files = new Set<string>()
+  private readonly file_resolver = new ZipFileResolver()
+
+  /**
+   * Main entry: finds the model file in the list, then loads it with the other files available by name
+   */
+  public async load_from_files (files: File[]): Promise<MultiFileLoadResult> {
+    const model_file: File | null = this.find_model_file(files)
+    if (model_file === null) {
+      throw new ModelLoadError(ModelLoadResultCode.MissingModelFile, 'No supported model file found. Supported model files are GLB, GLTF, FBX, DAE and OBJ')
+    }
+
+    await this.add_files(files)
+    this.unresolved_files.clear()
+
+    const loading_manager = new LoadingManager()
+    loading_manager.setURLModifier(this.make_url_modifier())
+    loading_manager.itemError = (url: string) => {
+      // object URLs are the files we did find, so report what the model asked for instead
+      if (!this.is_object_url(url)) {
+        this.unresolved_files.add(this.get_last_segment_of_url(url))
+      }
+    }
+
+    const model_buffer: ArrayBuffer = await model_file.arrayBuffer()
+    const scene: Object3D = await this.parse_model(model_file.name, model_buffer, loading_manager)
+
+    return {
+      scene,
+      model_file_name: model_file.name,
+      unresolved_files: Array.from(this.unresolved_files),
+      remapped_files: this.file_resolver.get_remapped_files()
+    }
+  }
+
+  private async parse_model (file_name: string, buffer: ArrayBuffer, manager: LoadingManager): Promise<Object3D> {
+    const text_decoder = new TextDecoder()
+
+    if (/\.(glb|gltf)$/i.test(file_name)) {
+      const gltf_loader = GLTFLoaderFactory.create_loader(manager)
+      return await new Promise((resolve, reject) => {
+        gltf_loader.parse(buffer, '', (gltf) => { resolve(gltf.scene) }, (err) => { reject(err) })
+      })
+    }
+
+    if (/\.fbx$/i.test(file_name)) {
+      return new FBXLoader(manager).parse(buffer, '')
+    }
+
+    if (/\.dae$/i.test(file_name)) {
+      const collada = new ColladaLoader(manager).parse(text_decoder.decode(buffer), '')
+      if (collada === null) throw new ModelLoadError(ModelLoadResultCode.CorruptFile, 'Could not parse DAE file')
+      return collada.scene
+    }
+
+    // OBJ. materials come from an MTL file that the OBJ references with the "mtllib" keyword
+    const obj_text: string = text_decoder.decode(buffer)
+    const obj_loader = new OBJLoader(manager)
+    const mtllib_match: RegExpMatchArray | null = obj_text.match(/^mtllib\s+(.+)$/m)
+    if (mtllib_match !== null) {
+      const mtl_reference: string = mtllib_match[1].trim()
+      const mtl_file: ResolvedZipFile | null = this.file_resolver.resolve(mtl_reference)
+      if (mtl_file === null) {
+        this.unresolved_files.add(this.get_last_segment_of_url(mtl_reference.replace(/\\/g, '/')))
+      } else {
+        const materials = new MTLLoader(manager).parse(text_decoder.decode(mtl_file.data), '')
+        materials.preload()
+        obj_loader.setMaterials(materials)
+      }
+    }
+
+    const obj_group: Group = obj_loader.parse(obj_text)
+    CustomOBJLoader.compute_missing_normals(obj_group)
+    return obj_group
+  }
+
+  private find_model_file (files: File[]): File | null {
+    for (const regex of this.model_file_priorities) {
+      const found: File | undefined = files.find(file => regex.test(file.name))
+      if (found !== undefined) return found
+    }
+    return null
+  }
+
+  /**
+   * Reads all files so references can be looked up. Folder structure is ignored since most models reference
+   * textures with relative or absolute paths that do not match where the files are on the user's computer
+   */
+  private async add_files (files: File[]): Promise<void> {
+    const file_promises = files.map(async (file: File) => {
+      this.file_resolver.add_file(file.name, new Uint8Array(await file.arrayBuffer()))
+    })
+    await Promise.all(file_promises)
+  }
+
+  /**
+   * Returns a URL modifier function for the loader, serving in-memory blobs for referenced files.
+   */
+  private make_url_modifier (): (url: string) => string {
+    return (url: string) => {
+      // embedded data and in-memory files do not need to be looked up. Relative paths are
+      // resolved against the in-memory model file, so those are blob URLs that still need a lookup
+      if (url.startsWith('data:') || this.is_object_url(url)) return url
+
+      const resolved_file: ResolvedZipFile | null = this.file_resolver.resolve(url)
+      if (resolved_file === null) {
+        const clean_url = url.split(/[?#]/)[0].replace(/\\/g, '/')
+        this.unresolved_files.add(clean_url.split('/').pop() ?? clean_url)
+        return url
+      }
+
+      let mime = 'application/octet-stream'
+      if (/\.png$/i.test(resolved_file.path)) mime = 'image/png'
+      else if (/\.jpe?g$/i.test(resolved_file.path)) mime = 'image/jpeg'
+      else if (/\.webp$/i.test(resolved_file.path)) mime = 'image/webp'
+      else if (/\.bmp$/i.test(resolved_file.path)) mime = 'image/bmp'
+      else if (/\.gltf$/i.test(resolved_file.path)) mime = 'application/json'
+      const blob = new Blob([resolved_file.data as BlobPart], { type: mime })
+      return URL.createObjectURL(blob)
+    }
+  }
+
+  /**
+   * Object URLs look like "blob:https://site.com/<uuid>". Blob URLs that end in a file name
+   * are relative paths that were resolved against an object URL
+   */
+  private is_object_url (url: string): boolean {
+    return /^blob:.*\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(url)
+  }
+
+  /**
+   * Gets the last segment of a URL path.
+   */
+  private get_last_segment_of_url (path: string): string {
+    const segments = path.split('/')
+    return segments[segments.length - 1]
+  }
+}
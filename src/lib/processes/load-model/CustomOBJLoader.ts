@@ -0,0 +1,181 @@
+import JSZip from 'jszip'
+import { EventDispatcher, type Group, type Mesh, type Object3D } from 'three'
+import { type OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { MTLLoader } from 'three/examples/jsm/loaders/MTLLoader.js'
+import { ModelLoadError, type FileRemap } from './ModelLoadResult'
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode'
+import { ZipFileResolver, type ResolvedZipFile } from './ZipFileResolver'
+
+/**
+ * Loads an OBJ (with MTL and textures) from a ZIP file buffer, using in-memory URLs for all assets.
+ * Usage: new CustomOBJLoader(objLoaderInstance).load_from_zip(zipBuffer, (scene) => { ... })
+ */
+export class CustomOBJLoader extends EventDispatcher {
+  private readonly loader: OBJLoader
+
+  // referenced files that could not be found in the ZIP. Read after loading with get_missing_files()
+  private readonly missing_files = new Set<string>()
+  private readonly file_resolver = new ZipFileResolver()
+
+  constructor (loader: OBJLoader) {
+    super()
+    this.loader = loader
+  }
+
+  /**
+   * Main entry: Loads an OBJ (with MTL and textures) from a ZIP file buffer, using in-memory URLs for all assets.
+   */
+  public async load_from_zip (
+    zip_data: ArrayBuffer,
+    onLoad: (scene: Group) => void,
+    onError?: (err: any) => void
+  ): Promise<void> {
+    try {
+      // 1. Load and scan the ZIP for OBJ file
+      const zip_file: JSZip = await JSZip.loadAsync(zip_data)
+      const obj_file = this.find_obj_file(zip_file)
+      if (obj_file === null) throw new ModelLoadError(ModelLoadResultCode.MissingModelFile, 'No OBJ file found in ZIP')
+
+      // 2. Read all relevant files (textures, mtl, obj) so references can be looked up
+      await this.file_resolver.add_files_from_zip(zip_file, /\.(obj|mtl|png|jpg|jpeg|webp|bmp|tga)$/i)
+
+      // 3. Patch loader to use in-memory blobs for all referenced files
+      // the MTL loader shares the same manager, so textures referenced by the MTL are resolved too
+      this.loader.manager.setURLModifier(this.make_url_modifier())
+
+      // Add error listener for texture/resource loading
+      this.missing_files.clear()
+      // object URLs are files we found in the ZIP, so only track the ones that were not found
+      this.loader.manager.itemError = (url: string) => {
+        if (!this.is_object_url(url)) {
+          this.missing_files.add(this.get_last_segment_of_url(url))
+        }
+      }
+
+      // 4. Parse the MTL material library (if the OBJ references one) before parsing geometry
+      const obj_text: string = await obj_file.async('text')
+      const mtl_text: string | null = await this.find_mtl_text(obj_text, zip_file)
+      if (mtl_text !== null) {
+        const mtl_loader = new MTLLoader(this.loader.manager)
+        const materials = mtl_loader.parse(mtl_text, '')
+        materials.preload()
+        this.loader.setMaterials(materials)
+      }
+
+      // 5. Parse the OBJ text. OBJ files are not required to have normals, so generate them if missing
+      const loaded_scene: Group = this.loader.parse(obj_text)
+      CustomOBJLoader.compute_missing_normals(loaded_scene)
+
+      console.log('OBJ model loaded from ZIP:', loaded_scene)
+      onLoad(loaded_scene)
+    } catch (err) {
+      if (onError != null) {
+        onError(err)
+      }
+    }
+  }
+
+  public get_missing_files (): string[] {
+    return Array.from(this.missing_files)
+  }
+
+  public get_remapped_files (): FileRemap[] {
+    return this.file_resolver.get_remapped_files()
+  }
+
+  /**
+   * Scans the ZIP for .obj file and returns its file object.
+   */
+  private find_obj_file (zip: JSZip): JSZip.JSZipObject | null {
+    let obj_file: JSZip.JSZipObject | null = null
+    zip.forEach((relativePath, file) => {
+      if (relativePath.toLowerCase().endsWith('.obj')) {
+        obj_file = file
+      }
+    })
+    return obj_file
+  }
+
+  /**
+   * Finds the MTL text that goes with the OBJ. Uses the "mtllib" line in the OBJ first,
+   * then falls back to any MTL file found in the ZIP.
+   */
+  private async find_mtl_text (obj_text: string, zip: JSZip): Promise<string | null> {
+    const mtllib_match: RegExpMatchArray | null = obj_text.match(/^mtllib\s+(.+)$/m)
+
+    if (mtllib_match !== null) {
+      const mtl_reference: string = mtllib_match[1].trim()
+      const resolved_file: ResolvedZipFile | null = this.file_resolver.resolve(mtl_reference)
+      if (resolved_file !== null) {
+        return new TextDecoder().decode(resolved_file.data)
+      }
+      // default materials will be used instead
+      this.missing_files.add(this.get_last_segment_of_url(mtl_reference.replace(/\\/g, '/')))
+      return null
+    }
+
+    const fallback_mtl_file: JSZip.JSZipObject | undefined = zip.file(/\.mtl$/i)[0]
+    if (fallback_mtl_file !== undefined) {
+      return await fallback_mtl_file.async('text')
+    }
+
+    return null
+  }
+
+  /**
+   * OBJ files are not required to have normals, so generate them for meshes that do not have any
+   */
+  public static compute_missing_normals (loaded_scene: Object3D): void {
+    loaded_scene.traverse((child: Object3D) => {
+      if (child.type === 'Mesh') {
+        const geometry = (child as Mesh).geometry
+        if (geometry.attributes.normal === undefined) {
+          geometry.computeVertexNormals()
+        }
+      }
+    })
+  }
+
+  /**
+   * Returns a URL modifier function for the loader, serving in-memory blobs for referenced files.
+   * MTL files written on Windows often use backslashes in texture paths, which the file resolver handles
+   */
+  private make_url_modifier (): (url: string) => string {
+    return (url: string) => {
+      // embedded data and in-memory files do not need to be looked up. Relative paths are
+      // resolved against the in-memory model file, so those are blob URLs that still need a lookup
+      if (url.startsWith('data:') || this.is_object_url(url)) return url
+
+      const resolved_file: ResolvedZipFile | null = this.file_resolver.resolve(url)
+      if (resolved_file !== null) {
+        let mime = 'application/octet-stream'
+        if (/\.png$/i.test(resolved_file.path)) mime = 'image/png'
+        else if (/\.jpe?g$/i.test(resolved_file.path)) mime = 'image/jpeg'
+        else if (/\.webp$/i.test(resolved_file.path)) mime = 'image/webp'
+        else if (/\.bmp$/i.test(resolved_file.path)) mime = 'image/bmp'
+        else if (/\.mtl$/i.test(resolved_file.path)) mime = 'text/plain'
+        const blob = new Blob([resolved_file.data as BlobPart], { type: mime })
+        return URL.createObjectURL(blob)
+      }
+      const clean_url = url.split(/[?#]/)[0].replace(/\\/g, '/')
+      this.missing_files.add(clean_url.split('/').pop() ?? clean_url)
+      return url
+    }
+  }
+
+  /**
+   * Object URLs look like "blob:https://site.com/<uuid>". Blob URLs that end in a file name
+   * are relative paths that were resolved against an object URL
+   */
+  private is_object_url (url: string): boolean {
+    return /^blob:.*\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(url)
+  }
+
+  /**
+   * Gets the last segment of a URL path.
+   */
+  private get_last_segment_of_url (path: string): string {
+    const segments = path.split('/')
+    return segments[segments.length - 1]
+  }
+}
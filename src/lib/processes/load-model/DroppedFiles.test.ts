@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { DroppedFiles } from './DroppedFiles'
+
+// jsdom does not have the file system entries API, so these stand in for what the browser gives a drop event
+function create_file_entry (file: File): FileSystemEntry {
+  return {
+    isFile: true,
+    isDirectory: false,
+    name: file.name,
+    file: (on_success: (file: File) => void) => { on_success(file) }
+  } as unknown as FileSystemEntry
+}
+
+// directory readers return their entries in batches, and an empty batch when they are done
+function create_directory_entry (name: string, entry_batches: FileSystemEntry[][]): FileSystemEntry {
+  return {
+    isFile: false,
+    isDirectory: true,
+    name,
+    createReader: () => {
+      const remaining_batches: FileSystemEntry[][] = [...entry_batches]
+      return {
+        readEntries: (on_success: (entries: FileSystemEntry[]) => void) => { on_success(remaining_batches.shift() ?? []) }
+      }
+    }
+  } as unknown as FileSystemEntry
+}
+
+function create_data_transfer (entries: Array<FileSystemEntry | null>, files: File[] = []): DataTransfer {
+  return {
+    items: entries.map((entry: FileSystemEntry | null) => ({ webkitGetAsEntry: () => entry })),
+    files
+  } as unknown as DataTransfer
+}
+
+describe('DroppedFiles', () => {
+  describe('get_files_from_data_transfer', () => {
+    it('should read dropped files and the files in dropped folders, including nested folders', async () => {
+      const gltf_file = new File(['{}'], 'scene.gltf')
+      const bin_file = new File([''], 'scene.bin')
+      const diffuse_file = new File([''], 'diffuse.png')
+      const normal_file = new File([''], 'normal.png')
+
+      const textures_folder: FileSystemEntry = create_directory_entry('textures', [[create_file_entry(diffuse_file)], [create_file_entry(normal_file)]])
+      const model_folder: FileSystemEntry = create_directory_entry('model', [[create_file_entry(bin_file), textures_folder]])
+      const data_transfer: DataTransfer = create_data_transfer([create_file_entry(gltf_file), model_folder])
+
+      const files: File[] = await DroppedFiles.get_files_from_data_transfer(data_transfer)
+
+      expect(files.map((file: File) => file.name)).toEqual(['scene.gltf', 'scene.bin', 'diffuse.png', 'normal.png'])
+    })
+
+    it('should use the top level files when the browser does not have the entries API', async () => {
+      const glb_file = new File([''], 'model.glb')
+
+      const files: File[] = await DroppedFiles.get_files_from_data_transfer(create_data_transfer([null], [glb_file]))
+
+      expect(files).toHaveLength(1)
+      expect(files[0]).toBe(glb_file)
+    })
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * Reads the files out of a drop event. Folders are read recursively so a whole
+ * model folder can be dropped at once
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class DroppedFiles {
+  public static async get_files_from_data_transfer (data_transfer: DataTransfer): Promise<File[]> {
+    const entries: FileSystemEntry[] = []
+    for (const item of Array.from(data_transfer.items)) {
+      const entry: FileSystemEntry | null = item.webkitGetAsEntry()
+      if (entry !== null) entries.push(entry)
+    }
+
+    // browsers without the entries API only give us the top level files
+    if (entries.length === 0) {
+      return Array.from(data_transfer.files)
+    }
+
+    const files_per_entry: File[][] = await Promise.all(entries.map(async entry => await this.read_file_system_entry(entry)))
+    return ([] as File[]).concat(...files_per_entry)
+  }
+
+  private static async read_file_system_entry (entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+      return await new Promise((resolve, reject) => {
+        (entry as FileSystemFileEntry).file((file: File) => { resolve([file]) }, reject)
+      })
+    }
+
+    // directory readers return results in batches, so keep reading until we get an empty batch
+    const directory_reader = (entry as FileSystemDirectoryEntry).createReader()
+    const child_entries: FileSystemEntry[] = []
+    let batch: FileSystemEntry[] = []
+    do {
+      batch = await new Promise((resolve, reject) => {
+        directory_reader.readEntries(resolve, reject)
+      })
+      child_entries.push(...batch)
+    } while (batch.length > 0)
+
+    const files_per_entry: File[][] = await Promise.all(child_entries.map(async child => await this.read_file_system_entry(child)))
+    return ([] as File[]).concat(...files_per_entry)
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { Vector3 } from 'three'
+import { ExistingArmature } from './ExistingArmature'
+import { StepLoadModel } from './StepLoadModel'
+import { Utility } from '../../Utilities'
+import { create_rigged_triangle_glb, create_spine_armature } from '../../test-helpers/TestRigs'
+
+describe('ExistingArmature', () => {
+  let load_model_step: StepLoadModel
+
+  beforeEach(() => {
+    load_model_step = new StepLoadModel()
+  })
+
+  describe('map_to_skeleton', () => {
+    it('should map the rig of a skinned model onto the skeleton template bones', async () => {
+      load_model_step.set_target_height(4)
+      await load_model_step.load_model_file(create_rigged_triangle_glb(), 'glb')
+
+      const existing_armature = load_model_step.get_existing_armature()
+      expect(existing_armature?.bone_count).toBe(3)
+      expect(existing_armature?.is_mixamo).toBe(false)
+      expect(existing_armature?.bone_positions.get('DEF-spine001')?.y).toBeCloseTo(3) // scaled with the model
+
+      const [armature, spine_bone, head_bone] = create_spine_armature()
+      const bone_positions: Map<string, Vector3> = existing_armature !== null
+        ? ExistingArmature.map_to_skeleton(existing_armature, armature)
+        : new Map<string, Vector3>()
+      expect(Array.from(bone_positions.keys()).sort()).toEqual(['DEF-hips', 'DEF-spine001'])
+
+      expect(Utility.fit_armature_to_bone_positions(armature, bone_positions)).toBe(2)
+      expect(spine_bone.getWorldPosition(new Vector3()).y).toBeCloseTo(3)
+      expect(head_bone.getWorldPosition(new Vector3()).y).toBeCloseTo(3.3) // no match, so it keeps its offset
+    })
+  })
+})
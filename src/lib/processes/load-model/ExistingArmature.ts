@@ -0,0 +1,105 @@
+import { type Bone, Matrix4, type Object3D, type SkinnedMesh, Vector3 } from 'three'
+import { BoneAutoMapper } from '../../../retarget/bone-automap/BoneAutoMapper.ts'
+import { MixamoMapper } from '../../../retarget/bone-automap/MixamoMapper.ts'
+import { TargetBoneMappingType } from '../../../retarget/steps/StepBoneMapping.ts'
+
+export interface ExistingArmatureData {
+  skinned_mesh: SkinnedMesh // the bone automapper reads the rig bone names and hierarchy from this
+  bone_count: number
+  is_mixamo: boolean
+  // bind pose position of each rig bone, in the same space as the loaded mesh data
+  bone_positions: Map<string, Vector3>
+}
+
+/**
+ * Models rigged somewhere else (Mixamo, Rigify, etc.) already know where their joints are.
+ * The rig is read before the skinned meshes are converted to regular meshes, then mapped onto
+ * the selected skeleton template with the bone automapper from the retargeting page
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class ExistingArmature {
+  // fewer bones than this is more likely a prop attached to a bone than a character rig
+  private static readonly minimum_bone_count: number = 3
+
+  /**
+   * @returns null when the model has no usable rig
+   */
+  public static read_armature (model_data: Object3D): ExistingArmatureData | null {
+    // skinned meshes of one character share the skeleton, so the first one is enough
+    const skinned_meshes: SkinnedMesh[] = []
+    model_data.traverse((child: Object3D) => {
+      if (child.type === 'SkinnedMesh') {
+        skinned_meshes.push(child as SkinnedMesh)
+      }
+    })
+
+    const rig_mesh: SkinnedMesh | undefined = skinned_meshes[0]
+    if (rig_mesh === undefined || rig_mesh.skeleton.bones.length < this.minimum_bone_count) {
+      return null
+    }
+
+    // the skinned mesh becomes a regular mesh that uses the geometry as is, so bone positions
+    // are put in geometry space. The inverse bind matrices give the bind pose even if the model was saved posed
+    const bone_positions = new Map<string, Vector3>()
+    const bind_matrix = new Matrix4()
+    rig_mesh.skeleton.bones.forEach((bone: Bone, index: number) => {
+      bind_matrix.copy(rig_mesh.skeleton.boneInverses[index]).invert().premultiply(rig_mesh.bindMatrixInverse)
+      bone_positions.set(bone.name, new Vector3().setFromMatrixPosition(bind_matrix))
+    })
+
+    const bone_names: string[] = rig_mesh.skeleton.bones.map((bone: Bone) => bone.name)
+    return {
+      skinned_mesh: rig_mesh,
+      bone_count: bone_names.length,
+      is_mixamo: MixamoMapper.is_target_valid_skeleton(bone_names),
+      bone_positions
+    }
+  }
+
+  /**
+   * Maps the rig bones onto a skeleton template
+   * @returns position for each skeleton template bone that was matched, by template bone name
+   */
+  public static map_to_skeleton (existing_armature: ExistingArmatureData, skeleton_armature: Object3D): Map<string, Vector3> {
+    const bone_mappings: Map<string, string> = this.map_bone_names(existing_armature, skeleton_armature)
+
+    const skeleton_bone_positions = new Map<string, Vector3>()
+    bone_mappings.forEach((skeleton_bone_name: string, rig_bone_name: string) => {
+      const position: Vector3 | undefined = existing_armature.bone_positions.get(rig_bone_name)
+      if (position !== undefined) {
+        skeleton_bone_positions.set(skeleton_bone_name, position.clone())
+      }
+    })
+    return skeleton_bone_positions
+  }
+
+  /**
+   * Which skeleton template bone each rig bone's skin weights go to. Rig bones that were not matched
+   * (twist bones, extra fingers, etc.) use the bone their closest matched parent went to
+   * @returns rig bone name -> skeleton template bone name
+   */
+  public static skin_bone_correspondence (existing_armature: ExistingArmatureData, skeleton_armature: Object3D): Map<string, string> {
+    const bone_mappings: Map<string, string> = this.map_bone_names(existing_armature, skeleton_armature)
+    const rig_bones: Bone[] = existing_armature.skinned_mesh.skeleton.bones
+
+    const correspondence = new Map<string, string>()
+    rig_bones.forEach((rig_bone: Bone) => {
+      let bone: Object3D | null = rig_bone
+      while (bone !== null && bone.type === 'Bone') {
+        const skeleton_bone_name: string | undefined = bone_mappings.get(bone.name)
+        if (skeleton_bone_name !== undefined) {
+          correspondence.set(rig_bone.name, skeleton_bone_name)
+          return
+        }
+        bone = bone.parent
+      }
+    })
+    return correspondence
+  }
+
+  // rig bone name -> skeleton template bone name
+  private static map_bone_names (existing_armature: ExistingArmatureData, skeleton_armature: Object3D): Map<string, string> {
+    const mapping_type: TargetBoneMappingType = existing_armature.is_mixamo ? TargetBoneMappingType.Mixamo : TargetBoneMappingType.Custom
+    return BoneAutoMapper.map_armature_bones(skeleton_armature, existing_armature.skinned_mesh, mapping_type)
+  }
+}
@@ -1,5 +1,9 @@
-import { Box3, Group, type Object3DEventMap, type Object3D, Scene, Mesh, MeshPhongMaterial, type SkinnedMesh } from 'three'
+import {
+  Box3, Group, type Object3DEventMap, type Object3D, Scene, Mesh, MeshPhongMaterial, type SkinnedMesh, type Bone,
+  type BufferAttribute, type BufferGeometry, type InterleavedBufferAttribute, Matrix3, Matrix4, Vector3
+} from 'three'
 import { FrontSide } from 'three/src/constants.js'
+import { ModelUnitSystem } from '../../enums/ModelUnitSystem.ts'
 
 /**
  * Utility helpers to clean up and normalize loaded model geometry.
@@ -20,37 +24,67 @@ export class ModelCleanupUtility {
     return bounding_box
   }
 
-  public static scale_model_on_import_if_extreme (scene_object: Scene | Group<Object3DEventMap>): void {
-    let scale_factor = 1.0
+  /**
+   * Scales the model to meters, which is what the skeletons and animations use
+   * @param target_height optional height in meters. Overrides the unit system when set
+   * @returns scale factor that was applied. Divide by this to get back to the original size
+   */
+  public static scale_model_on_import (scene_object: Scene | Group<Object3DEventMap>,
+    unit_system: ModelUnitSystem, target_height: number | null): number {
+    const scale_factor = this.calculate_import_scale_factor(scene_object, unit_system, target_height)
+    if (scale_factor === 1.0) {
+      return scale_factor
+    }
+
+    scene_object.traverse((child) => {
+      const child_obj = child as Mesh
+      if (child_obj.geometry) {
+        console.log('Scaling mesh:', child_obj, ' by factor of ', scale_factor)
+        this.transform_geometry(child_obj.geometry, new Matrix4().makeScale(scale_factor, scale_factor, scale_factor))
+        child_obj.geometry.computeBoundingBox()
+        child_obj.geometry.computeBoundingSphere()
+      }
+    })
+
+    return scale_factor
+  }
 
+  private static calculate_import_scale_factor (scene_object: Scene | Group<Object3DEventMap>,
+    unit_system: ModelUnitSystem, target_height: number | null): number {
     const bounding_box = this.calculate_bounding_box(scene_object)
     const height = bounding_box.max.y - bounding_box.min.y
+
+    if (target_height !== null && target_height > 0 && height > 0) {
+      return target_height / height
+    }
+
+    switch (unit_system) {
+      case ModelUnitSystem.Meters:
+        return 1.0
+      case ModelUnitSystem.Centimeters:
+        return 0.01
+      case ModelUnitSystem.Inches:
+        return 0.0254
+    }
+
+    // auto: only scale models that are very large or small, since we can't know the units
     const width = bounding_box.max.x - bounding_box.min.x
     const depth = bounding_box.max.z - bounding_box.min.z
-
     const largest_dimension = Math.max(height, width, depth)
 
     if (largest_dimension > 0.5 && largest_dimension < 8) {
       console.log('Model a reasonable size, so no scaling applied: ', bounding_box, ' units is bounding box')
-      return
-    } else {
-      console.log('Model is very large or small, so scaling applied: ', bounding_box, ' units is bounding box')
+      return 1.0
     }
 
-    scale_factor = 1.5 / height
-
-    scene_object.traverse((child) => {
-      const child_obj = child as Mesh
-      if (child_obj.geometry) {
-        console.log('Scaling mesh:', child_obj, ' by factor of ', scale_factor)
-        child_obj.geometry.scale(scale_factor, scale_factor, scale_factor)
-        child_obj.geometry.computeBoundingBox()
-        child_obj.geometry.computeBoundingSphere()
-      }
-    })
+    console.log('Model is very large or small, so scaling applied: ', bounding_box, ' units is bounding box')
+    return 1.5 / height
   }
 
-  public static move_model_to_floor (mesh_data: Scene | Group<Object3DEventMap>): void {
+  /**
+   * @returns how far the model was moved up
+   */
+  public static move_model_to_floor (mesh_data: Scene | Group<Object3DEventMap>): number {
     let final_lowest_point = 0
     mesh_data.traverse((obj: Object3D) => {
       if (obj.type === 'Mesh') {
@@ -68,11 +102,74 @@ export class ModelCleanupUtility {
         const mesh_obj: Mesh = obj as Mesh
 
         const offset = final_lowest_point * -1
-        mesh_obj.geometry.translate(0, offset, 0)
+        this.transform_geometry(mesh_obj.geometry, new Matrix4().makeTranslation(0, offset, 0))
         mesh_obj.geometry.computeBoundingBox()
         mesh_obj.geometry.computeBoundingSphere()
       }
     })
+
+    return final_lowest_point * -1
+  }
+
+  /**
+   * BufferGeometry.applyMatrix4() only transforms the base attributes. Morph targets need the
+   * same transform, or blend shapes get stretched in the wrong direction after rotating or scaling.
+   * Relative morph targets are offsets from the base shape, so they are not translated
+   */
+  public static transform_geometry (geometry: BufferGeometry, matrix: Matrix4): void {
+    geometry.applyMatrix4(matrix)
+
+    const linear_matrix = new Matrix3().setFromMatrix4(matrix)
+    const normal_matrix = new Matrix3().getNormalMatrix(matrix)
+    const vector = new Vector3()
+
+    const transform_vectors = (attribute: BufferAttribute | InterleavedBufferAttribute, transform: () => void): void => {
+      for (let i = 0; i < attribute.count; i++) {
+        vector.fromBufferAttribute(attribute, i)
+        transform()
+        attribute.setXYZ(i, vector.x, vector.y, vector.z)
+      }
+      attribute.needsUpdate = true
+    }
+
+    geometry.morphAttributes.position?.forEach((morph_position) => {
+      transform_vectors(morph_position, () => {
+        if (geometry.morphTargetsRelative) {
+          vector.applyMatrix3(linear_matrix)
+        } else {
+          vector.applyMatrix4(matrix)
+        }
+      })
+    })
+
+    // relative normals are offsets too, so they are not normalized
+    geometry.morphAttributes.normal?.forEach((morph_normal) => {
+      transform_vectors(morph_normal, () => {
+        vector.applyMatrix3(normal_matrix)
+        if (!geometry.morphTargetsRelative) {
+          vector.normalize()
+        }
+      })
+    })
+
+    geometry.computeBoundingBox()
+    geometry.computeBoundingSphere()
+  }
+
+  /**
+   * Blend shape names are stored in the mesh morphTargetDictionary, which is lost when a new mesh
+   * is created from the geometry. New meshes rebuild the dictionary from the morph attribute names
+   */
+  public static store_morph_target_names (mesh: Mesh): void {
+    if (mesh.morphTargetDictionary === undefined) return
+
+    for (const [morph_name, morph_index] of Object.entries(mesh.morphTargetDictionary)) {
+      for (const morph_attributes of Object.values(mesh.geometry.morphAttributes)) {
+        if (morph_attributes[morph_index] !== undefined) {
+          morph_attributes[morph_index].name = morph_name
+        }
+      }
+    }
   }
 
   public static strip_out_all_unecessary_model_data (model_data: Scene, model_display_name: string, debug_model_loading: boolean): Scene {
@@ -82,7 +179,13 @@ export class ModelCleanupUtility {
     model_data.traverse((child) => {
       let new_mesh: Mesh
 
+      if (child.type === 'SkinnedMesh' || child.type === 'Mesh') {
+        this.store_morph_target_names(child as Mesh)
+      }
+
       if (child.type === 'SkinnedMesh') {
+        // the skin indices point into the skeleton, so keep its bone names for transferring the weights later
+        (child as SkinnedMesh).geometry.userData.skin_bone_names = (child as SkinnedMesh).skeleton.bones.map((bone: Bone) => bone.name)
         new_mesh = new Mesh((child as SkinnedMesh).geometry, (child as SkinnedMesh).material)
         new_mesh.name = child.name
         new_scene.add(new_mesh)
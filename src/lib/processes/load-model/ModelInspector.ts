@@ -0,0 +1,136 @@
+import { type Material, type Mesh, type Texture, Vector3 } from 'three'
+import { Utility } from '../../Utilities.ts'
+
+export interface MeshInspectorData {
+  name: string
+  vertex_count: number
+  triangle_count: number
+  material_names: string[]
+  texture_names: string[]
+  size: Vector3 // bounding box dimensions
+  included: boolean
+}
+
+export interface ModelInspectorTotals {
+  objects_count: number
+  vertex_count: number
+  triangle_count: number
+}
+
+/**
+ * Lists every mesh of the loaded model with its stats, so users can see what came in with the file.
+ * Meshes can be excluded with a checkbox, which is useful to get rid of ground planes or reference images.
+ * Dispatches a 'mesh-inclusion-changed' event with the mesh index and included state when a checkbox changes
+ */
+export class ModelInspector extends EventTarget {
+  private readonly summary_element: HTMLElement | null = null
+  private readonly mesh_list_container: HTMLElement | null = null
+
+  constructor (summary_element_id: string, mesh_list_container_id: string) {
+    super()
+    this.summary_element = document.querySelector(`#${summary_element_id}`)
+    this.mesh_list_container = document.querySelector(`#${mesh_list_container_id}`)
+    this.setup_checkbox_listener()
+  }
+
+  /**
+   * Gathers what the inspector shows about a mesh
+   */
+  public static create_mesh_data (mesh: Mesh, triangle_count: number, included: boolean): MeshInspectorData {
+    const materials: Material[] = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+
+    mesh.geometry.computeBoundingBox()
+    const size = new Vector3()
+    mesh.geometry.boundingBox?.getSize(size)
+
+    return {
+      name: mesh.name !== '' ? mesh.name : mesh.geometry.name,
+      vertex_count: mesh.geometry.attributes.position.count,
+      triangle_count,
+      material_names: materials.map((material: Material) => material.name !== '' ? material.name : material.type),
+      texture_names: ([] as string[]).concat(...materials.map((material: Material) => ModelInspector.get_texture_names(material))),
+      size,
+      included
+    }
+  }
+
+  /**
+   * Textures are stored on materials in slots like "map" and "normalMap".
+   * Many textures do not have a name, so the slot name is shown for those
+   */
+  private static get_texture_names (material: Material): string[] {
+    const texture_names: string[] = []
+    for (const [slot_name, value] of Object.entries(material)) {
+      if ((value as Texture | null)?.isTexture === true) {
+        const texture = value as Texture
+        texture_names.push(texture.name !== '' ? `${texture.name} (${slot_name})` : slot_name)
+      }
+    }
+    return texture_names
+  }
+
+  public render (mesh_data_list: MeshInspectorData[], totals: ModelInspectorTotals): void {
+    if (this.summary_element !== null) {
+      this.summary_element.innerHTML =
+        `${totals.objects_count} meshes &middot; ${totals.vertex_count.toLocaleString()} vertices &middot; ${totals.triangle_count.toLocaleString()} triangles`
+    }
+
+    if (this.mesh_list_container === null) {
+      return
+    }
+
+    this.mesh_list_container.innerHTML = ''
+    mesh_data_list.forEach((mesh_data: MeshInspectorData, index: number) => {
+      if (this.mesh_list_container === null) {
+        return
+      }
+
+      const checked_attribute: string = mesh_data.included ? 'checked' : ''
+      const size_text: string = `${mesh_data.size.x.toFixed(2)} x ${mesh_data.size.y.toFixed(2)} x ${mesh_data.size.z.toFixed(2)}`
+      const texture_text: string = mesh_data.texture_names.length > 0 ? mesh_data.texture_names.join(', ') : 'None'
+
+      this.mesh_list_container.innerHTML +=
+        `<div class="model-inspector-item">
+            <label class="styled-checkbox">
+                <input type="checkbox" value="${index}" ${checked_attribute}>
+                <span>${Utility.escape_html(mesh_data.name !== '' ? mesh_data.name : `Mesh ${index + 1}`)}</span>
+            </label>
+            <div class="model-inspector-details">
+                <span>${mesh_data.vertex_count.toLocaleString()} vertices &middot; ${mesh_data.triangle_count.toLocaleString()} triangles</span>
+                <span>Materials: ${Utility.escape_html(mesh_data.material_names.join(', '))}</span>
+                <span>Textures: ${Utility.escape_html(texture_text)}</span>
+                <span>Size: ${size_text}</span>
+            </div>
+        </div>`
+    })
+  }
+
+  /**
+   * Used when a change is not allowed, like excluding the last mesh
+   */
+  public set_mesh_checkbox (index: number, included: boolean): void {
+    const checkbox: HTMLInputElement | null | undefined =
+      this.mesh_list_container?.querySelector(`input[type="checkbox"][value="${index}"]`)
+    if (checkbox !== null && checkbox !== undefined) {
+      checkbox.checked = included
+    }
+  }
+
+  private setup_checkbox_listener (): void {
+    if (this.mesh_list_container === null) {
+      return
+    }
+
+    // the list is rebuilt often, so listen on the container instead of each checkbox
+    this.mesh_list_container.addEventListener('change', (event: Event) => {
+      const target = event.target as HTMLInputElement
+      if (target.type !== 'checkbox') {
+        return
+      }
+
+      this.dispatchEvent(new CustomEvent('mesh-inclusion-changed', {
+        detail: { index: parseInt(target.value), included: target.checked }
+      }))
+    })
+  }
+}
@@ -0,0 +1,31 @@
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode.ts'
+
+export interface ModelLoadResult {
+  code: ModelLoadResultCode
+  message: string
+  missing_files: string[] // textures or other dependencies that could not be found
+  remapped_files: FileRemap[] // dependencies that were found under a different path than the model references
+}
+
+export interface FileRemap {
+  reference: string // path written in the model file
+  resolved_path: string // file that was used instead
+}
+
+/**
+ * Thrown by the model loaders when we know exactly why a load failed.
+ * Anything else that is thrown while loading is treated as a corrupt file
+ */
+export class ModelLoadError extends Error {
+  public readonly code: ModelLoadResultCode
+
+  constructor (code: ModelLoadResultCode, message: string) {
+    super(message)
+    this.name = 'ModelLoadError'
+    this.code = code
+  }
+}
+
+export function is_model_loaded (result: ModelLoadResult): boolean {
+  return result.code === ModelLoadResultCode.Success || result.code === ModelLoadResultCode.MissingTextures
+}
@@ -0,0 +1,371 @@
+import { type BufferGeometry, MathUtils, Vector3 } from 'three'
+
+export type RotationAxis = 'x' | 'y' | 'z'
+
+export interface ModelRotation {
+  axis: RotationAxis
+  angle: number // degrees
+}
+
+export interface ModelOrientation {
+  up_axis: string // like '+Y' or '-Z'
+  facing_axis: string // direction the front of the model points, like '+Z'
+  rotations: ModelRotation[] // rotations that make the model Y-up and facing +Z. Empty if it already is
+}
+
+/**
+ * Guesses how a loaded model is oriented, so models exported Z-up or facing backwards can be fixed with one click.
+ * Uses a few signals from the vertex positions:
+ *  - Symmetry plane: characters are mirrored left to right. That axis cannot be up or forward
+ *  - Principal axes: a model much longer along one axis than the others is usually standing along it
+ *  - Footprint: the bottom of a model lying down covers most of what it covers seen from above. Standing models only have feet there
+ *  - Head/feet mass: heads, hands and faces have more detail than feet, so the top half has more vertices
+ *  - Feet direction: toes point forward, so the feet sit a bit in front of the lower legs
+ * These are guesses, so the result is only offered to the user and never applied automatically
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class ModelOrientationAnalyzer {
+  // vertices that are read from the model. Plenty for the statistics and keeps large models fast
+  private static readonly max_sample_points = 30000
+
+  // resolution of the voxel grid used for the symmetry test
+  private static readonly symmetry_grid_resolution = 32
+
+  // how much longer the main axis needs to be than the next one to count as standing along it
+  private static readonly elongation_threshold = 1.5
+
+  // a model lying down is thinner than this along Y compared to its height
+  private static readonly lying_flat_threshold = 0.3
+
+  // the bottom part of the model that is compared with the footprint to see if it is lying down
+  private static readonly bottom_slice_height = 0.4
+  private static readonly footprint_grid_resolution = 16
+
+  // the bottom of a model lying down covers more than this part of its footprint
+  private static readonly lying_footprint_threshold = 0.4
+
+  // a Y-up model with less than this part of its vertices in the top half is upside down
+  private static readonly upside_down_upper_share = 0.4
+
+  // lowest part of a standing model, where the feet are
+  private static readonly feet_slice_height = 0.05
+
+  // feet need to be this far in front of the lower legs (relative to model height) to detect facing
+  private static readonly feet_offset_threshold = 0.02
+
+  public static analyze (geometry_list: BufferGeometry[]): ModelOrientation {
+    const points: Vector3[] = this.sample_points(geometry_list)
+    const rotations: ModelRotation[] = []
+    if (points.length === 0) {
+      return { up_axis: '+Y', facing_axis: '+Z', rotations }
+    }
+
+    // 1. find the up axis and rotate the points so it is +Y
+    const up_axis: string = this.detect_up_axis(points)
+    const up_rotation: ModelRotation | null = this.rotation_to_y_up(up_axis)
+    if (up_rotation !== null) {
+      rotations.push(up_rotation)
+      this.rotate_points(points, up_rotation)
+    }
+
+    // 2. find the facing direction now that the model is standing up
+    const facing_axis: string = this.detect_facing_axis(points)
+    const facing_rotation: ModelRotation | null = this.rotation_to_face_z(facing_axis)
+    if (facing_rotation !== null) {
+      rotations.push(facing_rotation)
+    }
+
+    return { up_axis, facing_axis, rotations }
+  }
+
+  private static sample_points (geometry_list: BufferGeometry[]): Vector3[] {
+    const total_vertices: number = geometry_list.reduce((total, geometry) => total + geometry.attributes.position.count, 0)
+    const stride: number = Math.max(1, Math.ceil(total_vertices / this.max_sample_points))
+
+    const points: Vector3[] = []
+    geometry_list.forEach((geometry: BufferGeometry) => {
+      const position_attribute = geometry.attributes.position
+      for (let i = 0; i < position_attribute.count; i += stride) {
+        points.push(new Vector3().fromBufferAttribute(position_attribute, i))
+      }
+    })
+    return points
+  }
+
+  private static detect_up_axis (points: Vector3[]): string {
+    const up_axis: RotationAxis = this.find_up_axis(points, this.find_symmetry_axis(points))
+
+    // head/feet: heads, faces and hands have more detail, so the top half has more of the vertices.
+    // Models are expected to be Y-up, so they are only upside down if the bottom half clearly has more
+    const center: number = this.bounding_center(points, up_axis)
+    const upper_share: number = points.filter((point: Vector3) => point[up_axis] >= center).length / points.length
+    const min_upper_share: number = up_axis === 'y' ? this.upside_down_upper_share : 0.5
+    const sign: string = upper_share >= min_upper_share ? '+' : '-'
+    return sign + up_axis.toUpperCase()
+  }
+
+  /**
+   * Models are expected to be Y-up, so another axis is only picked if the model is clearly lying down
+   */
+  private static find_up_axis (points: Vector3[], symmetry_axis: RotationAxis): RotationAxis {
+    // mirrored top to bottom is not something characters do, so there is nothing to go on
+    if (symmetry_axis === 'y') {
+      return 'y'
+    }
+
+    // the model is longest along its height. T-poses are about as wide as they are tall, so the
+    // principal axis might not be clear. Use the axis that is not left/right in that case
+    const principal_axis: RotationAxis | null = this.find_elongated_principal_axis(points)
+    const candidate_axis: RotationAxis = principal_axis !== null && principal_axis !== 'y' && principal_axis !== symmetry_axis
+      ? principal_axis
+      : (symmetry_axis === 'x' ? 'z' : 'x')
+
+    return this.is_lying_along_axis(points, candidate_axis) ? candidate_axis : 'y'
+  }
+
+  /**
+   * Standing models (even long and flat ones like dragons) only touch the floor with their feet and tail,
+   * so the bottom of the model covers a small part of its footprint seen from above.
+   * A model lying down is thin along Y and the bottom of it covers most of its footprint
+   */
+  private static is_lying_along_axis (points: Vector3[], axis: RotationAxis): boolean {
+    if (this.bounding_size(points, 'y') > this.bounding_size(points, axis) * this.lying_flat_threshold) {
+      return false
+    }
+
+    const { min: min_y, max: max_y } = this.bounding_range(points, 'y')
+    const bottom_points: Vector3[] = points.filter((point: Vector3) => point.y <= min_y + (max_y - min_y) * this.bottom_slice_height)
+    return this.footprint_cell_count(bottom_points, points) > this.footprint_cell_count(points, points) * this.lying_footprint_threshold
+  }
+
+  /**
+   * Number of cells the points cover in a grid on the floor (XZ plane) around the whole model
+   */
+  private static footprint_cell_count (points: Vector3[], all_points: Vector3[]): number {
+    const { min: min_x } = this.bounding_range(all_points, 'x')
+    const { min: min_z } = this.bounding_range(all_points, 'z')
+    const cell_size: number = Math.max(this.bounding_size(all_points, 'x'), this.bounding_size(all_points, 'z'), Number.EPSILON) /
+      this.footprint_grid_resolution
+
+    const occupied_cells = new Set<string>()
+    points.forEach((point: Vector3) => {
+      occupied_cells.add(`${Math.floor((point.x - min_x) / cell_size)},${Math.floor((point.z - min_z) / cell_size)}`)
+    })
+    return occupied_cells.size
+  }
+
+  private static detect_facing_axis (points: Vector3[]): string {
+    // the forward axis is the horizontal axis that is not the left/right symmetry axis
+    const forward_axis: RotationAxis = this.symmetry_score(points, 'x') >= this.symmetry_score(points, 'z') ? 'z' : 'x'
+
+    // toes point forward, so the feet sit in front of the lower legs
+    const { min: min_y, max: max_y } = this.bounding_range(points, 'y')
+    const height: number = Math.max(max_y - min_y, Number.EPSILON)
+    const feet_points: Vector3[] = points.filter((point: Vector3) => point.y <= min_y + height * this.feet_slice_height)
+    const shin_points: Vector3[] = points.filter((point: Vector3) => point.y >= min_y + height * 0.15 && point.y <= min_y + height * 0.25)
+    if (feet_points.length === 0 || shin_points.length === 0) {
+      return '+Z'
+    }
+
+    const feet_offset: number = (this.average(feet_points, forward_axis) - this.average(shin_points, forward_axis)) / height
+
+    // not enough of a signal, so assume it is already facing forward
+    if (forward_axis === 'z' && Math.abs(feet_offset) < this.feet_offset_threshold) {
+      return '+Z'
+    }
+
+    const sign: string = feet_offset < 0 ? '-' : '+'
+    return sign + forward_axis.toUpperCase()
+  }
+
+  private static average (points: Vector3[], axis: RotationAxis): number {
+    return points.reduce((total: number, point: Vector3) => total + point[axis], 0) / points.length
+  }
+
+  /**
+   * Left/right axis. Mirroring the model across this axis gives back the same shape
+   */
+  private static find_symmetry_axis (points: Vector3[]): RotationAxis {
+    const axes: RotationAxis[] = ['x', 'y', 'z']
+    return axes.reduce((best_axis: RotationAxis, axis: RotationAxis) =>
+      this.symmetry_score(points, axis) > this.symmetry_score(points, best_axis) ? axis : best_axis)
+  }
+
+  /**
+   * Puts points in a voxel grid and checks how many occupied voxels also have their mirrored voxel occupied
+   * @returns 0 to 1. 1 is a perfect mirror
+   */
+  private static symmetry_score (points: Vector3[], axis: RotationAxis): number {
+    const min = new Vector3(Infinity, Infinity, Infinity)
+    const max = new Vector3(-Infinity, -Infinity, -Infinity)
+    points.forEach((point: Vector3) => {
+      min.min(point)
+      max.max(point)
+    })
+
+    const size: Vector3 = max.clone().sub(min)
+    const cell_size: number = Math.max(size.x, size.y, size.z, Number.EPSILON) / this.symmetry_grid_resolution
+    const cells_along_axis: number = Math.floor(size[axis] / cell_size)
+
+    const occupied = new Set<string>()
+    points.forEach((point: Vector3) => {
+      occupied.add(this.voxel_key(point, min, cell_size, axis, cells_along_axis, false))
+    })
+
+    let mirrored_count = 0
+    points.forEach((point: Vector3) => {
+      if (occupied.has(this.voxel_key(point, min, cell_size, axis, cells_along_axis, true))) {
+        mirrored_count++
+      }
+    })
+
+    return mirrored_count / points.length
+  }
+
+  private static voxel_key (point: Vector3, min: Vector3, cell_size: number,
+    mirror_axis: RotationAxis, cells_along_axis: number, mirrored: boolean): string {
+    const cell_x: number = Math.floor((point.x - min.x) / cell_size)
+    const cell_y: number = Math.floor((point.y - min.y) / cell_size)
+    const cell_z: number = Math.floor((point.z - min.z) / cell_size)
+    const cell = { x: cell_x, y: cell_y, z: cell_z }
+    if (mirrored) {
+      cell[mirror_axis] = cells_along_axis - cell[mirror_axis]
+    }
+    return `${cell.x},${cell.y},${cell.z}`
+  }
+
+  /**
+   * Principal axes come from the covariance of the points. The largest one is the direction the model is longest in.
+   * @returns world axis closest to the largest principal axis, or null if the model is not clearly longer in one direction
+   */
+  private static find_elongated_principal_axis (points: Vector3[]): RotationAxis | null {
+    const mean = new Vector3()
+    points.forEach((point: Vector3) => mean.add(point))
+    mean.divideScalar(points.length)
+
+    const covariance: number[] = [0, 0, 0, 0, 0, 0, 0, 0, 0]
+    const offset = new Vector3()
+    points.forEach((point: Vector3) => {
+      offset.subVectors(point, mean)
+      const values: number[] = [offset.x, offset.y, offset.z]
+      for (let row = 0; row < 3; row++) {
+        for (let column = 0; column < 3; column++) {
+          covariance[row * 3 + column] += values[row] * values[column] / points.length
+        }
+      }
+    })
+
+    const { eigenvalues, eigenvectors } = this.symmetric_eigen_decomposition(covariance)
+    const order: number[] = [0, 1, 2].sort((a, b) => eigenvalues[b] - eigenvalues[a])
+
+    // eigenvalues are variance, so compare the square roots to get a ratio of lengths
+    const elongation: number = Math.sqrt(eigenvalues[order[0]] / Math.max(eigenvalues[order[1]], Number.EPSILON))
+    if (elongation < this.elongation_threshold) {
+      return null
+    }
+
+    const principal_axis: Vector3 = eigenvectors[order[0]]
+    const components: number[] = [Math.abs(principal_axis.x), Math.abs(principal_axis.y), Math.abs(principal_axis.z)]
+    const axes: RotationAxis[] = ['x', 'y', 'z']
+    return axes[components.indexOf(Math.max(...components))]
+  }
+
+  /**
+   * Jacobi eigenvalue method for a 3x3 symmetric matrix (row-major).
+   * Each step rotates away the largest off-diagonal value until the matrix is diagonal
+   * @returns eigenvalues and the matching eigenvectors
+   */
+  private static symmetric_eigen_decomposition (matrix: number[]): { eigenvalues: number[], eigenvectors: Vector3[] } {
+    let a: number[] = matrix.slice()
+    let v: number[] = [1, 0, 0, 0, 1, 0, 0, 0, 1]
+
+    for (let step = 0; step < 50; step++) {
+      let p = 0
+      let q = 1
+      if (Math.abs(a[2]) > Math.abs(a[p * 3 + q])) { p = 0; q = 2 }
+      if (Math.abs(a[5]) > Math.abs(a[p * 3 + q])) { p = 1; q = 2 }
+      if (Math.abs(a[p * 3 + q]) < 1e-12) break
+
+      const theta: number = (a[q * 3 + q] - a[p * 3 + p]) / (2 * a[p * 3 + q])
+      const t: number = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+      const c: number = 1 / Math.sqrt(t * t + 1)
+      const s: number = t * c
+
+      const rotation: number[] = [1, 0, 0, 0, 1, 0, 0, 0, 1]
+      rotation[p * 3 + p] = c
+      rotation[q * 3 + q] = c
+      rotation[p * 3 + q] = s
+      rotation[q * 3 + p] = -s
+
+      a = this.multiply_3x3(this.multiply_3x3(this.transpose_3x3(rotation), a), rotation)
+      v = this.multiply_3x3(v, rotation)
+    }
+
+    return {
+      eigenvalues: [a[0], a[4], a[8]],
+      eigenvectors: [0, 1, 2].map((column: number) => new Vector3(v[column], v[3 + column], v[6 + column]))
+    }
+  }
+
+  private static multiply_3x3 (left: number[], right: number[]): number[] {
+    const result: number[] = [0, 0, 0, 0, 0, 0, 0, 0, 0]
+    for (let row = 0; row < 3; row++) {
+      for (let column = 0; column < 3; column++) {
+        for (let k = 0; k < 3; k++) {
+          result[row * 3 + column] += left[row * 3 + k] * right[k * 3 + column]
+        }
+      }
+    }
+    return result
+  }
+
+  private static transpose_3x3 (matrix: number[]): number[] {
+    return [matrix[0], matrix[3], matrix[6], matrix[1], matrix[4], matrix[7], matrix[2], matrix[5], matrix[8]]
+  }
+
+  private static bounding_range (points: Vector3[], axis: RotationAxis): { min: number, max: number } {
+    let min = Infinity
+    let max = -Infinity
+    points.forEach((point: Vector3) => {
+      min = Math.min(min, point[axis])
+      max = Math.max(max, point[axis])
+    })
+    return { min, max }
+  }
+
+  private static bounding_size (points: Vector3[], axis: RotationAxis): number {
+    const { min, max } = this.bounding_range(points, axis)
+    return max - min
+  }
+
+  private static bounding_center (points: Vector3[], axis: RotationAxis): number {
+    const { min, max } = this.bounding_range(points, axis)
+    return (min + max) / 2
+  }
+
+  private static rotation_to_y_up (up_axis: string): ModelRotation | null {
+    switch (up_axis) {
+      case '+Z': return { axis: 'x', angle: -90 }
+      case '-Z': return { axis: 'x', angle: 90 }
+      case '+X': return { axis: 'z', angle: 90 }
+      case '-X': return { axis: 'z', angle: -90 }
+      case '-Y': return { axis: 'x', angle: 180 }
+      default: return null
+    }
+  }
+
+  private static rotation_to_face_z (facing_axis: string): ModelRotation | null {
+    switch (facing_axis) {
+      case '-Z': return { axis: 'y', angle: 180 }
+      case '+X': return { axis: 'y', angle: -90 }
+      case '-X': return { axis: 'y', angle: 90 }
+      default: return null
+    }
+  }
+
+  private static rotate_points (points: Vector3[], rotation: ModelRotation): void {
+    const axis_vector = new Vector3(rotation.axis === 'x' ? 1 : 0, rotation.axis === 'y' ? 1 : 0, rotation.axis === 'z' ? 1 : 0)
+    const radians: number = MathUtils.degToRad(rotation.angle)
+    points.forEach((point: Vector3) => point.applyAxisAngle(axis_vector, radians))
+  }
+}
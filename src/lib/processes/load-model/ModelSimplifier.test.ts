@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { type BufferGeometry, PlaneGeometry } from 'three'
+import { ModelSimplifier } from './ModelSimplifier'
+
+/**
+ * 1x1 plane with 800 triangles. The top half of the triangles uses material 0 and the bottom half material 1
+ */
+function create_two_material_plane (): BufferGeometry {
+  const geometry = new PlaneGeometry(1, 1, 20, 20)
+  const index_count: number = geometry.index?.count ?? 0
+  geometry.addGroup(0, index_count / 2, 0)
+  geometry.addGroup(index_count / 2, index_count / 2, 1)
+  return geometry
+}
+
+describe('ModelSimplifier', () => {
+  describe('simplify_geometry', () => {
+    it('should get the triangle count under the budget', () => {
+      const geometry: BufferGeometry = create_two_material_plane()
+      expect(ModelSimplifier.count_triangles(geometry)).toBe(800)
+
+      const simplified_geometry: BufferGeometry = ModelSimplifier.simplify_geometry(geometry, 200)
+      const triangle_count: number = ModelSimplifier.count_triangles(simplified_geometry)
+      expect(triangle_count).toBeLessThanOrEqual(200)
+      expect(triangle_count).toBeGreaterThan(50) // uses most of the budget
+    })
+
+    it('should keep the UV coordinates lined up with the positions', () => {
+      const simplified_geometry: BufferGeometry = ModelSimplifier.simplify_geometry(create_two_material_plane(), 200)
+      const position = simplified_geometry.attributes.position
+      const uv = simplified_geometry.attributes.uv
+      expect(uv.count).toBe(position.count)
+
+      // the plane UVs go from 0 to 1 across the plane, so averaging clusters keeps them on the same spot
+      for (let i = 0; i < position.count; i++) {
+        expect(uv.getX(i)).toBeCloseTo(position.getX(i) + 0.5, 5)
+        expect(uv.getY(i)).toBeCloseTo(position.getY(i) + 0.5, 5)
+      }
+    })
+
+    it('should keep the triangles in their material groups', () => {
+      const simplified_geometry: BufferGeometry = ModelSimplifier.simplify_geometry(create_two_material_plane(), 200)
+      const groups = simplified_geometry.groups
+      expect(groups.map(group => group.materialIndex)).toEqual([0, 1])
+      expect(groups[0].start).toBe(0)
+      expect(groups[1].start).toBe(groups[0].count)
+      expect(groups[0].count + groups[1].count).toBe(simplified_geometry.index?.count)
+
+      // material 0 is on the top half of the plane, and material 1 on the bottom half
+      const position = simplified_geometry.attributes.position
+      const index = simplified_geometry.index
+      groups.forEach((group) => {
+        for (let i = group.start; i < group.start + group.count; i += 3) {
+          const center_y: number = (position.getY(index?.getX(i) ?? 0) + position.getY(index?.getX(i + 1) ?? 0) + position.getY(index?.getX(i + 2) ?? 0)) / 3
+          expect(group.materialIndex === 0 ? center_y > -0.1 : center_y < 0.1).toBe(true)
+        }
+      })
+    })
+
+    it('should return geometry that is already under the budget as-is', () => {
+      const geometry: BufferGeometry = create_two_material_plane()
+      expect(ModelSimplifier.simplify_geometry(geometry, 800)).toBe(geometry)
+    })
+  })
+
+  describe('simplify_geometry_list', () => {
+    it('should leave the list alone when the whole model is under the budget', () => {
+      const geometry_list: BufferGeometry[] = [create_two_material_plane(), create_two_material_plane()]
+      expect(ModelSimplifier.simplify_geometry_list(geometry_list, 1600)).toBe(geometry_list)
+    })
+
+    it('should split the budget between the geometry based on their triangle counts', () => {
+      const small_geometry = new PlaneGeometry(1, 1, 10, 10) // 200 triangles
+      const large_geometry: BufferGeometry = create_two_material_plane() // 800 triangles
+      const simplified_list: BufferGeometry[] = ModelSimplifier.simplify_geometry_list([small_geometry, large_geometry], 500)
+
+      expect(ModelSimplifier.count_triangles(simplified_list[0])).toBeLessThanOrEqual(100)
+      expect(ModelSimplifier.count_triangles(simplified_list[1])).toBeLessThanOrEqual(400)
+      expect(ModelSimplifier.count_triangles_in_list(simplified_list)).toBeLessThanOrEqual(500)
+    })
+  })
+})
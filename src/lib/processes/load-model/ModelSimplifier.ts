@@ -0,0 +1,266 @@
+import { Box3, BufferAttribute, BufferGeometry, type InterleavedBufferAttribute, Vector3 } from 'three'
+
+/**
+ * Reduces the triangle count of high-poly models so the skinning solvers can handle them.
+ * Uses vertex clustering: vertices that fall in the same grid cell are merged together.
+ * This runs in linear time, which matters since the models that need this are the ones with
+ * hundreds of thousands of vertices. UV coordinates are part of the cell lookup, so UV seams
+ * stay intact and textures keep lining up. Material groups and existing skin weights are kept as well
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class ModelSimplifier {
+  // the grid resolution is searched between these values to get as close as possible to the triangle budget
+  private static readonly min_grid_resolution = 2
+  private static readonly max_grid_resolution = 4096
+
+  static count_triangles (geometry: BufferGeometry): number {
+    if (geometry.index !== null) {
+      return geometry.index.count / 3
+    }
+    return geometry.attributes.position.count / 3
+  }
+
+  static count_triangles_in_list (geometry_list: BufferGeometry[]): number {
+    return geometry_list.reduce((total, geometry) => total + this.count_triangles(geometry), 0)
+  }
+
+  /**
+   * Simplifies all the geometry so the total triangle count fits in the budget.
+   * The budget is split between the geometries based on how many triangles each one has
+   * @returns new geometry list. Geometry that is already under budget is returned as-is
+   */
+  static simplify_geometry_list (geometry_list: BufferGeometry[], triangle_budget: number): BufferGeometry[] {
+    const total_triangles: number = this.count_triangles_in_list(geometry_list)
+    if (total_triangles <= triangle_budget) {
+      return geometry_list
+    }
+
+    return geometry_list.map((geometry: BufferGeometry) => {
+      const geometry_budget: number = Math.floor(triangle_budget * this.count_triangles(geometry) / total_triangles)
+      return this.simplify_geometry(geometry, geometry_budget)
+    })
+  }
+
+  static simplify_geometry (geometry: BufferGeometry, target_triangles: number): BufferGeometry {
+    if (this.count_triangles(geometry) <= target_triangles) {
+      return geometry
+    }
+
+    const index_array: ArrayLike<number> = this.get_index_array(geometry)
+
+    // binary search for the finest grid that still fits in the budget
+    let low: number = this.min_grid_resolution
+    let high: number = this.max_grid_resolution
+    let best_clusters: Int32Array = this.cluster_vertices(geometry, low)
+    while (low <= high) {
+      const resolution: number = Math.floor((low + high) / 2)
+      const clusters: Int32Array = this.cluster_vertices(geometry, resolution)
+      if (this.count_remaining_triangles(index_array, clusters) <= target_triangles) {
+        best_clusters = clusters
+        low = resolution + 1
+      } else {
+        high = resolution - 1
+      }
+    }
+
+    return this.build_simplified_geometry(geometry, index_array, best_clusters)
+  }
+
+  private static get_index_array (geometry: BufferGeometry): ArrayLike<number> {
+    if (geometry.index !== null) {
+      return geometry.index.array
+    }
+
+    // non-indexed geometry. every 3 vertices is a triangle
+    const sequential_index = new Uint32Array(geometry.attributes.position.count)
+    for (let i = 0; i < sequential_index.length; i++) {
+      sequential_index[i] = i
+    }
+    return sequential_index
+  }
+
+  /**
+   * Puts each vertex in a grid cell. The UV coordinates get their own grid at the same resolution
+   * so vertices on both sides of a UV seam end up in different clusters
+   * @returns cluster id for each vertex
+   */
+  private static cluster_vertices (geometry: BufferGeometry, grid_resolution: number): Int32Array {
+    const position_attribute = geometry.attributes.position
+    const uv_attribute = geometry.attributes.uv
+
+    const bounding_box = new Box3().setFromBufferAttribute(position_attribute as BufferAttribute)
+    const size = new Vector3()
+    bounding_box.getSize(size)
+    const cell_size: number = Math.max(size.x, size.y, size.z, Number.EPSILON) / grid_resolution
+
+    const cluster_ids = new Int32Array(position_attribute.count)
+    const cluster_lookup = new Map<string, number>()
+
+    for (let i = 0; i < position_attribute.count; i++) {
+      const cell_x: number = Math.floor((position_attribute.getX(i) - bounding_box.min.x) / cell_size)
+      const cell_y: number = Math.floor((position_attribute.getY(i) - bounding_box.min.y) / cell_size)
+      const cell_z: number = Math.floor((position_attribute.getZ(i) - bounding_box.min.z) / cell_size)
+      let cell_key = `${cell_x},${cell_y},${cell_z}`
+
+      if (uv_attribute !== undefined) {
+        cell_key += `,${Math.floor(uv_attribute.getX(i) * grid_resolution)},${Math.floor(uv_attribute.getY(i) * grid_resolution)}`
+      }
+
+      let cluster_id: number | undefined = cluster_lookup.get(cell_key)
+      if (cluster_id === undefined) {
+        cluster_id = cluster_lookup.size
+        cluster_lookup.set(cell_key, cluster_id)
+      }
+      cluster_ids[i] = cluster_id
+    }
+
+    return cluster_ids
+  }
+
+  // triangles where two or more corners end up in the same cluster collapse and are removed
+  private static is_collapsed_triangle (a: number, b: number, c: number): boolean {
+    return a === b || b === c || a === c
+  }
+
+  private static count_remaining_triangles (index_array: ArrayLike<number>, clusters: Int32Array): number {
+    let triangle_count = 0
+    for (let i = 0; i < index_array.length; i += 3) {
+      if (!this.is_collapsed_triangle(clusters[index_array[i]], clusters[index_array[i + 1]], clusters[index_array[i + 2]])) {
+        triangle_count++
+      }
+    }
+    return triangle_count
+  }
+
+  /**
+   * Each cluster becomes one vertex with the average of all the attributes that went into it.
+   * Skin weights are combined instead, since bone indices can't be averaged
+   */
+  private static build_simplified_geometry (geometry: BufferGeometry, index_array: ArrayLike<number>, clusters: Int32Array): BufferGeometry {
+    let cluster_count = 0
+    for (let i = 0; i < clusters.length; i++) {
+      cluster_count = Math.max(cluster_count, clusters[i] + 1)
+    }
+
+    const vertices_per_cluster = new Uint32Array(cluster_count)
+    for (let i = 0; i < clusters.length; i++) {
+      vertices_per_cluster[clusters[i]]++
+    }
+
+    const simplified_geometry = new BufferGeometry()
+    simplified_geometry.name = geometry.name
+    simplified_geometry.userData = { ...geometry.userData } // has the bone names the skin indices point to
+
+    for (const attribute_name of Object.keys(geometry.attributes)) {
+      if (attribute_name === 'skinIndex' || attribute_name === 'skinWeight') continue
+      simplified_geometry.setAttribute(attribute_name,
+        this.average_attribute(geometry.attributes[attribute_name], clusters, cluster_count, vertices_per_cluster))
+    }
+
+    const skin_index_attribute = geometry.attributes.skinIndex
+    const skin_weight_attribute = geometry.attributes.skinWeight
+    if (skin_index_attribute !== undefined && skin_weight_attribute !== undefined) {
+      const [skin_indices, skin_weights] = this.combine_skin_weights(skin_index_attribute, skin_weight_attribute, clusters, cluster_count)
+      simplified_geometry.setAttribute('skinIndex', skin_indices)
+      simplified_geometry.setAttribute('skinWeight', skin_weights)
+    }
+
+    // blend shapes are averaged the same way, so they still line up with the simplified vertices
+    for (const attribute_name of ['position', 'normal', 'color'] as const) {
+      const morph_attributes = geometry.morphAttributes[attribute_name]
+      if (morph_attributes === undefined) continue
+      simplified_geometry.morphAttributes[attribute_name] = morph_attributes.map((morph_attribute) =>
+        this.average_attribute(morph_attribute, clusters, cluster_count, vertices_per_cluster))
+    }
+    simplified_geometry.morphTargetsRelative = geometry.morphTargetsRelative
+
+    // rebuild the index, keeping the material groups in place
+    const new_index: number[] = []
+    const groups = geometry.groups.length > 0
+      ? geometry.groups
+      : [{ start: 0, count: index_array.length, materialIndex: 0 }]
+
+    for (const group of groups) {
+      const group_start: number = new_index.length
+      const group_end: number = Math.min(group.start + group.count, index_array.length)
+      for (let i = group.start; i < group_end; i += 3) {
+        const a: number = clusters[index_array[i]]
+        const b: number = clusters[index_array[i + 1]]
+        const c: number = clusters[index_array[i + 2]]
+        if (!this.is_collapsed_triangle(a, b, c)) {
+          new_index.push(a, b, c)
+        }
+      }
+
+      if (geometry.groups.length > 0) {
+        simplified_geometry.addGroup(group_start, new_index.length - group_start, group.materialIndex)
+      }
+    }
+
+    simplified_geometry.setIndex(new_index)
+
+    // averaged normals are shorter than 1 unit, so they need to be normalized again
+    if (simplified_geometry.attributes.normal !== undefined) {
+      simplified_geometry.normalizeNormals()
+    }
+
+    simplified_geometry.computeBoundingBox()
+    simplified_geometry.computeBoundingSphere()
+    return simplified_geometry
+  }
+
+  /**
+   * The weights of each bone are added up over all the vertices in a cluster, then the 4 strongest bones are kept
+   * and scaled back up to 1.0. This keeps the dominant influences of the original skinning
+   */
+  private static combine_skin_weights (skin_index_attribute: BufferAttribute | InterleavedBufferAttribute,
+    skin_weight_attribute: BufferAttribute | InterleavedBufferAttribute, clusters: Int32Array,
+    cluster_count: number): [BufferAttribute, BufferAttribute] {
+    const cluster_bone_weights: Array<Map<number, number>> = Array.from({ length: cluster_count }, () => new Map<number, number>())
+    for (let i = 0; i < skin_index_attribute.count; i++) {
+      const bone_weights: Map<number, number> = cluster_bone_weights[clusters[i]]
+      for (let influence = 0; influence < skin_index_attribute.itemSize; influence++) {
+        const weight: number = skin_weight_attribute.getComponent(i, influence)
+        if (weight <= 0) continue
+        const bone_index: number = skin_index_attribute.getComponent(i, influence)
+        bone_weights.set(bone_index, (bone_weights.get(bone_index) ?? 0) + weight)
+      }
+    }
+
+    const skin_indices = new Uint16Array(cluster_count * 4)
+    const skin_weights = new Float32Array(cluster_count * 4)
+    cluster_bone_weights.forEach((bone_weights: Map<number, number>, cluster_id: number) => {
+      const strongest_bones: Array<[number, number]> = Array.from(bone_weights.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 4)
+      const total_weight: number = strongest_bones.reduce((sum: number, [, weight]) => sum + weight, 0)
+      strongest_bones.forEach(([bone_index, weight], influence: number) => {
+        skin_indices[cluster_id * 4 + influence] = bone_index
+        skin_weights[cluster_id * 4 + influence] = weight / total_weight
+      })
+    })
+
+    return [new BufferAttribute(skin_indices, 4), new BufferAttribute(skin_weights, 4)]
+  }
+
+  private static average_attribute (attribute: BufferAttribute | InterleavedBufferAttribute, clusters: Int32Array,
+    cluster_count: number, vertices_per_cluster: Uint32Array): BufferAttribute {
+    const item_size: number = attribute.itemSize
+    const averaged_values = new Float32Array(cluster_count * item_size)
+
+    for (let i = 0; i < attribute.count; i++) {
+      const cluster_offset: number = clusters[i] * item_size
+      for (let component = 0; component < item_size; component++) {
+        averaged_values[cluster_offset + component] += attribute.getComponent(i, component)
+      }
+    }
+
+    for (let i = 0; i < averaged_values.length; i++) {
+      averaged_values[i] /= vertices_per_cluster[Math.floor(i / item_size)]
+    }
+
+    const averaged_attribute = new BufferAttribute(averaged_values, item_size)
+    averaged_attribute.name = attribute.name
+    return averaged_attribute
+  }
+}
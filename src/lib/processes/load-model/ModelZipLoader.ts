@@ -1,12 +1,17 @@
 import JSZip from 'jszip'
 
 import { CustomGLTFLoader } from './CustomGLTFLoader'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFLoaderFactory } from '../../GLTFLoaderFactory'
 import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js'
 import { CustomDAELoader } from './CustomDAELoader'
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { CustomOBJLoader } from './CustomOBJLoader'
+import { LoadingManager, type Object3D } from 'three'
+import { ModelLoadError, type FileRemap } from './ModelLoadResult'
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode'
 
 // things that might be in the ZIP file
-export type ModelFormat = 'gltf' | 'dae' | 'unknown'
+export type ModelFormat = 'gltf' | 'dae' | 'obj' | 'unknown'
 
 export interface ZipModelInfo {
   format: ModelFormat
@@ -14,6 +19,12 @@ export interface ZipModelInfo {
   fileData: ArrayBuffer
 }
 
+export interface ZipModelLoadResult {
+  scene: Object3D
+  missing_files: string[] // files the model references that were not in the ZIP
+  remapped_files: FileRemap[] // files the model references that were found under a different path
+}
+
 export class ModelZipLoader {
   /**
    * Unzips and analyzes a ZIP file buffer, returning model file info and format.
@@ -25,7 +36,7 @@ export class ModelZipLoader {
     const file_names = Object.keys(zip.files)
     const model_file = this.findModelFile(file_names)
     if (model_file == null || model_file === '') {
-      throw new Error('No supported model file found in ZIP')
+      throw new ModelLoadError(ModelLoadResultCode.MissingModelFile, 'No supported model file found in ZIP')
     }
     const format = this.detectFormat(model_file)
     const file_data = await zip.files[model_file].async('arraybuffer')
@@ -34,50 +45,57 @@ export class ModelZipLoader {
 
   /**
    * Loads a model from a ZIP buffer using the appropriate loader and returns the loaded object.
+   * Each loader gets its own loading manager so the in-memory URL lookups do not leak into other loaders
    * @param buffer - ZIP file as ArrayBuffer
-   * @returns Promise<Object3D> - The loaded model object
+   * @returns Promise<ZipModelLoadResult> - The loaded model object and any files that could not be found
    */
-  public async loadModelFromZip (buffer: ArrayBuffer): Promise<any> {
+  public async loadModelFromZip (buffer: ArrayBuffer): Promise<ZipModelLoadResult> {
     const info = await this.analyzeZip(buffer)
     switch (info.format) {
       case 'gltf': {
-        const gltf_loader_instance = new GLTFLoader()
+        const gltf_loader_instance = GLTFLoaderFactory.create_loader(new LoadingManager())
         const custom_gltf_loader = new CustomGLTFLoader(gltf_loader_instance)
         // Wrap callback in a Promise to return the loaded scene
         return await new Promise((resolve, reject) => {
           custom_gltf_loader.load_from_zip(
             buffer,
-            (scene) => { resolve(scene) },
+            (scene) => { resolve({ scene, missing_files: custom_gltf_loader.get_missing_files(), remapped_files: custom_gltf_loader.get_remapped_files() }) },
+            (err) => { reject(err) }
+          )
+        })
+      }
+      case 'obj': {
+        console.log('Using OBJ loader since OBJ file detected in ZIP')
+        // OBJ uses an external MTL file for materials, which then references texture files
+        const obj_loader_instance = new CustomOBJLoader(new OBJLoader(new LoadingManager()))
+        return await new Promise((resolve, reject) => {
+          void obj_loader_instance.load_from_zip(
+            buffer,
+            (scene) => { resolve({ scene, missing_files: obj_loader_instance.get_missing_files(), remapped_files: obj_loader_instance.get_remapped_files() }) },
             (err) => { reject(err) }
           )
         })
       }
-      // TODO: OBJ can use this too. They have external texture files
-      //   case 'obj': {
-      //     console.log('Using OBJ loader since OBJ file detected in ZIP')
-      //     const obj_loader = new CustomOBJLoader()
-      //     return await obj_loader.load_from_zip(buffer)
-      //   }
       case 'dae': {
         console.log('Using DAE loader since DAE file detected in ZIP')
         // use custom dae loader
-        const collada_loader_instance = new CustomDAELoader(new ColladaLoader())
+        const collada_loader_instance = new CustomDAELoader(new ColladaLoader(new LoadingManager()))
         return await new Promise((resolve, reject) => {
           collada_loader_instance.load_from_zip(
             buffer,
-            (scene) => { resolve(scene) },
+            (scene) => { resolve({ scene, missing_files: collada_loader_instance.get_missing_files(), remapped_files: collada_loader_instance.get_remapped_files() }) },
             (err) => { reject(err) }
           )
         })
       }
       default:
-        throw new Error('Unsupported model format')
+        throw new ModelLoadError(ModelLoadResultCode.UnsupportedExtension, 'Unsupported model format')
     }
   }
 
   private findModelFile (file_names: string[]): string | null {
-    // Prioritize GLTF, then DAE
-    const priorities = [/\.gltf$/i, /\.dae$/i]
+    // Prioritize GLTF, then DAE, then OBJ
+    const priorities = [/\.gltf$/i, /\.dae$/i, /\.obj$/i]
     for (const regex of priorities) {
       const found = file_names.find(name => regex.test(name))
       if (found != null && found !== '') return found
@@ -88,7 +106,7 @@ export class ModelZipLoader {
   private detectFormat (file_name: string): ModelFormat {
     if (/\.gltf$/i.test(file_name)) return 'gltf'
     if (/\.dae$/i.test(file_name)) return 'dae'
-    // if (/\.obj$/i.test(file_name)) return 'obj'
+    if (/\.obj$/i.test(file_name)) return 'obj'
     return 'unknown'
   }
 }
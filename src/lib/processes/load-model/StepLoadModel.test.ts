@@ -0,0 +1,426 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { StepLoadModel } from './StepLoadModel'
+import { Utility } from '../../Utilities'
+import { type ModelLoadResult } from './ModelLoadResult'
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode'
+import { ModelUnitSystem } from '../../enums/ModelUnitSystem'
+import { Bone, Box3, type Material, type Mesh, type MeshPhongMaterial, Object3D, SkinnedMesh, Vector3 } from 'three'
+import JSZip from 'jszip'
+import { create_glb, read_test_file, to_array_buffer } from '../../test-helpers/TestFiles'
+import { add_browser_file_apis } from '../../test-helpers/BrowserFileApis'
+
+function get_dialog_title (): string | null | undefined {
+  return document.querySelector('.modal-dialog-overlay h2')?.textContent
+}
+
+describe('StepLoadModel', () => {
+  let load_model_step: StepLoadModel
+
+  beforeEach(() => {
+    add_browser_file_apis()
+    load_model_step = new StepLoadModel()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    document.body.innerHTML = ''
+  })
+
+  describe('set_mesh_included', () => {
+    it('should leave excluded meshes out of skinning, but always keep one mesh', async () => {
+      await load_model_step.load_model_file(read_test_file('human-small.glb'), 'glb')
+      const mesh_count: number = load_model_step.get_mesh_inspector_data().length
+
+      for (let i = 0; i < mesh_count - 1; i++) {
+        expect(load_model_step.set_mesh_included(i, false)).toBe(true)
+      }
+      expect(load_model_step.set_mesh_included(mesh_count - 1, false)).toBe(false)
+
+      expect(load_model_step.models_geometry_list().length).toBe(1)
+      expect(load_model_step.models_material_list().length).toBe(1)
+      expect(load_model_step.models_welded_topology_list().length).toBe(1)
+      expect(load_model_step.get_mesh_inspector_data()[mesh_count - 1].included).toBe(true)
+    })
+  })
+
+  describe('import scaling', () => {
+    it('should scale the model by the unit system, or to the target height', async () => {
+      load_model_step.set_unit_system(ModelUnitSystem.Centimeters)
+      await load_model_step.load_model_file(read_test_file('human-small.glb'), 'glb')
+      expect(load_model_step.get_import_scale_factor()).toBe(0.01)
+
+      load_model_step.clear_loaded_model_data()
+      load_model_step.set_target_height(2)
+      await load_model_step.load_model_file(read_test_file('human-small.glb'), 'glb')
+
+      const model_size = new Box3().setFromObject(load_model_step.model_meshes()).getSize(new Vector3())
+      expect(model_size.y).toBeCloseTo(2, 3)
+      expect(load_model_step.get_import_scale_factor()).not.toBe(1)
+    })
+  })
+
+  describe('auto_orient_model', () => {
+    it('should stand a Z-up model back up', async () => {
+      await load_model_step.load_model_file(read_test_file('human-small.glb'), 'glb')
+      expect(load_model_step.analyze_model_orientation().rotations).toEqual([])
+
+      load_model_step.rotate_model_geometry('x', 90)
+      expect(load_model_step.analyze_model_orientation().up_axis).toBe('+Z')
+
+      load_model_step.auto_orient_model()
+      const orientation = load_model_step.analyze_model_orientation()
+      expect(orientation.up_axis).toBe('+Y')
+      expect(orientation.rotations).toEqual([])
+    })
+
+    it('should turn a model facing backwards around to face +Z', async () => {
+      await load_model_step.load_model_file(read_test_file('human-small.glb'), 'glb')
+      load_model_step.rotate_model_geometry('y', 180)
+
+      const backwards_orientation = load_model_step.analyze_model_orientation()
+      expect(backwards_orientation.up_axis).toBe('+Y')
+      expect(backwards_orientation.facing_axis).toBe('-Z')
+
+      load_model_step.auto_orient_model()
+      const orientation = load_model_step.analyze_model_orientation()
+      expect(orientation.facing_axis).toBe('+Z')
+      expect(orientation.rotations).toEqual([])
+    })
+
+    it('should turn an upside down model back over', async () => {
+      await load_model_step.load_model_file(read_test_file('human-small.glb'), 'glb')
+      load_model_step.rotate_model_geometry('x', 180)
+      expect(load_model_step.analyze_model_orientation().up_axis).toBe('-Y')
+
+      load_model_step.auto_orient_model()
+      const orientation = load_model_step.analyze_model_orientation()
+      expect(orientation.up_axis).toBe('+Y')
+      expect(orientation.rotations).toEqual([])
+    })
+  })
+
+  describe('load_model_file', () => {
+    it('should load a GLB file and dispatch modelLoaded', async () => {
+      const model_loaded_listener = vi.fn()
+      load_model_step.addEventListener('modelLoaded', model_loaded_listener)
+
+      const result: ModelLoadResult = await load_model_step.load_model_file(read_test_file('human-small.glb'), 'glb')
+
+      expect(result.code).toBe(ModelLoadResultCode.Success)
+      expect(model_loaded_listener).toHaveBeenCalledTimes(1)
+      expect(load_model_step.model_meshes().children.length).toBeGreaterThan(0)
+      expect(get_dialog_title()).toBeUndefined()
+    })
+
+    it('should weld split vertices of the loaded meshes for skinning', async () => {
+      await load_model_step.load_model_file(read_test_file('human-small.glb'), 'glb')
+
+      const geometry_list = load_model_step.models_geometry_list()
+      const welded_topology_list = load_model_step.models_welded_topology_list()
+      expect(welded_topology_list.length).toBe(geometry_list.length)
+
+      welded_topology_list.forEach((welded_topology, index) => {
+        const position = geometry_list[index].attributes.position
+        expect(welded_topology.original_vertex_count()).toBe(position.count)
+        expect(welded_topology.welded_vertex_count()).toBeLessThan(position.count) // the model has UV seams
+
+        // every vertex that shares a welded vertex is at the same position
+        const vertex_position = new Vector3()
+        const shared_position = new Vector3()
+        for (let i = 0; i < position.count; i++) {
+          const first_shared_vertex: number = welded_topology.get_shared_vertices(i)[0]
+          vertex_position.fromBufferAttribute(position, i)
+          shared_position.fromBufferAttribute(position, first_shared_vertex)
+          expect(vertex_position.distanceTo(shared_position)).toBeLessThanOrEqual(welded_topology.get_tolerance())
+        }
+      })
+    })
+
+    it('should weld the seam of a split quad within the weld tolerance', async () => {
+      // two triangles that do not share vertices. One copy of the top right corner is slightly off
+      const quad_positions = new Float32Array([0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 0, 0, 1, 1, 0.00005, 0, 1, 0])
+      const quad_gltf = {
+        asset: { version: '2.0' },
+        scene: 0,
+        scenes: [{ nodes: [0] }],
+        nodes: [{ mesh: 0, name: 'Quad' }],
+        meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+        buffers: [{ byteLength: quad_positions.byteLength }],
+        bufferViews: [{ buffer: 0, byteOffset: 0, byteLength: quad_positions.byteLength }],
+        accessors: [{ bufferView: 0, componentType: 5126, count: 6, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0.00005] }]
+      }
+      await load_model_step.load_model_file(create_glb(quad_gltf, quad_positions), 'glb')
+
+      const welded_topology = load_model_step.models_welded_topology_list()[0]
+      expect(welded_topology.welded_vertex_count()).toBe(4)
+      expect(welded_topology.get_shared_vertices(0)).toEqual([0, 3]) // bottom left corner
+      expect(welded_topology.get_shared_vertices(2)).toEqual([2, 4]) // top right corner
+      expect(welded_topology.get_shared_vertices(1)).toEqual([1])
+
+      // a smaller tolerance keeps the corner that is slightly off separate
+      load_model_step.set_weld_tolerance(0.00001)
+      const strict_welded_topology = load_model_step.models_welded_topology_list()[0]
+      expect(strict_welded_topology.welded_vertex_count()).toBe(5)
+      expect(strict_welded_topology.get_shared_vertices(2)).toEqual([2])
+    })
+
+    it('should load a GLTF + BIN + texture ZIP file', async () => {
+      const result: ModelLoadResult = await load_model_step.load_model_file(read_test_file('fox-model-GLTF-BIN.zip'), 'zip')
+
+      expect(result.code).toBe(ModelLoadResultCode.Success)
+      expect(result.missing_files).toEqual([])
+      expect(load_model_step.model_meshes().children.length).toBeGreaterThan(0)
+    })
+
+    it('should still load the model when a texture is missing from the ZIP file', async () => {
+      const model_loaded_listener = vi.fn()
+      load_model_step.addEventListener('modelLoaded', model_loaded_listener)
+
+      const result: ModelLoadResult = await load_model_step.load_model_file(read_test_file('fox-model-gltf-missing-texture.zip'), 'zip')
+
+      expect(result.code).toBe(ModelLoadResultCode.MissingTextures)
+      expect(result.missing_files).toContain('Image_0.png')
+      expect(model_loaded_listener).toHaveBeenCalledTimes(1)
+      expect(get_dialog_title()).toBe('Some files could not be found')
+    })
+
+    it('should find ZIP textures with a different case, slash style or folder, and report the remapped files', async () => {
+      const gltf_json = {
+        asset: { version: '2.0' },
+        scene: 0,
+        scenes: [{ nodes: [0] }],
+        nodes: [{ mesh: 0 }],
+        meshes: [{ primitives: [{ attributes: { POSITION: 0 }, material: 0 }] }],
+        materials: [{ pbrMetallicRoughness: { baseColorTexture: { index: 0 } }, normalTexture: { index: 1 } }],
+        textures: [{ source: 0 }, { source: 1 }],
+        images: [{ uri: 'textures\\Body_D.PNG' }, { uri: '<img src=x>.png' }],
+        buffers: [{ uri: 'scene.bin', byteLength: 36 }],
+        bufferViews: [{ buffer: 0, byteLength: 36 }],
+        accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }]
+      }
+      const zip = new JSZip()
+      zip.file('model/scene.gltf', JSON.stringify(gltf_json))
+      zip.file('model/scene.bin', new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]).buffer)
+      zip.file('Textures/body_d.png', new Uint8Array([137, 80, 78, 71]))
+      const zip_data: ArrayBuffer = await zip.generateAsync({ type: 'arraybuffer' })
+
+      const result: ModelLoadResult = await load_model_step.load_model_file(zip_data, 'zip')
+
+      expect(result.code).toBe(ModelLoadResultCode.MissingTextures)
+      expect(result.remapped_files).toEqual([{ reference: 'textures\\Body_D.PNG', resolved_path: 'Textures/body_d.png' }])
+      expect(result.missing_files).toEqual(['<img src=x>.png'])
+      expect(document.querySelector('.modal-dialog-overlay')?.textContent).toContain('Still missing')
+
+      // file names from the ZIP are shown as text, not markup
+      expect(document.querySelector('.modal-dialog-overlay')?.textContent).toContain('<img src=x>.png')
+      expect(document.querySelector('.modal-dialog-overlay img')).toBeNull()
+    })
+
+    it('should load an OBJ + MTL + texture ZIP file, finding the texture under a different path', async () => {
+      const zip = new JSZip()
+      zip.file('model/crate.obj', 'mtllib crate.mtl\nv 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl Wood\nf 1 2 3')
+      zip.file('model/crate.mtl', 'newmtl Wood\nKd 1 1 1\nmap_Kd textures\\Wood.PNG')
+      zip.file('model/textures/wood.png', new Uint8Array([137, 80, 78, 71]))
+      const zip_data: ArrayBuffer = to_array_buffer(await zip.generateAsync({ type: 'uint8array' }))
+
+      const result: ModelLoadResult = await load_model_step.load_model_file(zip_data, 'zip')
+
+      expect(result.code).toBe(ModelLoadResultCode.Success)
+      expect(result.missing_files).toEqual([])
+      expect(result.remapped_files).toEqual([{ reference: 'textures\\Wood.PNG', resolved_path: 'model/textures/wood.png' }])
+      const material = load_model_step.models_material_list()[0] as MeshPhongMaterial
+      expect(material.name).toBe('Wood')
+      expect(material.map).not.toBeNull()
+    })
+
+    it('should still load an OBJ ZIP file when a texture is missing', async () => {
+      const model_loaded_listener = vi.fn()
+      load_model_step.addEventListener('modelLoaded', model_loaded_listener)
+
+      const zip = new JSZip()
+      zip.file('crate.obj', 'mtllib crate.mtl\nv 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl Wood\nf 1 2 3')
+      zip.file('crate.mtl', 'newmtl Wood\nKd 1 1 1\nmap_Kd wood.png')
+      const zip_data: ArrayBuffer = to_array_buffer(await zip.generateAsync({ type: 'uint8array' }))
+
+      const result: ModelLoadResult = await load_model_step.load_model_file(zip_data, 'zip')
+
+      expect(result.code).toBe(ModelLoadResultCode.MissingTextures)
+      expect(result.missing_files).toEqual(['wood.png'])
+      expect(model_loaded_listener).toHaveBeenCalledTimes(1)
+      expect(get_dialog_title()).toBe('Some files could not be found')
+    })
+
+    it('should keep a material for each geometry group of a multi-material mesh', async () => {
+      // two quads in one object, each using a different material
+      const obj_text: string = [
+        'mtllib two-materials.mtl', 'o Panels',
+        'v 0 0 0', 'v 1 0 0', 'v 1 1 0', 'v 0 1 0', 'v 2 0 0', 'v 2 1 0',
+        'usemtl Red', 'f 1 2 3 4',
+        'usemtl Blue', 'f 2 5 6 3'
+      ].join('\n')
+      const mtl_text: string = 'newmtl Red\nKd 1 0 0\nnewmtl Blue\nKd 0 0 1'
+
+      const zip = new JSZip()
+      zip.file('two-materials.obj', obj_text)
+      zip.file('two-materials.mtl', mtl_text)
+      const zip_data: ArrayBuffer = to_array_buffer(await zip.generateAsync({ type: 'uint8array' }))
+
+      const result: ModelLoadResult = await load_model_step.load_model_file(zip_data, 'zip')
+      expect(result.code).toBe(ModelLoadResultCode.Success)
+
+      const materials = load_model_step.models_material_list()[0] as Material[]
+      expect(Array.isArray(materials)).toBe(true)
+      expect(materials.map((material: Material) => material.name)).toEqual(['Red', 'Blue'])
+      expect(load_model_step.models_geometry_list()[0].groups.length).toBe(2)
+    })
+
+    it('should keep blend shape names and rotate blend shapes with the model', async () => {
+      // one triangle with a "Smile" morph target that moves the top vertex up
+      const buffer_values = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0.5, 0])
+      const morph_gltf = {
+        asset: { version: '2.0' },
+        scene: 0,
+        scenes: [{ nodes: [0] }],
+        nodes: [{ mesh: 0, name: 'Face' }],
+        meshes: [{ primitives: [{ attributes: { POSITION: 0 }, targets: [{ POSITION: 1 }] }], extras: { targetNames: ['Smile'] } }],
+        buffers: [{ byteLength: buffer_values.byteLength }],
+        bufferViews: [{ buffer: 0, byteOffset: 0, byteLength: 36 }, { buffer: 0, byteOffset: 36, byteLength: 36 }],
+        accessors: [
+          { bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] },
+          { bufferView: 1, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [0, 0.5, 0] }
+        ]
+      }
+
+      await load_model_step.load_model_file(create_glb(morph_gltf, buffer_values), 'glb')
+      load_model_step.rotate_model_geometry('z', 90)
+
+      const geometry = load_model_step.models_geometry_list()[0]
+      expect(new SkinnedMesh(geometry).morphTargetDictionary).toEqual({ Smile: 0 })
+
+      // the smile offset pointed up, and now points along -X after rotating around Z
+      const smile_offset = geometry.morphAttributes.position?.[0]
+      expect(smile_offset?.getX(2)).toBeCloseTo(-0.5)
+      expect(smile_offset?.getY(2)).toBeCloseTo(0)
+    })
+
+    it('should read the humanoid bones from a VRM file and fit the human rig to them', async () => {
+      const buffer_values = new Float32Array([-0.2, 0, 0, 0.2, 0, 0, 0, 1.6, 0])
+      const vrm_gltf = {
+        asset: { version: '2.0' },
+        extensionsUsed: ['VRMC_vrm'],
+        extensions: { VRMC_vrm: { specVersion: '1.0', humanoid: { humanBones: { hips: { node: 1 }, spine: { node: 2 }, neck: { node: 3 } } } } },
+        scene: 0,
+        scenes: [{ nodes: [0, 1] }],
+        nodes: [
+          { mesh: 0, name: 'Body' },
+          { name: 'J_Bip_C_Hips', translation: [0, 1, 0], children: [2] },
+          { name: 'J_Bip_C_Spine', translation: [0, 0.1, 0], children: [3] },
+          { name: 'J_Bip_C_Neck', translation: [0, 0.4, 0] }
+        ],
+        meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+        buffers: [{ byteLength: buffer_values.byteLength }],
+        bufferViews: [{ buffer: 0, byteOffset: 0, byteLength: 36 }],
+        accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [-0.2, 0, 0], max: [0.2, 1.6, 0] }]
+      }
+
+      const result: ModelLoadResult = await load_model_step.load_model_file(create_glb(vrm_gltf, buffer_values), 'vrm')
+      expect(result.code).toBe(ModelLoadResultCode.Success)
+
+      const vrm_humanoid = load_model_step.get_vrm_humanoid()
+      expect(vrm_humanoid?.spec_version).toBe('1.0')
+      expect(vrm_humanoid?.bone_positions.get('DEF-hips')?.y).toBeCloseTo(1)
+      expect(vrm_humanoid?.bone_positions.get('DEF-neck')?.y).toBeCloseTo(1.5)
+      expect(vrm_humanoid?.bone_positions.get('DEF-spine002')?.y).toBeCloseTo(1.1 + 0.4 / 3) // chest is optional in VRM
+
+      // a small part of the human rig
+      const armature = new Object3D()
+      const hips_bone = new Bone()
+      hips_bone.name = 'DEF-hips'
+      const spine_bone = new Bone()
+      spine_bone.name = 'DEF-spine001'
+      spine_bone.position.set(0, 0.2, 0)
+      armature.add(hips_bone)
+      hips_bone.add(spine_bone)
+
+      expect(Utility.fit_armature_to_bone_positions(armature, vrm_humanoid?.bone_positions ?? new Map<string, Vector3>())).toBe(2)
+      expect(spine_bone.getWorldPosition(new Vector3()).y).toBeCloseTo(1.1)
+    })
+
+    it('should load STL and PLY files, keeping vertex colors and generating missing normals', async () => {
+      const ply_text: string = [
+        'ply', 'format ascii 1.0', 'element vertex 3',
+        'property float x', 'property float y', 'property float z',
+        'property uchar red', 'property uchar green', 'property uchar blue',
+        'element face 1', 'property list uchar int vertex_indices', 'end_header',
+        '0 0 0 255 0 0', '1 0 0 255 0 0', '0 1 0 255 0 0', '3 0 1 2'
+      ].join('\n')
+      const ply_result: ModelLoadResult = await load_model_step.load_model_file(to_array_buffer(new TextEncoder().encode(ply_text)), 'ply')
+
+      expect(ply_result.code).toBe(ModelLoadResultCode.Success)
+      const ply_mesh = load_model_step.model_meshes().children[0] as Mesh
+      expect(ply_mesh.geometry.attributes.color).toBeDefined()
+      expect(ply_mesh.geometry.attributes.normal).toBeDefined()
+      expect((ply_mesh.material as MeshPhongMaterial).vertexColors).toBe(true)
+
+      const stl_text = 'solid triangle\nfacet normal 0 0 1\nouter loop\nvertex 0 0 0\nvertex 1 0 0\nvertex 0 1 0\nendloop\nendfacet\nendsolid triangle'
+      const stl_result: ModelLoadResult = await load_model_step.load_model_file(to_array_buffer(new TextEncoder().encode(stl_text)), 'stl')
+
+      expect(stl_result.code).toBe(ModelLoadResultCode.Success)
+      expect((load_model_step.model_meshes().children[0] as Mesh).geometry.attributes.normal).toBeDefined()
+    })
+
+    it('should load a single OBJ file with default materials, and report its MTL file as missing', async () => {
+      const obj_text = 'mtllib crate.mtl\nv 0 0 0\nv 1 0 0\nv 0 1 0\nusemtl Wood\nf 1 2 3'
+      const result: ModelLoadResult = await load_model_step.load_model_file(to_array_buffer(new TextEncoder().encode(obj_text)), 'obj')
+
+      expect(result.code).toBe(ModelLoadResultCode.MissingTextures)
+      expect(result.missing_files).toEqual(['crate.mtl'])
+      expect((load_model_step.model_meshes().children[0] as Mesh).geometry.attributes.normal).toBeDefined()
+      expect(get_dialog_title()).toBe('Some files could not be found')
+    })
+
+    it('should ask for the model file when only a file it depends on is picked', async () => {
+      const result: ModelLoadResult = await load_model_step.load_model_file(to_array_buffer(new Uint8Array([137, 80, 78, 71])), 'png')
+
+      expect(result.code).toBe(ModelLoadResultCode.MissingModelFile)
+      expect(result.message).toContain('Select them together with the model file')
+      expect(get_dialog_title()).toBe('No model file found')
+    })
+
+    it('should report a ZIP file that has no model file in it', async () => {
+      const result: ModelLoadResult = await load_model_step.load_model_file(read_test_file('fox-model-missing-gltf.zip'), 'zip')
+
+      expect(result.code).toBe(ModelLoadResultCode.MissingModelFile)
+      expect(get_dialog_title()).toBe('No model file found')
+    })
+
+    it('should report corrupt file data', async () => {
+      const corrupt_data: ArrayBuffer = to_array_buffer(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]))
+
+      const glb_result: ModelLoadResult = await load_model_step.load_model_file(corrupt_data, 'glb')
+      const zip_result: ModelLoadResult = await load_model_step.load_model_file(corrupt_data, 'zip')
+
+      expect(glb_result.code).toBe(ModelLoadResultCode.CorruptFile)
+      expect(zip_result.code).toBe(ModelLoadResultCode.CorruptFile)
+      expect(get_dialog_title()).toBe('Error loading model')
+    })
+
+    it('should report a model that has no meshes', async () => {
+      const empty_gltf = { asset: { version: '2.0' }, scene: 0, scenes: [{ nodes: [0] }], nodes: [{ name: 'Empty' }] }
+      const gltf_data: ArrayBuffer = to_array_buffer(new TextEncoder().encode(JSON.stringify(empty_gltf)))
+
+      const result: ModelLoadResult = await load_model_step.load_model_file(gltf_data, 'gltf')
+
+      expect(result.code).toBe(ModelLoadResultCode.NoMeshes)
+      expect(get_dialog_title()).toBe('Error loading model')
+    })
+
+    it('should report unsupported file extensions', async () => {
+      const result: ModelLoadResult = await load_model_step.load_model_file(new ArrayBuffer(8), 'txt')
+
+      expect(result.code).toBe(ModelLoadResultCode.UnsupportedExtension)
+      expect(result.message).toContain('.txt')
+      expect(get_dialog_title()).toBe('Unsupported file format')
+    })
+  })
+})
@@ -1,18 +1,42 @@
 import { UI } from '../../UI.ts'
-import { ModelZipLoader } from './ModelZipLoader.ts'
+import { ModelZipLoader, type ZipModelLoadResult } from './ModelZipLoader.ts'
 import { CustomFBXLoader, type FBXResults } from './CustomFBXLoader.ts'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFLoaderFactory } from '../../GLTFLoaderFactory.ts'
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js'
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js'
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js'
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js'
+import { CustomOBJLoader } from './CustomOBJLoader.ts'
 
 import { Scene } from 'three/src/scenes/Scene.js'
 import { Mesh } from 'three/src/objects/Mesh.js'
 import { MathUtils } from 'three/src/math/MathUtils.js'
-import { BufferGeometry, Group, MeshPhongMaterial, Object3DEventMap, type Material, type Object3D } from 'three'
+import { BufferGeometry, Group, LoadingManager, Matrix4, MeshPhongMaterial, Object3DEventMap, Vector3, type Material, type Object3D } from 'three'
 import { ModalDialog } from '../../ModalDialog.ts'
 import { ModelCleanupUtility } from './ModelCleanupUtility.ts'
+import { Utility } from '../../Utilities.ts'
+import { CustomMultiFileLoader, type MultiFileLoadResult } from './CustomMultiFileLoader.ts'
+import { DroppedFiles } from './DroppedFiles.ts'
+import { ModelLoadError, type FileRemap, type ModelLoadResult } from './ModelLoadResult.ts'
+import { ModelLoadResultCode } from '../../enums/ModelLoadResultCode.ts'
+import { ModelUnitSystem } from '../../enums/ModelUnitSystem.ts'
+import { ModelSimplifier } from './ModelSimplifier.ts'
+import { WeldedTopology } from '../../solvers/WeldedTopology.ts'
+import { ModelInspector, type MeshInspectorData } from './ModelInspector.ts'
+import { ModelOrientationAnalyzer, type ModelOrientation, type ModelRotation } from './ModelOrientationAnalyzer.ts'
+import { VRMHumanoid, type VRMHumanoidData } from './VRMHumanoid.ts'
+import { ExistingArmature, type ExistingArmatureData } from './ExistingArmature.ts'
+
+// scene data coming out of one of the loaders, before it is cleaned up
+interface LoadedModelData {
+  scene: Scene
+  missing_files: string[]
+  remapped_files?: FileRemap[]
+  vrm_humanoid?: VRMHumanoidData | null
+}
 
 // Note: EventTarget is a built-ininterface and do not need to import it
 export class StepLoadModel extends EventTarget {
-  private readonly gltf_loader = new GLTFLoader()
   private readonly custom_fbx_loader: CustomFBXLoader = new CustomFBXLoader()
   private readonly ui: UI = UI.getInstance()
   private original_model_data: Scene | Group = new Scene()
@@ -24,9 +48,35 @@ export class StepLoadModel extends EventTarget {
 
   private model_display_name: string = 'Imported Model'
 
+  // how the model is scaled to meters on import. target height overrides the unit system when set
+  private unit_system: ModelUnitSystem = ModelUnitSystem.Auto
+  private target_height: number | null = null
+  private import_scale_factor: number = 1.0
+
+  // humanoid bones from VRM files. Moved along with the geometry so they stay lined up with the model
+  private vrm_humanoid: VRMHumanoidData | null = null
+
+  // rig the model was uploaded with, if any. Also moved along with the geometry
+  private existing_armature: ExistingArmatureData | null = null
+
+  // shown to the user when they try to load something we can't handle
+  private readonly accepted_file_formats: string[] = ['GLB', 'GLTF (embedded)', 'VRM', 'FBX', 'DAE', 'OBJ', 'STL', 'PLY', 'ZIP (GLTF+BIN, DAE or OBJ+MTL with textures)']
+
   // there can be multiple objects in a model, so store them in a list
   private readonly geometry_list: BufferGeometry[] = []
-  private readonly material_list: Material[] = []
+  // meshes with geometry groups have a material array with one material for each group
+  private readonly material_list: Array<Material | Material[]> = []
+
+  // seam-aware topology for each geometry. Solvers use this so split vertices get the same weights
+  private welded_topology_list: WeldedTopology[] = []
+  private weld_tolerance: number = WeldedTopology.default_tolerance
+
+  // meshes the user turned off in the model inspector. They stay in the scene but are hidden and not skinned
+  private readonly excluded_mesh_indices = new Set<number>()
+  private readonly model_inspector: ModelInspector = new ModelInspector('model-inspector-summary', 'model-inspector-list')
+
+  // geometry from before simplifying the model. Kept so the simplification can be reverted
+  private pre_simplification_geometry_list: BufferGeometry[] = []
 
   private _added_event_listeners: boolean = false
 
@@ -57,7 +107,7 @@ export class StepLoadModel extends EventTarget {
 
     // calculate all the loaded mesh data
     buffer_geometry.forEach((geometry) => {
-      triangle_count += geometry.attributes.position.count / 3
+      triangle_count += ModelSimplifier.count_triangles(geometry)
       vertex_count += geometry.attributes.position.count
     })
 
@@ -71,6 +121,8 @@ export class StepLoadModel extends EventTarget {
     // this empties the array in place, and doesn't need to create a new array
     this.geometry_list.length = 0
     this.material_list.length = 0
+    this.welded_topology_list = []
+    this.excluded_mesh_indices.clear()
 
     scene_to_analyze.traverse((child: Object3D) => {
       if (child.type === 'Mesh') {
@@ -85,7 +137,10 @@ export class StepLoadModel extends EventTarget {
           return
         }
 
-        const new_material: Material = (child as Mesh).material.clone()
+        const mesh_material: Material | Material[] = (child as Mesh).material
+        const new_material: Material | Material[] = Array.isArray(mesh_material)
+          ? mesh_material.map((material: Material) => material.clone())
+          : mesh_material.clone()
         this.material_list.push(new_material)
       }
     })
@@ -116,14 +171,16 @@ export class StepLoadModel extends EventTarget {
         geometry_to_add.setAttribute('uv2', child.geometry.attributes.uv2.clone())
       }
 
-      // remove skinIndex and skinWeight if they exist
-      if (child.geometry.attributes.skinIndex !== undefined) {
-        geometry_to_add.deleteAttribute('skinIndex')
-      }
-      if (child.geometry.attributes.skinWeight !== undefined) {
-        geometry_to_add.deleteAttribute('skinWeight')
+      // keep the original skin weights, so they can be transferred to the new skeleton
+      if (child.geometry.attributes.skinIndex !== undefined && child.geometry.attributes.skinWeight !== undefined) {
+        geometry_to_add.setAttribute('skinIndex', child.geometry.attributes.skinIndex.clone())
+        geometry_to_add.setAttribute('skinWeight', child.geometry.attributes.skinWeight.clone())
       }
     }
+
+    // weld vertices split by UV seams and hard edges so the solvers see one connected surface
+    this.welded_topology_list.push(new WeldedTopology(geometry_to_add, this.weld_tolerance))
+
     return geometry_to_add
   }
 
@@ -150,18 +207,47 @@ export class StepLoadModel extends EventTarget {
   public add_event_listeners (): void {
     if (this.ui.dom_upload_model_button !== null) {
       this.ui.dom_upload_model_button.addEventListener('change', (event: Event) => {
-        const file = event.target.files[0]
-        const file_extension: string = this.get_file_extension(file.name)
-
-        const reader = new FileReader()
-        reader.readAsDataURL(file)
-        reader.onload = () => {
-          console.log('File reader loaded', reader)
-          this.load_model_file(reader.result, file_extension)
-        }
+        const upload_input = event.target as HTMLInputElement
+        const files: File[] = Array.from(upload_input.files ?? [])
+        this.load_model_from_files(files)
       })
     }
 
+    // excluding meshes from the model inspector. put the checkbox back if the change is not allowed
+    this.model_inspector.addEventListener('mesh-inclusion-changed', (event: Event) => {
+      const { index, included } = (event as CustomEvent<{ index: number, included: boolean }>).detail
+      if (!this.set_mesh_included(index, included)) {
+        this.model_inspector.set_mesh_checkbox(index, !included)
+      }
+    })
+
+    // dropping files or folders on the viewport. Only valid while we are on the load model step
+    document.body.addEventListener('dragover', (event: DragEvent) => {
+      if (!this.is_load_model_step_visible()) return
+      event.preventDefault() // allows the drop event to fire
+      document.body.classList.add('file-drag-over')
+    })
+
+    document.body.addEventListener('dragleave', (event: DragEvent) => {
+      // dragleave fires when moving over child elements, so only reset when leaving the window
+      if (event.relatedTarget === null) {
+        document.body.classList.remove('file-drag-over')
+      }
+    })
+
+    document.body.addEventListener('drop', (event: DragEvent) => {
+      document.body.classList.remove('file-drag-over')
+      if (!this.is_load_model_step_visible() || event.dataTransfer === null) return
+      event.preventDefault() // stop the browser from opening the file in a new tab
+
+      DroppedFiles.get_files_from_data_transfer(event.dataTransfer).then((files: File[]) => {
+        this.load_model_from_files(files)
+      }).catch((err: Error) => {
+        console.error('Failed to read dropped files:', err)
+        new ModalDialog('Failed to read dropped files', err.message).show()
+      })
+    })
+
     if (this.ui.dom_load_model_debug_checkbox !== null) {
       this.ui.dom_load_model_debug_checkbox.addEventListener('change', (event: Event) => {
         const debug_mode = event.target.checked
@@ -169,6 +255,15 @@ export class StepLoadModel extends EventTarget {
       })
     }
 
+    this.ui.dom_model_unit_system_select?.addEventListener('change', (event: Event) => {
+      this.set_unit_system((event.target as HTMLSelectElement).value as ModelUnitSystem)
+    })
+
+    this.ui.dom_model_target_height_input?.addEventListener('change', (event: Event) => {
+      const target_height: number = parseFloat((event.target as HTMLInputElement).value)
+      this.set_target_height(Number.isFinite(target_height) && target_height > 0 ? target_height : null)
+    })
+
     if (this.ui.dom_load_model_button !== null) {
       this.ui.dom_load_model_button.addEventListener('click', () => {
         // get currently selected option out of the model-selection drop-down
@@ -177,12 +272,51 @@ export class StepLoadModel extends EventTarget {
         if (model_selection !== null) {
           const file_name = model_selection.options[model_selection.selectedIndex].value
           const file_extension: string = this.get_file_extension(file_name)
-          this.load_model_file(file_name, file_extension)
+          void this.load_model_file(file_name, file_extension)
         }
       })
     }
   }
 
+  private is_load_model_step_visible (): boolean {
+    return this.ui.dom_load_model_tools !== null && this.ui.dom_load_model_tools.style.display === 'flex'
+  }
+
+  /**
+   * A single file goes through the normal loading process. Multiple files are treated as one model
+   * with its dependencies (GLTF + BIN + textures, OBJ + MTL + textures, etc.)
+   */
+  private load_model_from_files (files: File[]): void {
+    if (files.length === 0) return
+
+    if (files.length > 1) {
+      void this.load_multiple_files(files)
+      return
+    }
+
+    const file: File = files[0]
+    const file_extension: string = this.get_file_extension(file.name)
+
+    const reader = new FileReader()
+    reader.readAsDataURL(file)
+    reader.onload = () => {
+      console.log('File reader loaded', reader)
+      void this.load_model_file(reader.result, file_extension)
+    }
+  }
+
+  private async load_multiple_files (files: File[]): Promise<ModelLoadResult> {
+    return await this.run_load_pipeline(async () => {
+      const multi_file_loader = new CustomMultiFileLoader()
+      const results: MultiFileLoadResult = await multi_file_loader.load_from_files(files)
+      console.log(`Model loaded from multiple files using ${results.model_file_name}:`, results)
+
+      const loaded_scene: Scene = new Scene()
+      loaded_scene.add(results.scene)
+      return { scene: loaded_scene, missing_files: results.unresolved_files, remapped_files: results.remapped_files }
+    })
+  }
+
   private get_file_extension (file_path: string): string {
     const file_name: string | undefined = file_path.split('/').pop() // remove the directory path
 
@@ -198,7 +332,7 @@ export class StepLoadModel extends EventTarget {
       return 'UNDEFINED'
     }
 
-    return file_extension
+    return file_extension.toLowerCase()
   }
 
   public clear_loaded_model_data (): void {
@@ -206,6 +340,12 @@ export class StepLoadModel extends EventTarget {
     this.final_mesh_data = new Scene()
     this.geometry_list.length = 0
     this.material_list.length = 0
+    this.pre_simplification_geometry_list = []
+    this.welded_topology_list = []
+    this.excluded_mesh_indices.clear()
+    this.import_scale_factor = 1.0
+    this.vrm_humanoid = null
+    this.existing_armature = null
     this.vertex_count = 0
     this.triangle_count = 0
     this.objects_count = 0
@@ -221,86 +361,290 @@ export class StepLoadModel extends EventTarget {
     this.preserve_skinned_mesh = preserve
   }
 
-  public load_model_file (model_file_path: string | ArrayBuffer | null, file_extension: string): void {
-    if (file_extension === 'fbx') {
-      this.load_fbx_file(model_file_path)
-    } else if (file_extension === 'glb') {
-      this.gltf_loader.load(model_file_path as string, (gltf) => {
-        const loaded_scene: Scene = gltf.scene
-        this.process_loaded_scene(loaded_scene)
-      })
-    } else if (file_extension === 'zip') {
-      console.log('ZIP file can contain GLTF+BIN model data')
-      this.handle_zip_file(model_file_path)
-    } else {
-      console.error('Unsupported file format to load. Only acccepts FBX, (ZIP)GLTF+BIN, GLB:', model_file_path)
+  /**
+   * Loads a model file and runs it through the cleanup process. Anything that goes wrong
+   * is shown to the user in a dialog, and also returned so callers can react to it
+   */
+  public async load_model_file (model_file_path: string | ArrayBuffer | null, file_extension: string): Promise<ModelLoadResult> {
+    return await this.run_load_pipeline(async () => await this.load_scene_from_file(model_file_path, file_extension))
+  }
+
+  private async run_load_pipeline (load_scene: () => Promise<LoadedModelData>): Promise<ModelLoadResult> {
+    let result: ModelLoadResult
+    try {
+      const loaded_model_data: LoadedModelData = await load_scene()
+      this.vrm_humanoid = loaded_model_data.vrm_humanoid ?? null
+      result = this.process_loaded_scene(loaded_model_data.scene, loaded_model_data.missing_files, loaded_model_data.remapped_files ?? [])
+    } catch (err) {
+      result = this.create_error_result(err)
     }
+
+    // remapped files are shown too, so the user can check the right textures were picked
+    if (result.code !== ModelLoadResultCode.Success || result.remapped_files.length > 0) {
+      console.warn('Model loading finished with issues:', result)
+      this.show_load_result_dialog(result)
+    }
+
+    return result
   }
 
-  private load_fbx_file (model_file_path: string | ArrayBuffer | null): void {
+  private async load_scene_from_file (model_file_path: string | ArrayBuffer | null, file_extension: string): Promise<LoadedModelData> {
+    switch (file_extension) {
+      case 'glb':
+      case 'gltf':
+      case 'vrm': // VRM files are GLB files with humanoid metadata
+        // standalone GLTF files need to have their buffers and textures embedded as data URIs
+        return await this.load_gltf_file(model_file_path, file_extension)
+      case 'fbx':
+        return await this.load_fbx_file(model_file_path)
+      case 'dae':
+        return await this.load_dae_file(model_file_path)
+      case 'obj':
+        return await this.load_obj_file(model_file_path)
+      case 'stl':
+      case 'ply':
+        return await this.load_scan_file(model_file_path, file_extension)
+      case 'zip':
+        console.log('ZIP file can contain GLTF+BIN model data')
+        return await this.load_zip_file(model_file_path)
+      case 'mtl':
+      case 'bin':
+      case 'png':
+      case 'jpg':
+      case 'jpeg':
+      case 'webp':
+      case 'bmp':
+        // files a model depends on. These are only allowed in the file picker so they can be selected with the model
+        throw new ModelLoadError(ModelLoadResultCode.MissingModelFile,
+          `".${file_extension}" files are used by a model file and can't be loaded on their own. Select them together with the model file, or put them all in a ZIP file.`)
+      default:
+        throw new ModelLoadError(ModelLoadResultCode.UnsupportedExtension,
+          `The ".${file_extension}" format is not supported. Accepted formats are: ${this.accepted_file_formats.join(', ')}`)
+    }
+  }
+
+  private async load_gltf_file (model_file_path: string | ArrayBuffer | null, file_extension: string): Promise<LoadedModelData> {
+    const missing_files: string[] = []
+    const gltf_loader = GLTFLoaderFactory.create_loader(this.create_loading_manager(missing_files))
+
+    try {
+      const gltf = typeof model_file_path === 'string'
+        ? await gltf_loader.loadAsync(model_file_path)
+        : await gltf_loader.parseAsync(await this.read_file_data(model_file_path), '')
+      // bones are stripped out of the model later, so read the humanoid bone positions now
+      const vrm_humanoid: VRMHumanoidData | null = VRMHumanoid.read_humanoid(gltf)
+      const loaded_scene: Scene = new Scene()
+      loaded_scene.add(gltf.scene)
+      return { scene: loaded_scene, missing_files, vrm_humanoid }
+    } catch (err) {
+      if (err instanceof ModelLoadError || file_extension !== 'gltf') throw err
+      throw new ModelLoadError(ModelLoadResultCode.CorruptFile,
+        'Could not load the GLTF file. If it uses a separate BIN file or textures, upload them together or as a ZIP file.')
+    }
+  }
+
+  private async load_fbx_file (model_file_path: string | ArrayBuffer | null): Promise<LoadedModelData> {
     if (typeof model_file_path !== 'string') {
       console.warn('something weird happened and FBX is being loaded that is not a filepath for a string:', model_file_path)
-      return
+      throw new ModelLoadError(ModelLoadResultCode.CorruptFile, 'FBX file data could not be read')
     }
 
     // console.log('Loading FBX model:', model_file_path)
-    this.custom_fbx_loader.loadFBX(model_file_path).then((results: FBXResults) => {
-      console.log('loaded the FBX file', results)
-      this.mesh_has_broken_material = results.is_missing_dependencies
-      const loaded_scene: Scene = new Scene()
+    const results: FBXResults = await this.custom_fbx_loader.loadFBX(model_file_path)
+    console.log('loaded the FBX file', results)
+    this.mesh_has_broken_material = results.is_missing_dependencies
+    const loaded_scene: Scene = new Scene()
 
-      // TODO: add the processed, cleaned up data instead of the fbx_scene directly
-      loaded_scene.add(results.fbx_scene)
+    // TODO: add the processed, cleaned up data instead of the fbx_scene directly
+    loaded_scene.add(results.fbx_scene)
 
-      this.process_loaded_scene(loaded_scene)
-    }).catch((error) => {
-      console.warn('some type of error', error)
-    })
+    return { scene: loaded_scene, missing_files: results.missing_files }
+  }
+
+  private async load_dae_file (model_file_path: string | ArrayBuffer | null): Promise<LoadedModelData> {
+    const missing_files: string[] = []
+    const collada_loader = new ColladaLoader(this.create_loading_manager(missing_files))
+
+    const collada = typeof model_file_path === 'string'
+      ? await collada_loader.loadAsync(model_file_path)
+      : collada_loader.parse(new TextDecoder().decode(await this.read_file_data(model_file_path)), '')
+
+    // the Collada loader returns null instead of throwing when the XML can't be parsed
+    if (collada === null) {
+      throw new ModelLoadError(ModelLoadResultCode.CorruptFile,
+        'Could not load the DAE file. If it uses textures, upload them together or as a ZIP file.')
+    }
+
+    const loaded_scene: Scene = new Scene()
+    loaded_scene.add(collada.scene)
+    return { scene: loaded_scene, missing_files }
+  }
+
+  /**
+   * A single OBJ file comes without its MTL file and textures, so default materials are used.
+   * The MTL file is reported as missing so the user knows to upload it together with the OBJ
+   */
+  private async load_obj_file (model_file_path: string | ArrayBuffer | null): Promise<LoadedModelData> {
+    const missing_files: string[] = []
+    const obj_text: string = new TextDecoder().decode(await this.read_file_data(model_file_path))
+
+    const mtllib_match: RegExpMatchArray | null = obj_text.match(/^mtllib\s+(.+)$/m)
+    if (mtllib_match !== null) {
+      missing_files.push(mtllib_match[1].trim().replace(/\\/g, '/').split('/').pop() ?? mtllib_match[1].trim())
+    }
+
+    const obj_group: Group = new OBJLoader(this.create_loading_manager(missing_files)).parse(obj_text)
+    CustomOBJLoader.compute_missing_normals(obj_group)
+
+    const loaded_scene: Scene = new Scene()
+    loaded_scene.add(obj_group)
+    return { scene: loaded_scene, missing_files }
+  }
+
+  /**
+   * STL and PLY files (3D printing and scans) are a single geometry without materials or UVs.
+   * Vertex colors are kept with a vertex color material, and normals are generated when the file has none
+   */
+  private async load_scan_file (model_file_path: string | ArrayBuffer | null, file_extension: string): Promise<LoadedModelData> {
+    const file_data: ArrayBuffer = await this.read_file_data(model_file_path)
+
+    let geometry: BufferGeometry
+    try {
+      geometry = file_extension === 'stl' ? new STLLoader().parse(file_data) : new PLYLoader().parse(file_data)
+    } catch (err) {
+      throw new ModelLoadError(ModelLoadResultCode.CorruptFile, `Could not load the ${file_extension.toUpperCase()} file`)
+    }
+
+    // PLY files without faces are point clouds, which can't be skinned
+    if (geometry.attributes.position === undefined || (file_extension === 'ply' && geometry.index === null)) {
+      return { scene: new Scene(), missing_files: [] }
+    }
+
+    if (geometry.attributes.normal === undefined) {
+      geometry.computeVertexNormals()
+    }
+
+    const has_vertex_colors: boolean = geometry.attributes.color !== undefined
+    const material = new MeshPhongMaterial({ vertexColors: has_vertex_colors })
+    if (!has_vertex_colors) {
+      material.color.set(0xcccccc)
+    }
+
+    const mesh = new Mesh(geometry, material)
+    mesh.name = `${file_extension.toUpperCase()} Model`
+
+    const loaded_scene: Scene = new Scene()
+    loaded_scene.add(mesh)
+    return { scene: loaded_scene, missing_files: [] }
   }
 
   /**
    * Handles loading a model from a ZIP file with GLTF data
-   * supporting both data URLs and ArrayBuffer input.
+   * supporting data URLs, regular URLs and ArrayBuffer input.
    */
-  private handle_zip_file (model_file_path: string | ArrayBuffer | null): void {
+  private async load_zip_file (model_file_path: string | ArrayBuffer | null): Promise<LoadedModelData> {
     const zip_loader = new ModelZipLoader()
+    const zip_results: ZipModelLoadResult = await zip_loader.loadModelFromZip(await this.read_file_data(model_file_path))
+    console.log('Model loaded from ZIP:', zip_results)
+    const loaded_scene: Scene = new Scene()
+    loaded_scene.add(zip_results.scene)
+    return { scene: loaded_scene, missing_files: zip_results.missing_files, remapped_files: zip_results.remapped_files }
+  }
 
-    // internal async function that loads the ZIP from an ArrayBuffer
-    const handle_zip = async (buffer: ArrayBuffer): Promise<void> => {
-      try {
-        const scene = await zip_loader.loadModelFromZip(buffer)
-        console.log('Model loaded from ZIP:', scene)
-        this.process_loaded_scene(scene)
-      } catch (err) {
-        // if no GLTF file found, or other error, show dialog
-        console.error('Failed to load model from ZIP:', err)
-        new ModalDialog('Failed to load model from ZIP: ', err?.message || err).show()
-      }
+  /**
+   * Gets the raw file data. Strings can be data URLs, blob URLs or paths to files on the server
+   */
+  private async read_file_data (model_file_path: string | ArrayBuffer | null): Promise<ArrayBuffer> {
+    if (model_file_path === null) {
+      throw new ModelLoadError(ModelLoadResultCode.CorruptFile, 'No file data was found to load')
     }
 
-    // load in the zip and send the array buffer data to the loader
-    if (typeof model_file_path === 'string' && model_file_path.startsWith('data:')) {
-      fetch(model_file_path)
-        .then(async res => await res.arrayBuffer()) // convert to ArrayBuffer for processing
-        .then(buffer => handle_zip(buffer).catch((err) => {
-          const msg = (err && typeof err === 'object' && 'message' in err) ? err.message : String(err)
-          console.error('Failed to load model from ZIP:', err)
-          new ModalDialog('Failed to load model from ZIP: ', msg).show()
-        }))
-        .catch((err) => {
-          const msg = (err && typeof err === 'object' && 'message' in err) ? err.message : String(err)
-          console.error('Failed to fetch ZIP data:', err)
-          new ModalDialog('Failed to fetch ZIP data: ', msg).show()
-        })
-    } else {
-      // ZIP file is corrupted??
-      const msg = 'ZIP file data is not in a supported format'
-      console.error(msg)
-      new ModalDialog('ZIP file error decompressing: ', msg).show()
+    if (typeof model_file_path !== 'string') {
+      return model_file_path
+    }
+
+    const response: Response = await fetch(model_file_path)
+    if (!response.ok) {
+      throw new ModelLoadError(ModelLoadResultCode.CorruptFile, `Could not read file data (status ${response.status})`)
+    }
+    return await response.arrayBuffer()
+  }
+
+  /**
+   * Each load gets its own loading manager, so textures that fail to load can be tracked
+   * per model instead of through the shared default manager
+   */
+  private create_loading_manager (missing_files: string[]): LoadingManager {
+    const loading_manager = new LoadingManager()
+    loading_manager.itemError = (url: string) => {
+      // data URIs and object URLs (blob:<origin>/<uuid>) are embedded data, so their names don't mean anything to the user
+      if (url.startsWith('data:') || /^blob:.*\/[0-9a-f-]{36}$/i.test(url)) return
+      missing_files.push(url.split('/').pop() ?? url)
+    }
+    return loading_manager
+  }
+
+  private create_error_result (err: unknown): ModelLoadResult {
+    if (err instanceof ModelLoadError) {
+      return { code: err.code, message: err.message, missing_files: [], remapped_files: [] }
+    }
+
+    const error_message: string = err instanceof Error ? err.message : String(err)
+    console.error('Failed to load model:', err)
+    return {
+      code: ModelLoadResultCode.CorruptFile,
+      message: `The file could not be read. It might be corrupt or saved in a way we can't load. ${error_message}`,
+      missing_files: [],
+      remapped_files: []
     }
   }
 
-  private process_loaded_scene (loaded_scene: Scene): void {
+  private show_load_result_dialog (result: ModelLoadResult): void {
+    const dialog_titles: Record<ModelLoadResultCode, string> = {
+      [ModelLoadResultCode.Success]: 'Model loaded',
+      [ModelLoadResultCode.MissingTextures]: 'Some files could not be found',
+      [ModelLoadResultCode.NoMeshes]: 'Error loading model',
+      [ModelLoadResultCode.CorruptFile]: 'Error loading model',
+      [ModelLoadResultCode.MissingModelFile]: 'No model file found',
+      [ModelLoadResultCode.UnsupportedExtension]: 'Unsupported file format'
+    }
+
+    // file names and error messages come from the uploaded files, so they are escaped before going in the dialog
+    let content_html: string = Utility.escape_html(result.message)
+    if (result.remapped_files.length > 0) {
+      const remap_list_html: string = result.remapped_files
+        .map(remap => `<li>${Utility.escape_html(remap.reference)} &rarr; ${Utility.escape_html(remap.resolved_path)}</li>`).join('')
+      content_html += `<p>Found under a different path:</p><ul>${remap_list_html}</ul>`
+    }
+    if (result.missing_files.length > 0) {
+      const file_list_html: string = result.missing_files.map(name => `<li>${Utility.escape_html(name)}</li>`).join('')
+      content_html += result.remapped_files.length > 0 ? `<p>Still missing:</p><ul>${file_list_html}</ul>` : `<ul>${file_list_html}</ul>`
+    }
+
+    new ModalDialog(dialog_titles[result.code], content_html).show()
+  }
+
+  private create_success_result (missing_files: string[], remapped_files: FileRemap[]): ModelLoadResult {
+    if (missing_files.length > 0) {
+      return {
+        code: ModelLoadResultCode.MissingTextures,
+        message: 'The model was loaded, but it references files that were not included. Materials using them will not look correct.',
+        missing_files,
+        remapped_files
+      }
+    }
+    if (remapped_files.length > 0) {
+      return {
+        code: ModelLoadResultCode.Success,
+        message: 'The model was loaded. Some files it references had a different name or folder, so the closest match was used.',
+        missing_files,
+        remapped_files
+      }
+    }
+    return { code: ModelLoadResultCode.Success, message: 'Model loaded', missing_files, remapped_files }
+  }
+
+  private process_loaded_scene (loaded_scene: Scene, missing_files: string[], remapped_files: FileRemap[]): ModelLoadResult {
     if (this.preserve_skinned_mesh) {
       this.original_model_data = loaded_scene
     } else {
@@ -319,17 +663,17 @@ export class StepLoadModel extends EventTarget {
       // and mess up the skinned mesh and exports. So for now, just keep everything
       clean_scene_with_only_models = this.original_model_data
     } else {
+      // bones are thrown away when the skinned meshes are converted, so read the rig first
+      this.existing_armature = ExistingArmature.read_armature(this.original_model_data)
       clean_scene_with_only_models = ModelCleanupUtility.strip_out_all_unecessary_model_data(this.original_model_data, this.model_display_name, this.debug_model_loading)
     }
 
-    // if there are no valid mesh, or skinned mesh, show error dialog
+    // if there are no valid mesh, or skinned mesh, let the user know
     if (clean_scene_with_only_models.children.length === 0) {
-      if (this.preserve_skinned_mesh) {
-        new ModalDialog('Error loading model', 'No SkinnedMesh found in model file for retargeting').show()
-      } else {
-        new ModalDialog('Error loading model', 'No Mesh found in model file').show()
-      }
-      return
+      const no_mesh_message: string = this.preserve_skinned_mesh
+        ? 'No SkinnedMesh found in model file for retargeting'
+        : 'No Mesh found in model file'
+      return { code: ModelLoadResultCode.NoMeshes, message: no_mesh_message, missing_files, remapped_files }
     }
 
     // if we are doing retargeting, our work ends here for loading the model
@@ -338,7 +682,7 @@ export class StepLoadModel extends EventTarget {
     if (this.preserve_skinned_mesh) {
       this.final_retargetable_model_data = clean_scene_with_only_models
       this.dispatchEvent(new CustomEvent('modelLoadedForRetargeting'))
-      return
+      return this.create_success_result(missing_files, remapped_files)
     }
 
     // loop through each child in scene and reset rotation
@@ -351,9 +695,9 @@ export class StepLoadModel extends EventTarget {
       child.updateMatrixWorld() // helps re-calculate bounding box for scaling later
     })
 
-    // Some objects come in very large, which makes it harder to work with
-    // scale everything down to a max height. mutate the clean scene object
-    ModelCleanupUtility.scale_model_on_import_if_extreme(clean_scene_with_only_models)
+    // skeletons and animations work in meters, so scale the model to match. mutate the clean scene object
+    this.import_scale_factor = ModelCleanupUtility.scale_model_on_import(clean_scene_with_only_models, this.unit_system, this.target_height)
+    this.transform_imported_rig_positions(new Matrix4().makeScale(this.import_scale_factor, this.import_scale_factor, this.import_scale_factor))
 
     // preserved skinned meshes shouldn't be breaking apart mesh data
     // breaking apart skinned meshes converts it to a regular mesh which we don't want.
@@ -367,9 +711,18 @@ export class StepLoadModel extends EventTarget {
     console.log('final mesh data should be prepared at this point', this.final_mesh_data)
 
     // Automatically move model to floor after loading
-    ModelCleanupUtility.move_model_to_floor(this.final_mesh_data)
+    const floor_offset: number = ModelCleanupUtility.move_model_to_floor(this.final_mesh_data)
+    this.transform_imported_rig_positions(new Matrix4().makeTranslation(0, floor_offset, 0))
+
+    // VRM 0.x models face -Z, so turn them around to face the front
+    if (this.vrm_humanoid?.spec_version === '0.x') {
+      this.rotate_model_geometry('y', 180)
+    }
+
+    this.update_model_inspector()
 
     this.dispatchEvent(new CustomEvent('modelLoaded'))
+    return this.create_success_result(missing_files, remapped_files)
   }
 
   public model_meshes (): Scene {
@@ -394,20 +747,127 @@ export class StepLoadModel extends EventTarget {
     return this.final_mesh_data
   }
 
+  /**
+   * Geometry, materials and welded topology lists only contain the meshes that were not excluded
+   * in the model inspector. They all use the same order
+   */
   public models_geometry_list (): BufferGeometry[] {
     // loop through final mesh data and return the geometeries
-    const geometries_to_return: BufferGeometry[] = []
-    this.final_mesh_data.traverse((child) => {
-      if (child.type === 'Mesh') {
-        geometries_to_return.push((child as Mesh).geometry.clone())
-      }
+    return this.get_final_meshes()
+      .filter((_mesh: Mesh, index: number) => this.is_mesh_included(index))
+      .map((mesh: Mesh) => mesh.geometry.clone())
+  }
+
+  public models_material_list (): Array<Material | Material[]> {
+    return this.material_list.filter((_material: Material | Material[], index: number) => this.is_mesh_included(index))
+  }
+
+  public models_welded_topology_list (): WeldedTopology[] {
+    return this.welded_topology_list.filter((_topology: WeldedTopology, index: number) => this.is_mesh_included(index))
+  }
+
+  public is_mesh_included (mesh_index: number): boolean {
+    return !this.excluded_mesh_indices.has(mesh_index)
+  }
+
+  /**
+   * Excluded meshes are hidden and left out of skinning. Things like ground planes or reference images
+   * @returns false if the change was not made. At least one mesh always needs to be included
+   */
+  public set_mesh_included (mesh_index: number, included: boolean): boolean {
+    const meshes: Mesh[] = this.get_final_meshes()
+    if (mesh_index < 0 || mesh_index >= meshes.length) return false
+
+    if (!included && this.excluded_mesh_indices.size >= meshes.length - 1 && this.is_mesh_included(mesh_index)) {
+      return false
+    }
+
+    if (included) {
+      this.excluded_mesh_indices.delete(mesh_index)
+    } else {
+      this.excluded_mesh_indices.add(mesh_index)
+    }
+    meshes[mesh_index].visible = included
+
+    this.update_model_inspector()
+    return true
+  }
+
+  public get_mesh_inspector_data (): MeshInspectorData[] {
+    return this.get_final_meshes().map((mesh: Mesh, index: number) =>
+      ModelInspector.create_mesh_data(mesh, ModelSimplifier.count_triangles(mesh.geometry), this.is_mesh_included(index)))
+  }
+
+  private update_model_inspector (): void {
+    this.model_inspector.render(this.get_mesh_inspector_data(), {
+      objects_count: this.objects_count,
+      vertex_count: this.vertex_count,
+      triangle_count: this.triangle_count
     })
+  }
+
+  /**
+   * Applies to the next model that is loaded
+   */
+  public set_unit_system (unit_system: ModelUnitSystem): void {
+    this.unit_system = unit_system
+  }
+
+  public get_unit_system (): ModelUnitSystem {
+    return this.unit_system
+  }
+
+  /**
+   * @param target_height height in meters to scale the model to on the next load. null to use the unit system
+   */
+  public set_target_height (target_height: number | null): void {
+    this.target_height = target_height
+  }
+
+  public get_target_height (): number | null {
+    return this.target_height
+  }
+
+  /**
+   * @returns scale that was applied to the model on import. Exporting at 1 / scale gives back the original size
+   */
+  public get_import_scale_factor (): number {
+    return this.import_scale_factor
+  }
+
+  /**
+   * @returns humanoid bone positions when a VRM file was loaded, null otherwise
+   */
+  public get_vrm_humanoid (): VRMHumanoidData | null {
+    return this.vrm_humanoid
+  }
 
-    return geometries_to_return
+  /**
+   * @returns rig bone positions when the model was uploaded with a rig, null otherwise
+   */
+  public get_existing_armature (): ExistingArmatureData | null {
+    return this.existing_armature
   }
 
-  public models_material_list (): Material[] {
-    return this.material_list
+  private transform_imported_rig_positions (matrix: Matrix4): void {
+    this.vrm_humanoid?.bone_positions.forEach((position: Vector3) => position.applyMatrix4(matrix))
+    this.existing_armature?.bone_positions.forEach((position: Vector3) => position.applyMatrix4(matrix))
+  }
+
+  /**
+   * Vertices closer than this distance are treated as the same point when skinning
+   */
+  public set_weld_tolerance (tolerance: number): void {
+    this.weld_tolerance = tolerance
+    this.rebuild_welded_topology(this.get_final_meshes().map((mesh: Mesh) => mesh.geometry))
+  }
+
+  public get_weld_tolerance (): number {
+    return this.weld_tolerance
+  }
+
+  private rebuild_welded_topology (geometry_list: BufferGeometry[]): void {
+    this.welded_topology_list = geometry_list.map((geometry: BufferGeometry) => new WeldedTopology(geometry, this.weld_tolerance))
   }
 
   /**
@@ -416,15 +876,121 @@ export class StepLoadModel extends EventTarget {
    */
   public rotate_model_geometry (axis: 'x' | 'y' | 'z', angle: number): void {
     const radians = MathUtils.degToRad(angle)
+    const rotation_matrix = new Matrix4().makeRotationAxis(new Vector3(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0), radians)
+    const rotate_geometry = (geometry: BufferGeometry): void => {
+      ModelCleanupUtility.transform_geometry(geometry, rotation_matrix)
+    }
+
     this.final_mesh_data.traverse((obj: Object3D) => {
       if (obj.type === 'Mesh') {
-        const mesh = obj as Mesh
-        mesh.geometry.rotateX(axis === 'x' ? radians : 0)
-        mesh.geometry.rotateY(axis === 'y' ? radians : 0)
-        mesh.geometry.rotateZ(axis === 'z' ? radians : 0)
-        mesh.geometry.computeBoundingBox()
-        mesh.geometry.computeBoundingSphere()
+        rotate_geometry((obj as Mesh).geometry)
       }
     })
+    this.transform_imported_rig_positions(rotation_matrix)
+
+    // keep the original geometry lined up so reverting a simplification doesn't undo the rotation
+    this.get_unused_pre_simplification_geometry().forEach(rotate_geometry)
+  }
+
+  /**
+   * Guesses the up axis and facing direction of the model. Excluded meshes are left out
+   */
+  public analyze_model_orientation (): ModelOrientation {
+    const included_geometry: BufferGeometry[] = this.get_final_meshes()
+      .filter((_mesh: Mesh, index: number) => this.is_mesh_included(index))
+      .map((mesh: Mesh) => mesh.geometry)
+    return ModelOrientationAnalyzer.analyze(included_geometry)
+  }
+
+  /**
+   * Rotates the model so it is Y-up and facing +Z, based on analyze_model_orientation()
+   * @returns the orientation the model had before it was fixed
+   */
+  public auto_orient_model (): ModelOrientation {
+    const orientation: ModelOrientation = this.analyze_model_orientation()
+    orientation.rotations.forEach((rotation: ModelRotation) => {
+      this.rotate_model_geometry(rotation.axis, rotation.angle)
+    })
+
+    // rotating around the origin can put part of the model under the floor
+    if (orientation.rotations.length > 0) {
+      const floor_offset: number = ModelCleanupUtility.move_model_to_floor(this.final_mesh_data)
+      const floor_matrix = new Matrix4().makeTranslation(0, floor_offset, 0)
+      this.get_unused_pre_simplification_geometry().forEach((geometry: BufferGeometry) => {
+        ModelCleanupUtility.transform_geometry(geometry, floor_matrix)
+      })
+      this.transform_imported_rig_positions(floor_matrix)
+    }
+    return orientation
+  }
+
+  public get_triangle_count (): number {
+    return this.triangle_count
+  }
+
+  public is_model_simplified (): boolean {
+    return this.pre_simplification_geometry_list.length > 0
+  }
+
+  /**
+   * Reduces the triangle count of the model so skinning is faster on very high-poly models.
+   * Always starts from the original geometry, so a different budget can be tried without losing detail.
+   * Materials stay assigned to the same meshes
+   * @param triangle_budget maximum number of triangles for the whole model
+   */
+  public simplify_model (triangle_budget: number): { before: number, after: number } {
+    const meshes: Mesh[] = this.get_final_meshes()
+    if (!this.is_model_simplified()) {
+      this.pre_simplification_geometry_list = meshes.map((mesh: Mesh) => mesh.geometry)
+    }
+
+    const simplified_geometry: BufferGeometry[] =
+      ModelSimplifier.simplify_geometry_list(this.pre_simplification_geometry_list, triangle_budget)
+    this.replace_final_mesh_geometry(meshes, simplified_geometry)
+
+    return {
+      before: ModelSimplifier.count_triangles_in_list(this.pre_simplification_geometry_list),
+      after: this.triangle_count
+    }
+  }
+
+  public revert_model_simplification (): void {
+    if (!this.is_model_simplified()) return
+
+    this.replace_final_mesh_geometry(this.get_final_meshes(), this.pre_simplification_geometry_list)
+    this.pre_simplification_geometry_list = []
+  }
+
+  /**
+   * Original geometry that is not shown right now. Meshes that were already under budget keep their
+   * original geometry when simplifying, so those are changed with the rest of the model already
+   */
+  private get_unused_pre_simplification_geometry (): BufferGeometry[] {
+    const geometry_in_use: BufferGeometry[] = this.get_final_meshes().map((mesh: Mesh) => mesh.geometry)
+    return this.pre_simplification_geometry_list.filter((geometry: BufferGeometry) => !geometry_in_use.includes(geometry))
+  }
+
+  private get_final_meshes (): Mesh[] {
+    const meshes: Mesh[] = []
+    this.final_mesh_data.traverse((obj: Object3D) => {
+      if (obj.type === 'Mesh') {
+        meshes.push(obj as Mesh)
+      }
+    })
+    return meshes
+  }
+
+  private replace_final_mesh_geometry (meshes: Mesh[], new_geometry_list: BufferGeometry[]): void {
+    meshes.forEach((mesh: Mesh, index: number) => {
+      // the original geometry is kept around for reverting, so only clean up simplified geometry
+      if (mesh.geometry !== new_geometry_list[index] && !this.pre_simplification_geometry_list.includes(mesh.geometry)) {
+        mesh.geometry.dispose()
+      }
+      mesh.geometry = new_geometry_list[index]
+    })
+
+    this.calculate_mesh_metrics(new_geometry_list)
+    this.rebuild_welded_topology(new_geometry_list)
+    this.update_model_inspector()
   }
 }
@@ -0,0 +1,173 @@
+import { type Object3D, Vector3 } from 'three'
+import { type GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js'
+
+export interface VRMHumanoidData {
+  spec_version: '0.x' | '1.0'
+  // world position of each humanoid bone, using Mesh2Motion human rig bone names
+  bone_positions: Map<string, Vector3>
+}
+
+// only the parts of the VRM extensions that are read here
+interface VRMExtensions {
+  VRMC_vrm?: { humanoid?: { humanBones?: Record<string, { node: number }> } }
+  VRM?: { humanoid?: { humanBones?: Array<{ bone: string, node: number }> } }
+}
+
+/**
+ * VRM files (VRoid and others) are GLB files with humanoid bone metadata in the
+ * "VRM" (0.x) or "VRMC_vrm" (1.0) extension. This maps those bones onto the Mesh2Motion human rig,
+ * so the skeleton can be fitted to the model without placing joints by hand
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class VRMHumanoid {
+  /**
+   * Direct mapping: Mesh2Motion bone name -> VRM 1.0 humanoid bone name
+   */
+  private static readonly BONE_MAP: Record<string, string> = {
+    // Torso
+    'DEF-hips': 'hips',
+    'DEF-spine001': 'spine',
+    'DEF-spine002': 'chest',
+    'DEF-spine003': 'upperChest',
+    'DEF-neck': 'neck',
+    'DEF-head': 'head',
+
+    // Arms
+    'DEF-shoulderL': 'leftShoulder',
+    'DEF-upper_armL': 'leftUpperArm',
+    'DEF-forearmL': 'leftLowerArm',
+    'DEF-handL': 'leftHand',
+    'DEF-shoulderR': 'rightShoulder',
+    'DEF-upper_armR': 'rightUpperArm',
+    'DEF-forearmR': 'rightLowerArm',
+    'DEF-handR': 'rightHand',
+
+    // Legs
+    'DEF-thighL': 'leftUpperLeg',
+    'DEF-shinL': 'leftLowerLeg',
+    'DEF-footL': 'leftFoot',
+    'DEF-toeL': 'leftToes',
+    'DEF-thighR': 'rightUpperLeg',
+    'DEF-shinR': 'rightLowerLeg',
+    'DEF-footR': 'rightFoot',
+    'DEF-toeR': 'rightToes',
+
+    // Left Hand Fingers
+    'DEF-thumb01L': 'leftThumbMetacarpal',
+    'DEF-thumb02L': 'leftThumbProximal',
+    'DEF-thumb03L': 'leftThumbDistal',
+    'DEF-f_index01L': 'leftIndexProximal',
+    'DEF-f_index02L': 'leftIndexIntermediate',
+    'DEF-f_index03L': 'leftIndexDistal',
+    'DEF-f_middle01L': 'leftMiddleProximal',
+    'DEF-f_middle02L': 'leftMiddleIntermediate',
+    'DEF-f_middle03L': 'leftMiddleDistal',
+    'DEF-f_ring01L': 'leftRingProximal',
+    'DEF-f_ring02L': 'leftRingIntermediate',
+    'DEF-f_ring03L': 'leftRingDistal',
+    'DEF-f_pinky01L': 'leftLittleProximal',
+    'DEF-f_pinky02L': 'leftLittleIntermediate',
+    'DEF-f_pinky03L': 'leftLittleDistal',
+
+    // Right Hand Fingers
+    'DEF-thumb01R': 'rightThumbMetacarpal',
+    'DEF-thumb02R': 'rightThumbProximal',
+    'DEF-thumb03R': 'rightThumbDistal',
+    'DEF-f_index01R': 'rightIndexProximal',
+    'DEF-f_index02R': 'rightIndexIntermediate',
+    'DEF-f_index03R': 'rightIndexDistal',
+    'DEF-f_middle01R': 'rightMiddleProximal',
+    'DEF-f_middle02R': 'rightMiddleIntermediate',
+    'DEF-f_middle03R': 'rightMiddleDistal',
+    'DEF-f_ring01R': 'rightRingProximal',
+    'DEF-f_ring02R': 'rightRingIntermediate',
+    'DEF-f_ring03R': 'rightRingDistal',
+    'DEF-f_pinky01R': 'rightLittleProximal',
+    'DEF-f_pinky02R': 'rightLittleIntermediate',
+    'DEF-f_pinky03R': 'rightLittleDistal'
+  }
+
+  /**
+   * VRM 0.x thumbs start one bone later than VRM 1.0. Names are converted to 1.0 when reading
+   */
+  private static readonly VRM0_THUMB_RENAMES: Record<string, string> = {
+    leftThumbProximal: 'leftThumbMetacarpal',
+    leftThumbIntermediate: 'leftThumbProximal',
+    rightThumbProximal: 'rightThumbMetacarpal',
+    rightThumbIntermediate: 'rightThumbProximal'
+  }
+
+  /**
+   * @returns VRM 1.0 humanoid bone name for a Mesh2Motion bone, or undefined if it has none
+   */
+  public static vrm_bone_name (mesh2motion_bone_name: string): string | undefined {
+    return this.BONE_MAP[mesh2motion_bone_name]
+  }
+
+  /**
+   * Reads the humanoid bones from a loaded GLTF file
+   * @returns null when the file is not a VRM file
+   */
+  public static read_humanoid (gltf: GLTF): VRMHumanoidData | null {
+    const extensions = gltf.parser.json.extensions as VRMExtensions | undefined
+    let spec_version: '0.x' | '1.0'
+    const vrm_bone_nodes = new Map<string, number>()
+
+    if (extensions?.VRMC_vrm?.humanoid !== undefined) {
+      spec_version = '1.0'
+      for (const [bone_name, bone_data] of Object.entries(extensions.VRMC_vrm.humanoid.humanBones ?? {})) {
+        vrm_bone_nodes.set(bone_name, bone_data.node)
+      }
+    } else if (extensions?.VRM?.humanoid !== undefined) {
+      spec_version = '0.x'
+      for (const bone_data of extensions.VRM.humanoid.humanBones ?? []) {
+        const bone_name: string = this.VRM0_THUMB_RENAMES[bone_data.bone] ?? bone_data.bone
+        vrm_bone_nodes.set(bone_name, bone_data.node)
+      }
+    } else {
+      return null
+    }
+
+    // find the scene objects that were created for the humanoid nodes
+    const node_objects = new Map<number, Object3D>()
+    gltf.scene.updateWorldMatrix(true, true)
+    gltf.scene.traverse((child: Object3D) => {
+      const node_index: number | undefined = gltf.parser.associations.get(child)?.nodes
+      if (node_index !== undefined) {
+        node_objects.set(node_index, child)
+      }
+    })
+
+    const bone_positions = new Map<string, Vector3>()
+    for (const [mesh2motion_name, vrm_name] of Object.entries(this.BONE_MAP)) {
+      const node_index: number | undefined = vrm_bone_nodes.get(vrm_name)
+      const node_object: Object3D | undefined = node_index !== undefined ? node_objects.get(node_index) : undefined
+      if (node_object !== undefined) {
+        bone_positions.set(mesh2motion_name, node_object.getWorldPosition(new Vector3()))
+      }
+    }
+
+    this.fill_missing_spine_bones(bone_positions)
+    return { spec_version, bone_positions }
+  }
+
+  /**
+   * Chest and upper chest are optional in VRM. The rig always has them, so space them out between the spine and neck
+   */
+  private static fill_missing_spine_bones (bone_positions: Map<string, Vector3>): void {
+    const spine = bone_positions.get('DEF-spine001')
+    const neck = bone_positions.get('DEF-neck')
+    if (spine === undefined || neck === undefined) return
+
+    if (!bone_positions.has('DEF-spine002')) {
+      const upper_chest = bone_positions.get('DEF-spine003')
+      bone_positions.set('DEF-spine002', upper_chest !== undefined
+        ? spine.clone().lerp(upper_chest, 0.5)
+        : spine.clone().lerp(neck, 1 / 3))
+    }
+
+    if (!bone_positions.has('DEF-spine003')) {
+      bone_positions.set('DEF-spine003', bone_positions.get('DEF-spine002')?.clone().lerp(neck, 0.5) ?? neck.clone())
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import type JSZip from 'jszip'
+import { type FileRemap } from './ModelLoadResult'
+
+export interface ResolvedZipFile {
+  path: string // path of the file in the ZIP
+  data: Uint8Array
+}
+
+/**
+ * Finds the ZIP files that a model references. Models exported on other machines often have
+ * references like "textures\Body_D.PNG" while the ZIP holds "Textures/body_d.png", so references are matched
+ * case-insensitively, with either slash style, and finally by file name anywhere in the ZIP.
+ * References that were found under a different path are tracked so they can be shown to the user
+ */
+export class ZipFileResolver {
+  private readonly files = new Map<string, Uint8Array>() // ZIP path -> file data
+  private readonly remapped_files = new Map<string, string>() // reference -> ZIP path
+
+  /**
+   * Reads the ZIP files with a matching file extension into memory
+   */
+  public async add_files_from_zip (zip: JSZip, file_name_pattern: RegExp): Promise<void> {
+    const file_promises = Object.keys(zip.files).map(async (zip_path: string) => {
+      const file = zip.files[zip_path]
+      if (!file.dir && file_name_pattern.test(zip_path)) {
+        this.files.set(zip_path, new Uint8Array(await file.async('arraybuffer')))
+      }
+    })
+    await Promise.all(file_promises)
+  }
+
+  /**
+   * Adds a file that did not come from a ZIP, like the loose files dropped together with a model
+   */
+  public add_file (path: string, data: Uint8Array): void {
+    this.files.set(path, data)
+  }
+
+  /**
+   * @param url URL the loader asked for. Relative references are resolved against the
+   * in-memory model file, so they start with the blob URL base
+   * @returns null when no file in the ZIP matches
+   */
+  public resolve (url: string): ResolvedZipFile | null {
+    const reference: string = this.get_reference_path(url)
+    const normalized_reference: string = this.normalize_path(reference)
+    if (normalized_reference === '') return null
+
+    const zip_paths: string[] = Array.from(this.files.keys())
+
+    // the model file might be in a folder, so the reference only has to match the end of the ZIP path
+    let zip_path: string | undefined = zip_paths.find((path: string) => {
+      const normalized_path: string = this.normalize_path(path)
+      return normalized_path === normalized_reference || normalized_path.endsWith(`/${normalized_reference}`)
+    })
+
+    // fall back to the file name anywhere in the ZIP. Prefer the least nested file if there are several
+    if (zip_path === undefined) {
+      const file_name: string = this.get_file_name(normalized_reference)
+      zip_path = zip_paths
+        .filter((path: string) => this.get_file_name(this.normalize_path(path)) === file_name)
+        .sort((a: string, b: string) => a.split('/').length - b.split('/').length)[0]
+    }
+
+    const data: Uint8Array | undefined = zip_path !== undefined ? this.files.get(zip_path) : undefined
+    if (zip_path === undefined || data === undefined) return null
+
+    // only the "./" and "../" segments are allowed to differ for an exact match
+    const exact_reference: string = this.remove_relative_segments(reference)
+    if (zip_path !== exact_reference && !zip_path.endsWith(`/${exact_reference}`)) {
+      this.remapped_files.set(reference, zip_path)
+    }
+
+    return { path: zip_path, data }
+  }
+
+  public get_remapped_files (): FileRemap[] {
+    return Array.from(this.remapped_files.entries()).map(([reference, resolved_path]) => ({ reference, resolved_path }))
+  }
+
+  /**
+   * Removes the blob URL base and query string, and decodes the reference the way it was written in the model file
+   */
+  private get_reference_path (url: string): string {
+    const reference: string = url.split(/[?#]/)[0].replace(/^blob:[^:]+:\/\/[^/]*\//i, '')
+    try {
+      return decodeURIComponent(reference)
+    } catch {
+      return reference
+    }
+  }
+
+  private remove_relative_segments (path: string): string {
+    return path.split('/')
+      .filter((segment: string) => segment !== '' && segment !== '.' && segment !== '..')
+      .join('/')
+  }
+
+  // lower case with forward slashes, so references match however they were written
+  private normalize_path (path: string): string {
+    return this.remove_relative_segments(path.replace(/\\/g, '/')).toLowerCase()
+  }
+
+  private get_file_name (normalized_path: string): string {
+    return normalized_path.split('/').pop() ?? normalized_path
+  }
+}
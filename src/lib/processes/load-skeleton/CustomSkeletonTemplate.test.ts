@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { CustomSkeletonTemplate } from './CustomSkeletonTemplate'
+import { type SkeletonTemplate } from './interfaces/SkeletonTemplate'
+import { create_glb } from '../../test-helpers/TestFiles'
+
+// GLB file as picked in the file input
+function create_glb_file (file_name: string, gltf_json: object, buffer_values?: Float32Array): File {
+  return new File([create_glb(gltf_json, buffer_values)], file_name)
+}
+
+// hips with a left and right hand. Nodes used as skin joints are loaded as bones
+function create_rig_file (): File {
+  return create_glb_file('my-rig.glb', {
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [
+      { name: 'hips', children: [1, 2] },
+      { name: 'hand_L', translation: [0.5, 0, 0] },
+      { name: 'hand_R', translation: [-0.5, 0, 0] }
+    ],
+    skins: [{ joints: [0, 1, 2] }]
+  })
+}
+
+// one animation that rotates a single bone
+function create_animation_file (file_name: string, bone_name: string): File {
+  const buffer_values = new Float32Array([0, 1, 0, 0, 0, 1, 0, 0.7071, 0, 0.7071])
+  return create_glb_file(file_name, {
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ name: bone_name }],
+    animations: [{
+      name: 'Turn',
+      samplers: [{ input: 0, output: 1 }],
+      channels: [{ sampler: 0, target: { node: 0, path: 'rotation' } }]
+    }],
+    buffers: [{ byteLength: buffer_values.byteLength }],
+    bufferViews: [{ buffer: 0, byteOffset: 0, byteLength: 8 }, { buffer: 0, byteOffset: 8, byteLength: 32 }],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: 2, type: 'SCALAR', min: [0], max: [1] },
+      { bufferView: 1, componentType: 5126, count: 2, type: 'VEC4' }
+    ]
+  }, buffer_values)
+}
+
+describe('CustomSkeletonTemplate', () => {
+  describe('create_template', () => {
+    it('should create a template from a rig and animations made for it', async () => {
+      const template: SkeletonTemplate = await CustomSkeletonTemplate.create_template(create_rig_file(),
+        [create_animation_file('walk.glb', 'hips'), create_animation_file('wave.glb', 'hand_L')])
+
+      expect(template.id).toMatch(/^custom-\d+$/)
+      expect(template.display_name).toBe('Custom: my-rig')
+      expect(template.is_custom).toBe(true)
+      expect(template.rig_file).toMatch(/^blob:/)
+      expect(template.animation_files.length).toBe(2)
+      expect(template.mirror_naming).toEqual({ left_suffix: '_L', right_suffix: '_R' })
+    })
+
+    it('should give each template its own id', async () => {
+      const animation_files: File[] = [create_animation_file('walk.glb', 'hips')]
+      const first_template: SkeletonTemplate = await CustomSkeletonTemplate.create_template(create_rig_file(), animation_files)
+      const second_template: SkeletonTemplate = await CustomSkeletonTemplate.create_template(create_rig_file(), animation_files)
+      expect(first_template.id).not.toBe(second_template.id)
+    })
+
+    it('should reject a rig without bones', async () => {
+      const rig_file: File = create_glb_file('empty.glb', { asset: { version: '2.0' }, scene: 0, scenes: [{ nodes: [0] }], nodes: [{ name: 'hips' }] })
+      await expect(CustomSkeletonTemplate.create_template(rig_file, [create_animation_file('walk.glb', 'hips')]))
+        .rejects.toThrow('empty.glb does not have any bones.')
+    })
+
+    it('should reject a rig without animations', async () => {
+      await expect(CustomSkeletonTemplate.create_template(create_rig_file(), []))
+        .rejects.toThrow('Select at least one animation GLB file.')
+    })
+
+    it('should reject animations made for another rig', async () => {
+      const animation_files: File[] = [create_animation_file('walk.glb', 'hips'), create_animation_file('other-rig.glb', 'mixamorigHips')]
+      await expect(CustomSkeletonTemplate.create_template(create_rig_file(), animation_files))
+        .rejects.toThrow('other-rig.glb does not have any animations for the bones in my-rig.glb.')
+    })
+
+    it('should reject files that are not GLB files', async () => {
+      await expect(CustomSkeletonTemplate.create_template(new File(['not a model'], 'notes.txt'), []))
+        .rejects.toThrow('notes.txt is not a valid GLB file.')
+    })
+  })
+
+  describe('guess_mirror_naming', () => {
+    it('should pick the naming that pairs up the most left and right bones', () => {
+      expect(CustomSkeletonTemplate.guess_mirror_naming(['Hips', 'ArmLeft', 'ArmRight', 'LegLeft', 'LegRight']))
+        .toEqual({ left_suffix: 'Left', right_suffix: 'Right' })
+      expect(CustomSkeletonTemplate.guess_mirror_naming(['hips', 'arm_l', 'arm_r']))
+        .toEqual({ left_suffix: '_l', right_suffix: '_r' })
+
+      // "L" alone matches the end of "_L" too, but both pair up the same bones so the first option is kept
+      expect(CustomSkeletonTemplate.guess_mirror_naming(['hips', 'arm_L', 'arm_R']))
+        .toEqual({ left_suffix: '_L', right_suffix: '_R' })
+    })
+
+    it('should fall back to _L and _R when no bones pair up', () => {
+      expect(CustomSkeletonTemplate.guess_mirror_naming(['root', 'spine', 'head']))
+        .toEqual({ left_suffix: '_L', right_suffix: '_R' })
+    })
+  })
+})
@@ -0,0 +1,104 @@
+import { type AnimationClip, type Object3D } from 'three'
+import { type GLTF } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFLoaderFactory } from '../../GLTFLoaderFactory.ts'
+import { AnimationUtility } from '../animations-listing/AnimationUtility.ts'
+import { type MirrorNamingConvention, type SkeletonTemplate } from './interfaces/SkeletonTemplate.ts'
+
+/**
+ * Skeleton templates made from the user's own rig and animation GLB files, for in-house rigs that
+ * are not bundled with the app. The files are kept in memory as object URLs for the rest of the session
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class CustomSkeletonTemplate {
+  // ways left and right bones are commonly named. The one that pairs up the most bones is used
+  private static readonly mirror_naming_options: MirrorNamingConvention[] = [
+    { left_suffix: '_L', right_suffix: '_R' },
+    { left_suffix: 'L', right_suffix: 'R' },
+    { left_suffix: '_l', right_suffix: '_r' },
+    { left_suffix: 'Left', right_suffix: 'Right' }
+  ]
+
+  private static created_template_count: number = 0
+
+  /**
+   * Checks the files and creates a template that can be added to the SkeletonTemplateRegistry
+   * @throws Error with a message that can be shown to the user when the files cannot be used
+   */
+  public static async create_template (rig_file: File, animation_files: File[]): Promise<SkeletonTemplate> {
+    const rig_bone_names: string[] = this.get_bone_names((await this.parse_glb(rig_file)).scene)
+    if (rig_bone_names.length === 0) {
+      throw new Error(`${rig_file.name} does not have any bones.`)
+    }
+
+    if (animation_files.length === 0) {
+      throw new Error('Select at least one animation GLB file.')
+    }
+
+    // animation packs made for another rig would not have anything left to play after filtering
+    for (const animation_file of animation_files) {
+      const animation_clips: AnimationClip[] = AnimationUtility.deep_clone_animation_clips((await this.parse_glb(animation_file)).animations)
+      if (AnimationUtility.filter_tracks_to_bones(animation_clips, rig_bone_names).length === 0) {
+        throw new Error(`${animation_file.name} does not have any animations for the bones in ${rig_file.name}.`)
+      }
+    }
+
+    this.created_template_count++
+    return {
+      id: `custom-${this.created_template_count}`,
+      display_name: `Custom: ${rig_file.name.replace(/\.glb$/i, '')}`,
+      is_custom: true,
+      rig_file: URL.createObjectURL(rig_file),
+      animation_files: animation_files.map((animation_file: File) => URL.createObjectURL(animation_file)),
+      preview_folder: null,
+      sample_model_file: null,
+      mirror_naming: this.guess_mirror_naming(rig_bone_names),
+      // bone names of uploaded rigs are unknown, so only the overall scale can be changed
+      proportion_chains: { arms: [], legs: [], spine: [], neck: [], tail: [] },
+      variations: [],
+      features: { head_weight_correction: false, leg_gap_bones: [] }
+    }
+  }
+
+  /**
+   * @returns the naming convention that pairs up the most left and right bones
+   */
+  public static guess_mirror_naming (bone_names: string[]): MirrorNamingConvention {
+    const bone_name_set = new Set<string>(bone_names)
+    let best_naming: MirrorNamingConvention = this.mirror_naming_options[0]
+    let best_pair_count: number = 0
+
+    this.mirror_naming_options.forEach((naming: MirrorNamingConvention) => {
+      const pair_count: number = bone_names.filter((bone_name: string) => {
+        return bone_name.endsWith(naming.left_suffix) &&
+          bone_name_set.has(bone_name.slice(0, -naming.left_suffix.length) + naming.right_suffix)
+      }).length
+
+      if (pair_count > best_pair_count) {
+        best_naming = naming
+        best_pair_count = pair_count
+      }
+    })
+
+    return best_naming
+  }
+
+  private static async parse_glb (file: File): Promise<GLTF> {
+    try {
+      return await GLTFLoaderFactory.create_loader().parseAsync(await file.arrayBuffer(), '')
+    } catch (error) {
+      console.error('error reading custom skeleton template file: ', error)
+      throw new Error(`${file.name} is not a valid GLB file.`)
+    }
+  }
+
+  // three.js sanitizes the names, the same as when the rig and animations are loaded later
+  private static get_bone_names (scene: Object3D): string[] {
+    const bone_names: string[] = []
+    scene.traverse((child: Object3D) => {
+      if (child.type === 'Bone') {
+        bone_names.push(child.name)
+      }
+    })
+    return bone_names
+  }
+}
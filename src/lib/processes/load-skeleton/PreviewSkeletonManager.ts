@@ -1,8 +1,12 @@
-import { Group, type Object3D, type Object3DEventMap, SkeletonHelper, type Scene } from 'three'
-import { type GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader'
+import { Group, type Object3D, type Object3DEventMap, SkeletonHelper, type Scene, type Vector3 } from 'three'
+import { type GLTF } from 'three/examples/jsm/loaders/GLTFLoader'
+import { GLTFLoaderFactory } from '../../GLTFLoaderFactory'
 import type GLTFResult from './interfaces/GLTFResult'
-import { type HandSkeletonType, SkeletonType } from '../../enums/SkeletonType'
-import { HandHelper } from './HandHelper'
+import { type SkeletonTemplate } from './interfaces/SkeletonTemplate'
+import { SkeletonTemplateRegistry } from './SkeletonTemplateRegistry'
+import { SkeletonVariations } from './SkeletonVariations'
+import { type LimbProportions } from './interfaces/LimbProportions'
+import { SkeletonProportions } from './SkeletonProportions'
 
 const skeleton_group_name: string = 'preview_skeleton_group'
 
@@ -11,9 +15,10 @@ const skeleton_group_name: string = 'preview_skeleton_group'
 // and then add the new one based on the selected type
 export async function add_preview_skeleton (
   root: Scene,
-  skeleton_file_path: SkeletonType,
-  hand_skeleton_type: HandSkeletonType,
-  skeleton_scale: number = 1.0
+  skeleton_template: SkeletonTemplate,
+  variation_choices: Map<string, string>,
+  skeleton_scale: number = 1.0,
+  limb_proportions: LimbProportions = SkeletonProportions.default_proportions()
 ): Promise<Object3D<Object3DEventMap>> {
   let preview_skeleton_group = root.getObjectByName(skeleton_group_name) as Group | undefined
 
@@ -21,10 +26,16 @@ export async function add_preview_skeleton (
   if (preview_skeleton_group !== undefined) {
     // Read previous skeleton info from userData
     const previous_file_path = preview_skeleton_group.userData.skeleton_file_path
-    const previous_hand_type = preview_skeleton_group.userData.hand_skeleton_type
-    if (previous_file_path === skeleton_file_path && previous_hand_type === hand_skeleton_type) {
-      // Only update scale
+    const previous_variation_key = preview_skeleton_group.userData.variation_key
+    if (previous_file_path === skeleton_template.rig_file && previous_variation_key === variation_key(variation_choices)) {
+      // Only update scale and proportions
       preview_skeleton_group.scale.set(skeleton_scale, skeleton_scale, skeleton_scale)
+      // the skeleton can still be loading
+      const previous_loaded_scene: Object3D | undefined = preview_skeleton_group.userData.loaded_scene
+      const rest_positions: Map<string, Vector3> | undefined = preview_skeleton_group.userData.rest_positions
+      if (previous_loaded_scene !== undefined && rest_positions !== undefined) {
+        SkeletonProportions.apply_proportions(previous_loaded_scene, skeleton_template.proportion_chains, limb_proportions, rest_positions)
+      }
       // Return the first child (should be loaded_scene)
       return preview_skeleton_group.children[0]
     } else {
@@ -37,16 +48,20 @@ export async function add_preview_skeleton (
   preview_skeleton_group = new Group()
   preview_skeleton_group.name = skeleton_group_name
   // Store current skeleton info for future comparison
-  preview_skeleton_group.userData.skeleton_file_path = skeleton_file_path
-  preview_skeleton_group.userData.hand_skeleton_type = hand_skeleton_type
+  preview_skeleton_group.userData.skeleton_file_path = skeleton_template.rig_file
+  preview_skeleton_group.userData.variation_key = variation_key(variation_choices)
   root.add(preview_skeleton_group)
 
   // Load and customize skeleton
-  const loaded_scene: Object3D<Object3DEventMap> = await load_skeleton(`${import.meta.env.BASE_URL}${skeleton_file_path}`)
-  if (skeleton_file_path === SkeletonType.Human) {
-    const helper = new HandHelper()
-    helper.modify_hand_skeleton(loaded_scene, hand_skeleton_type)
-  }
+  const loaded_scene: Object3D<Object3DEventMap> = await load_skeleton(SkeletonTemplateRegistry.rig_file_url(skeleton_template))
+  SkeletonVariations.apply_variations(loaded_scene, skeleton_template.variations, variation_choices)
+
+  // keep the original bone positions so changing the proportions again does not add up
+  const rest_positions: Map<string, Vector3> = SkeletonProportions.rest_positions(loaded_scene)
+  preview_skeleton_group.userData.loaded_scene = loaded_scene
+  preview_skeleton_group.userData.rest_positions = rest_positions
+  SkeletonProportions.apply_proportions(loaded_scene, skeleton_template.proportion_chains, limb_proportions, rest_positions)
+
   const skeleton_helper = new SkeletonHelper(loaded_scene.children[0])
   skeleton_helper.name = 'preview_skeleton'
   preview_skeleton_group.add(skeleton_helper)
@@ -55,8 +70,16 @@ export async function add_preview_skeleton (
   return loaded_scene
 }
 
+// the same variation choices always make the same key, so we know when the skeleton needs to be loaded again
+function variation_key (variation_choices: Map<string, string>): string {
+  return Array.from(variation_choices.entries())
+    .map(([variation_id, choice_id]) => `${variation_id}=${choice_id}`)
+    .sort()
+    .join('&')
+}
+
 async function load_skeleton (file_path: string): Promise<Object3D<Object3DEventMap>> {
-  const loader = new GLTFLoader()
+  const loader = GLTFLoaderFactory.create_loader()
   const gltf: GLTF | GLTFResult = await loader.loadAsync(file_path)
   // If your GLTFResult extends GLTF and has `.scene`, this is fine:
   return gltf.scene as Object3D<Object3DEventMap>
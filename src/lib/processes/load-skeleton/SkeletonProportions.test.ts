@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { type Bone, Object3D, Vector3 } from 'three'
+import { SkeletonProportions } from './SkeletonProportions'
+import { type ProportionChain } from './interfaces/LimbProportions'
+import { create_bone } from '../../test-helpers/TestRigs'
+
+const proportion_chains: Record<ProportionChain, string[]> = {
+  arms: [],
+  legs: ['thigh'],
+  spine: ['spine'],
+  neck: ['neck'],
+  tail: []
+}
+
+// hips > thigh > shin, and hips > spine > neck > head. Every bone is 1 unit from its parent
+function create_armature (): Object3D {
+  const armature = new Object3D()
+  const hips: Bone = create_bone('hips', armature, 0, 1)
+  create_bone('shin', create_bone('thigh', hips, 0, -1), 0, -1)
+  create_bone('head', create_bone('neck', create_bone('spine', hips, 0, 1), 0, 1), 0, 1)
+  return armature
+}
+
+function local_y (armature: Object3D, bone_name: string): number | undefined {
+  return armature.getObjectByName(bone_name)?.position.y
+}
+
+describe('SkeletonProportions', () => {
+  describe('apply_proportions', () => {
+    it('should scale each bone by the chain its parent is in', () => {
+      const armature: Object3D = create_armature()
+      SkeletonProportions.apply_proportions(armature, proportion_chains, { arms: 1, legs: 2, spine: 3, neck: 0.5, tail: 1 })
+
+      expect(local_y(armature, 'hips')).toBe(1) // not in a chain
+      expect(local_y(armature, 'thigh')).toBe(-1) // the chain starts at the thigh, so its own position is from the hips
+      expect(local_y(armature, 'shin')).toBe(-2)
+      expect(local_y(armature, 'neck')).toBe(3) // the length of the spine
+      expect(local_y(armature, 'head')).toBe(0.5)
+    })
+
+    it('should find the chain further up the hierarchy', () => {
+      const armature: Object3D = create_armature()
+      const shin: Object3D | undefined = armature.getObjectByName('shin')
+      if (shin !== undefined) create_bone('foot', shin, 0, -1)
+
+      SkeletonProportions.apply_proportions(armature, proportion_chains, { ...SkeletonProportions.default_proportions(), legs: 2 })
+      expect(local_y(armature, 'foot')).toBe(-2)
+    })
+
+    it('should scale from the rest positions, so applying proportions again does not add up', () => {
+      const armature: Object3D = create_armature()
+      const rest_positions: Map<string, Vector3> = SkeletonProportions.rest_positions(armature)
+      expect(rest_positions.get('shin')).toEqual(new Vector3(0, -1, 0))
+
+      const long_legs = { ...SkeletonProportions.default_proportions(), legs: 2 }
+      SkeletonProportions.apply_proportions(armature, proportion_chains, long_legs, rest_positions)
+      SkeletonProportions.apply_proportions(armature, proportion_chains, long_legs, rest_positions)
+      expect(local_y(armature, 'shin')).toBe(-2)
+
+      SkeletonProportions.apply_proportions(armature, proportion_chains, SkeletonProportions.default_proportions(), rest_positions)
+      expect(local_y(armature, 'shin')).toBe(-1)
+    })
+
+    it('should leave objects that are not bones alone', () => {
+      const armature: Object3D = create_armature()
+      const socket = new Object3D()
+      socket.position.set(0, -1, 0)
+      armature.getObjectByName('shin')?.add(socket)
+
+      SkeletonProportions.apply_proportions(armature, proportion_chains, { ...SkeletonProportions.default_proportions(), legs: 2 })
+      expect(socket.position.y).toBe(-1)
+    })
+  })
+
+  describe('leg_length_scale', () => {
+    it('should follow the leg proportion when the template has leg chains', () => {
+      const long_legs = { ...SkeletonProportions.default_proportions(), legs: 1.5 }
+      expect(SkeletonProportions.leg_length_scale(proportion_chains, long_legs)).toBe(1.5)
+      expect(SkeletonProportions.leg_length_scale({ ...proportion_chains, legs: [] }, long_legs)).toBe(1)
+    })
+  })
+})
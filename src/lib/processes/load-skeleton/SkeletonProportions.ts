@@ -0,0 +1,74 @@
+import { type Object3D, type Vector3 } from 'three'
+import { type LimbProportions, type ProportionChain } from './interfaces/LimbProportions.ts'
+
+/**
+ * Changes the bone lengths along the arm, leg, spine, neck and tail chains of a skeleton template.
+ * A bone's position is the length of its parent bone, so each bone is moved by the chain its parent is in
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class SkeletonProportions {
+  public static default_proportions (): LimbProportions {
+    return { arms: 1.0, legs: 1.0, spine: 1.0, neck: 1.0, tail: 1.0 }
+  }
+
+  /**
+   * Local position of every bone, so the proportions can be applied again later without adding up
+   * @returns bone name -> local position
+   */
+  public static rest_positions (armature: Object3D): Map<string, Vector3> {
+    const rest_positions = new Map<string, Vector3>()
+    armature.traverse((child: Object3D) => {
+      if (child.type === 'Bone') {
+        rest_positions.set(child.name, child.position.clone())
+      }
+    })
+    return rest_positions
+  }
+
+  /**
+   * Moves the bones of the armature. Bones outside of every chain (hips, root, etc.) are left as they are
+   * @param rest_positions positions to scale from. Defaults to the current positions of the armature
+   */
+  public static apply_proportions (
+    armature: Object3D,
+    proportion_chains: Record<ProportionChain, string[]>,
+    proportions: LimbProportions,
+    rest_positions: Map<string, Vector3> = this.rest_positions(armature)
+  ): void {
+    const chain_start_bones = new Map<string, ProportionChain>()
+    Object.entries(proportion_chains).forEach(([chain, bone_names]) => {
+      bone_names.forEach((bone_name: string) => chain_start_bones.set(bone_name, chain as ProportionChain))
+    })
+
+    armature.traverse((child: Object3D) => {
+      const rest_position: Vector3 | undefined = rest_positions.get(child.name)
+      if (child.type !== 'Bone' || child.parent === null || rest_position === undefined) {
+        return
+      }
+
+      const chain: ProportionChain | null = this.chain_for_bone(child.parent, chain_start_bones)
+      child.position.copy(rest_position).multiplyScalar(chain === null ? 1.0 : proportions[chain])
+    })
+    armature.updateMatrixWorld(true)
+  }
+
+  /**
+   * Position keyframes (hips movement) follow the legs, so longer legs need a higher and longer stride
+   */
+  public static leg_length_scale (proportion_chains: Record<ProportionChain, string[]>, proportions: LimbProportions): number {
+    return proportion_chains.legs.length > 0 ? proportions.legs : 1.0
+  }
+
+  // the closest chain start going up the hierarchy
+  private static chain_for_bone (bone: Object3D, chain_start_bones: Map<string, ProportionChain>): ProportionChain | null {
+    let current: Object3D | null = bone
+    while (current !== null && current.type === 'Bone') {
+      const chain: ProportionChain | undefined = chain_start_bones.get(current.name)
+      if (chain !== undefined) {
+        return chain
+      }
+      current = current.parent
+    }
+    return null
+  }
+}
@@ -0,0 +1,113 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { type Object3D } from 'three'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { skeleton_template_manifest } from './SkeletonTemplateManifest'
+import { SkeletonVariations } from './SkeletonVariations'
+import { type SkeletonTemplate } from './interfaces/SkeletonTemplate'
+import { read_static_file } from '../../test-helpers/TestFiles'
+
+/**
+ * Loads the rig of a shipped skeleton template from the static folder
+ */
+async function load_rig (template: SkeletonTemplate): Promise<Object3D> {
+  return (await new GLTFLoader().parseAsync(read_static_file(template.rig_file), '')).scene
+}
+
+function bone_names (armature: Object3D): string[] {
+  const names: string[] = []
+  armature.traverse((child: Object3D) => {
+    if (child.type === 'Bone') {
+      names.push(child.name)
+    }
+  })
+  return names
+}
+
+// template id/variation id/choice id -> bones the choice removes from the shipped rig
+const removed_bone_counts: Record<string, number> = {
+  'human/hands/thumb-and-index': 28,
+  'human/hands/simplified-hand': 10,
+  'human/hands/single-bone': 38,
+  'human/toes/no-toes': 4,
+  'human/spine/spine-2': 1,
+  'quadraped/spine/spine-3': 2,
+  'quadraped/tail/tail-3': 1,
+  'quadraped/tail/tail-2': 2,
+  'quadraped/tail/no-tail': 5,
+  'bird/feathers/no-feathers': 16,
+  'dragon/spine/spine-3': 4,
+  'dragon/tail/tail-4': 4,
+  'dragon/tail/tail-2': 8
+}
+
+function find_template (template_id: string): SkeletonTemplate {
+  const template: SkeletonTemplate | undefined = skeleton_template_manifest.find((template: SkeletonTemplate) => template.id === template_id)
+  if (template === undefined) {
+    throw new Error(`${template_id} is not in the manifest`)
+  }
+  return template
+}
+
+// the left hand bones that are left after applying a human hand choice
+async function human_left_hand_bones (choice_id: string): Promise<string[]> {
+  const armature: Object3D = await load_rig(find_template('human'))
+  SkeletonVariations.apply_variations(armature, find_template('human').variations, new Map([['hands', choice_id]]))
+
+  const hand: Object3D | undefined = armature.getObjectByName('DEF-handL')
+  return hand === undefined ? [] : bone_names(hand).filter((name: string) => name !== 'DEF-handL')
+}
+
+describe('skeleton_template_manifest', () => {
+  describe.each(skeleton_template_manifest.map((template: SkeletonTemplate) => [template.id, template]))('%s', (_id, template: SkeletonTemplate) => {
+    it('should only use proportion chain bones that are in the rig', async () => {
+      const rig_bone_names: string[] = bone_names(await load_rig(template))
+      Object.values(template.proportion_chains).forEach((chain_bone_names: string[]) => {
+        chain_bone_names.forEach((bone_name: string) => {
+          expect(rig_bone_names, `${bone_name} is not in ${template.rig_file}`).toContain(bone_name)
+        })
+      })
+    })
+
+    it('should remove the expected number of rig bones for each variation choice', async () => {
+      const full_bone_count: number = bone_names(await load_rig(template)).length
+
+      for (const variation of template.variations) {
+        // the first choice is the default, and keeps the rig as it is
+        for (const choice of variation.choices) {
+          const armature: Object3D = await load_rig(template)
+          SkeletonVariations.apply_variations(armature, template.variations, new Map([[variation.id, choice.id]]))
+
+          const choice_key = `${template.id}/${variation.id}/${choice.id}`
+          const expected_removed: number = choice === variation.choices[0] ? 0 : removed_bone_counts[choice_key]
+          expect(expected_removed, `no expected bone count for ${choice_key}`).toBeDefined()
+          expect(full_bone_count - bone_names(armature).length, choice_key).toBe(expected_removed)
+        }
+      }
+    })
+  })
+})
+
+describe('human hand variation', () => {
+  // same bones the hand helper kept before the hand options moved to the skeleton variations
+  it('should keep the thumb and middle finger for thumb-and-index', async () => {
+    expect(await human_left_hand_bones('thumb-and-index')).toEqual([
+      'DEF-f_middle01L', 'DEF-f_middle02L', 'DEF-f_middle03L',
+      'DEF-thumb01L', 'DEF-thumb02L', 'DEF-thumb03L'
+    ])
+  })
+
+  it('should only remove the finger tips for simplified-hand', async () => {
+    expect(await human_left_hand_bones('simplified-hand')).toEqual([
+      'DEF-f_index01L', 'DEF-f_index02L', 'DEF-f_index03L',
+      'DEF-f_middle01L', 'DEF-f_middle02L', 'DEF-f_middle03L',
+      'DEF-f_pinky01L', 'DEF-f_pinky02L', 'DEF-f_pinky03L',
+      'DEF-f_ring01L', 'DEF-f_ring02L', 'DEF-f_ring03L',
+      'DEF-thumb01L', 'DEF-thumb02L', 'DEF-thumb03L'
+    ])
+  })
+
+  it('should keep only the first middle finger bone for single-bone', async () => {
+    expect(await human_left_hand_bones('single-bone')).toEqual(['DEF-f_middle01L'])
+  })
+})
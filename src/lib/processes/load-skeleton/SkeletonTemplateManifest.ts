@@ -0,0 +1,243 @@
+import { SkeletonType } from '../../enums/SkeletonType.ts'
+import { type SkeletonTemplate } from './interfaces/SkeletonTemplate.ts'
+import { type SkeletonVariation, type SkeletonVariationChoice } from './interfaces/SkeletonVariation.ts'
+
+function variation_choice (id: string, display_name: string, remove_bones: string[], collapse_bones: string[] = []): SkeletonVariationChoice {
+  return { id, display_name, remove_bones, collapse_bones }
+}
+
+const human_hand_variation: SkeletonVariation = {
+  id: 'hands',
+  display_name: 'Hand Options',
+  description: 'Variations on which finger bones you want to keep. Single Hand Bone removes all fingers and keeps only the hand bone.',
+  bone_patterns: ['finger', 'thumb', 'index', 'middle', 'ring', 'pinky'],
+  choices: [
+    variation_choice('all-fingers', 'All Fingers', []),
+    variation_choice('thumb-and-index', 'Thumb + Main Finger', ['index', 'ring', 'pinky', 'tip']),
+    variation_choice('simplified-hand', 'All Fingers - Simplified', ['tip']),
+    variation_choice('single-bone', 'Single Hand Bone', ['index', 'ring', 'pinky', 'thumb', '02', '03', '04', 'tip'])
+  ]
+}
+
+const human_toe_variation: SkeletonVariation = {
+  id: 'toes',
+  display_name: 'Toe Options',
+  description: 'Remove the toe bones for characters wearing shoes or with simple feet.',
+  bone_patterns: ['toe'],
+  choices: [
+    variation_choice('toes', 'Toe Bone', []),
+    variation_choice('no-toes', 'No Toes', ['toe'])
+  ]
+}
+
+const human_spine_variation: SkeletonVariation = {
+  id: 'spine',
+  display_name: 'Spine Segments',
+  description: 'Fewer spine bones for short or stiff characters.',
+  bone_patterns: ['spine'],
+  choices: [
+    variation_choice('spine-3', '3 Segments', []),
+    variation_choice('spine-2', '2 Segments', [], ['DEF-spine002'])
+  ]
+}
+
+const fox_spine_variation: SkeletonVariation = {
+  id: 'spine',
+  display_name: 'Spine Segments',
+  description: 'Fewer spine bones for short or stiff characters.',
+  bone_patterns: ['spine'],
+  choices: [
+    variation_choice('spine-5', '5 Segments', []),
+    variation_choice('spine-3', '3 Segments', [], ['Spine_2', 'Spine_2001'])
+  ]
+}
+
+const fox_tail_variation: SkeletonVariation = {
+  id: 'tail',
+  display_name: 'Tail Segments',
+  description: 'Fewer tail bones for short tails. Use No Tail for characters without one.',
+  bone_patterns: ['tail'],
+  choices: [
+    variation_choice('tail-4', '4 Segments', []),
+    variation_choice('tail-3', '3 Segments', [], ['Tail_Mid001']),
+    variation_choice('tail-2', '2 Segments', [], ['Tail_Mid', 'Tail_Mid001']),
+    variation_choice('no-tail', 'No Tail', ['tail_base'])
+  ]
+}
+
+const bird_feather_variation: SkeletonVariation = {
+  id: 'feathers',
+  display_name: 'Wing Feathers',
+  description: 'Remove the feather bones for wings that do not need to spread their feathers.',
+  bone_patterns: ['wing_feather'],
+  choices: [
+    variation_choice('feathers', 'Feather Bones', []),
+    variation_choice('no-feathers', 'No Feather Bones', ['wing_feather'])
+  ]
+}
+
+const dragon_spine_variation: SkeletonVariation = {
+  id: 'spine',
+  display_name: 'Spine Segments',
+  description: 'Fewer spine bones for short or stiff characters.',
+  bone_patterns: ['spine'],
+  choices: [
+    variation_choice('spine-5', '5 Segments', []),
+    variation_choice('spine-3', '3 Segments', [], ['spine_1', 'spine_3', 'DRV_spine_1', 'DRV_spine_3'])
+  ]
+}
+
+const dragon_tail_variation: SkeletonVariation = {
+  id: 'tail',
+  display_name: 'Tail Segments',
+  description: 'Fewer tail bones for short tails.',
+  bone_patterns: ['tail'],
+  choices: [
+    variation_choice('tail-6', '6 Segments', []),
+    variation_choice('tail-4', '4 Segments', [], ['tail_2', 'tail_tip002', 'DRV_tail_2', 'DRV_tail_tip005']),
+    variation_choice('tail-2', '2 Segments', [], ['tail_2', 'tail_3', 'tail_tip002', 'tail_tip001', 'DRV_tail_2', 'DRV_tail_3', 'DRV_tail_tip005', 'DRV_tail_tip006'])
+  ]
+}
+
+// every skeleton template the app ships with. The drop-down options are listed in this order
+export const skeleton_template_manifest: SkeletonTemplate[] = [
+  {
+    id: SkeletonType.Human,
+    display_name: 'Human',
+    is_custom: false,
+    rig_file: 'rigs/rig-human.glb',
+    animation_files: ['human-base-animations.glb', 'human-addon-animations.glb'],
+    preview_folder: 'human',
+    sample_model_file: 'models/model-human.glb',
+    mirror_naming: { left_suffix: 'L', right_suffix: 'R' },
+    proportion_chains: {
+      arms: ['DEF-shoulderL', 'DEF-shoulderR'],
+      legs: ['DEF-thighL', 'DEF-thighR'],
+      spine: ['DEF-spine001'],
+      neck: ['DEF-neck'],
+      tail: []
+    },
+    variations: [human_hand_variation, human_toe_variation, human_spine_variation],
+    features: { head_weight_correction: true, leg_gap_bones: ['DEF-hips'] }
+  },
+  {
+    id: SkeletonType.Quadraped,
+    display_name: '4 Leg Creature',
+    is_custom: false,
+    rig_file: 'rigs/rig-fox.glb',
+    animation_files: ['quad-creature-animations.glb'],
+    preview_folder: 'four-legged',
+    sample_model_file: 'models/model-fox.glb',
+    mirror_naming: { left_suffix: '_L', right_suffix: '_R' },
+    proportion_chains: {
+      arms: [],
+      legs: ['Front_Leg_Shoulder_L', 'Front_Leg_Shoulder_R', 'Back_Leg_Pelvis_L', 'Back_Leg_Pelvis_R'],
+      spine: ['Spine_1'],
+      neck: ['Spine_4'],
+      tail: ['Tail_Base']
+    },
+    variations: [fox_spine_variation, fox_tail_variation],
+    features: { head_weight_correction: false, leg_gap_bones: [] }
+  },
+  {
+    id: SkeletonType.Bird,
+    display_name: 'Bird',
+    is_custom: false,
+    rig_file: 'rigs/rig-bird.glb',
+    animation_files: ['bird-animations.glb'],
+    preview_folder: 'bird',
+    sample_model_file: 'models/model-bird.glb',
+    mirror_naming: { left_suffix: '_L', right_suffix: '_R' },
+    proportion_chains: {
+      arms: ['wing_1_L', 'wing_1_R'],
+      legs: ['UpperLeg_L', 'UpperLeg_R'],
+      spine: ['spine_0'],
+      neck: ['spine_3'],
+      tail: ['tail_1']
+    },
+    variations: [bird_feather_variation],
+    features: { head_weight_correction: false, leg_gap_bones: [] }
+  },
+  {
+    id: SkeletonType.Dragon,
+    display_name: 'Dragon',
+    is_custom: false,
+    rig_file: 'rigs/rig-dragon.glb',
+    animation_files: ['dragon-animations.glb'],
+    preview_folder: 'dragon',
+    sample_model_file: 'models/model-dragon.glb',
+    mirror_naming: { left_suffix: '_L', right_suffix: '_R' },
+    proportion_chains: {
+      arms: ['wing_1_L', 'wing_1_R', 'DRV_wing_1_L', 'DRV_wing_1_R'],
+      legs: [
+        'FrontUpperLegCollar_L', 'FrontUpperLegCollar_R', 'BackUpperLegPelvis_L', 'BackUpperLegPelvis_R',
+        'DRV_FrontUpperLegCollar_L', 'DRV_FrontUpperLegCollar_R', 'DRV_BackUpperLegPelvis_L', 'DRV_BackUpperLegPelvis_R'
+      ],
+      spine: ['spine_0', 'DRV_spine_0'],
+      neck: ['spine_4', 'DRV_spine_4'],
+      tail: ['tail_1', 'DRV_tail_1']
+    },
+    variations: [dragon_spine_variation, dragon_tail_variation],
+    features: { head_weight_correction: false, leg_gap_bones: [] }
+  },
+  {
+    id: SkeletonType.Insect,
+    display_name: 'Insect (6 Legs)',
+    is_custom: false,
+    rig_file: 'rigs/rig-insect.glb',
+    animation_files: ['insect-animations.glb'],
+    preview_folder: null,
+    sample_model_file: null,
+    mirror_naming: { left_suffix: '_L', right_suffix: '_R' },
+    proportion_chains: {
+      arms: [],
+      legs: ['Leg1_Coxa_L', 'Leg1_Coxa_R', 'Leg2_Coxa_L', 'Leg2_Coxa_R', 'Leg3_Coxa_L', 'Leg3_Coxa_R'],
+      spine: ['Abdomen_1'],
+      neck: ['Head'],
+      tail: []
+    },
+    variations: [],
+    features: { head_weight_correction: false, leg_gap_bones: ['Thorax'] }
+  },
+  {
+    id: SkeletonType.Spider,
+    display_name: 'Spider (8 Legs)',
+    is_custom: false,
+    rig_file: 'rigs/rig-spider.glb',
+    animation_files: ['spider-animations.glb'],
+    preview_folder: null,
+    sample_model_file: null,
+    mirror_naming: { left_suffix: '_L', right_suffix: '_R' },
+    proportion_chains: {
+      arms: ['Pedipalp_L', 'Pedipalp_R'],
+      legs: [
+        'Leg1_Coxa_L', 'Leg1_Coxa_R', 'Leg2_Coxa_L', 'Leg2_Coxa_R',
+        'Leg3_Coxa_L', 'Leg3_Coxa_R', 'Leg4_Coxa_L', 'Leg4_Coxa_R'
+      ],
+      spine: ['Pedicel'],
+      neck: ['Head'],
+      tail: []
+    },
+    variations: [],
+    features: { head_weight_correction: false, leg_gap_bones: ['Cephalothorax'] }
+  },
+  {
+    id: SkeletonType.Serpent,
+    display_name: 'Snake / Worm',
+    is_custom: false,
+    rig_file: 'rigs/rig-serpent.glb',
+    animation_files: ['serpent-animations.glb'],
+    preview_folder: null,
+    sample_model_file: null,
+    mirror_naming: { left_suffix: '_L', right_suffix: '_R' },
+    proportion_chains: {
+      arms: [],
+      legs: [],
+      spine: ['Spine_01'],
+      neck: ['Neck'],
+      tail: ['Tail_01']
+    },
+    variations: [],
+    features: { head_weight_correction: false, leg_gap_bones: [] }
+  }
+]
@@ -0,0 +1,41 @@
+import { existsSync } from 'fs'
+import { describe, it, expect } from 'vitest'
+import { SkeletonTemplateRegistry } from './SkeletonTemplateRegistry'
+import { skeleton_template_manifest } from './SkeletonTemplateManifest'
+import { type SkeletonTemplate } from './interfaces/SkeletonTemplate'
+import { SkeletonType } from '../../enums/SkeletonType'
+
+describe('SkeletonTemplateRegistry', () => {
+  describe('get_template', () => {
+    it('should find every bundled template by its id', () => {
+      skeleton_template_manifest.forEach((template: SkeletonTemplate) => {
+        expect(SkeletonTemplateRegistry.get_template(template.id)).toBe(template)
+      })
+    })
+
+    it('should not find unknown ids or the "select a skeleton" placeholder', () => {
+      expect(SkeletonTemplateRegistry.get_template('unknown-skeleton')).toBeUndefined()
+      expect(SkeletonTemplateRegistry.get_template(SkeletonType.None)).toBeUndefined()
+    })
+  })
+
+  describe('animation_file_paths', () => {
+    it('should put the animations folder in front of the animation files of every bundled template', () => {
+      skeleton_template_manifest.forEach((template: SkeletonTemplate) => {
+        const file_paths: string[] = SkeletonTemplateRegistry.animation_file_paths(template.id, 'static/animations/')
+
+        expect(file_paths.length, template.id).toBeGreaterThan(0)
+        file_paths.forEach((file_path: string) => {
+          expect(existsSync(file_path), file_path).toBe(true)
+        })
+      })
+
+      expect(SkeletonTemplateRegistry.animation_file_paths(SkeletonType.Human, '/animations/'))
+        .toEqual(['/animations/human-base-animations.glb', '/animations/human-addon-animations.glb'])
+    })
+
+    it('should not have animation files for unknown ids', () => {
+      expect(SkeletonTemplateRegistry.animation_file_paths('unknown-skeleton', '/animations/')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,66 @@
+import { type SkeletonTemplate } from './interfaces/SkeletonTemplate.ts'
+import { skeleton_template_manifest } from './SkeletonTemplateManifest.ts'
+
+/**
+ * Looks up skeleton templates by id. Adding a creature type only needs a new entry in the manifest,
+ * the drop-downs, animation loading and preview videos all read from here
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class SkeletonTemplateRegistry {
+  private static readonly templates = new Map<string, SkeletonTemplate>(
+    skeleton_template_manifest.map((template: SkeletonTemplate) => [template.id, template])
+  )
+
+  /**
+   * @returns undefined for unknown ids, and for the "select a skeleton" placeholder
+   */
+  public static get_template (template_id: string): SkeletonTemplate | undefined {
+    return this.templates.get(template_id)
+  }
+
+  public static get_all_templates (): SkeletonTemplate[] {
+    return Array.from(this.templates.values())
+  }
+
+  /**
+   * Adds a custom template for the rest of the session. Replaces a template with the same id
+   */
+  public static register_template (template: SkeletonTemplate): void {
+    this.templates.set(template.id, template)
+  }
+
+  /**
+   * URL the rig GLB can be loaded from
+   */
+  public static rig_file_url (template: SkeletonTemplate): string {
+    return template.is_custom ? template.rig_file : `${import.meta.env.BASE_URL}${template.rig_file}`
+  }
+
+  /**
+   * @param animations_folder folder with the animation GLB files, including the trailing slash.
+   * Not used for custom templates
+   */
+  public static animation_file_paths (template_id: string, animations_folder: string): string[] {
+    const template: SkeletonTemplate | undefined = this.get_template(template_id)
+    if (template === undefined) return []
+    if (template.is_custom) return template.animation_files.slice()
+    return template.animation_files.map((file_name: string) => `${animations_folder}${file_name}`)
+  }
+
+  /**
+   * Adds an option for each template to a skeleton drop-down. Options that are already there,
+   * like the "select a skeleton" placeholder, are kept in front
+   */
+  public static add_select_options (select_element: HTMLSelectElement): void {
+    this.templates.forEach((template: SkeletonTemplate) => {
+      this.add_select_option(select_element, template)
+    })
+  }
+
+  public static add_select_option (select_element: HTMLSelectElement, template: SkeletonTemplate): void {
+    const option: HTMLOptionElement = document.createElement('option')
+    option.value = template.id
+    option.textContent = template.display_name
+    select_element.appendChild(option)
+  }
+}
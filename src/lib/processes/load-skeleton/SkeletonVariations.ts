@@ -0,0 +1,82 @@
+import { type Object3D } from 'three'
+import { type SkeletonVariation, type SkeletonVariationChoice } from './interfaces/SkeletonVariation.ts'
+
+/**
+ * Applies the skeleton variation choices from the load skeleton step to a loaded rig
+ */
+// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+export class SkeletonVariations {
+  /**
+   * @returns variation id -> id of the first choice
+   */
+  public static default_choices (variations: SkeletonVariation[]): Map<string, string> {
+    const choices = new Map<string, string>()
+    variations.forEach((variation: SkeletonVariation) => {
+      if (variation.choices.length > 0) {
+        choices.set(variation.id, variation.choices[0].id)
+      }
+    })
+    return choices
+  }
+
+  /**
+   * Removes or collapses bones of the armature
+   * @param selected_choices variation id -> choice id. Variations that are not in here use the default choice
+   */
+  public static apply_variations (armature: Object3D, variations: SkeletonVariation[], selected_choices: Map<string, string>): void {
+    // children keep their world position when their parent is collapsed
+    armature.updateWorldMatrix(true, true)
+
+    variations.forEach((variation: SkeletonVariation) => {
+      const choice_id: string | undefined = selected_choices.get(variation.id)
+      const choice: SkeletonVariationChoice | undefined = variation.choices.find((choice: SkeletonVariationChoice) => choice.id === choice_id)
+      if (choice === undefined) return
+
+      const bones_to_remove: Object3D[] = this.find_bones(armature, variation.bone_patterns, choice.remove_bones)
+      const bones_to_collapse: Object3D[] = this.find_bones_by_name(armature, choice.collapse_bones)
+
+      bones_to_collapse.forEach((bone: Object3D) => {
+        const parent: Object3D | null = bone.parent
+        if (parent === null) return
+
+        // attach() keeps the world transform. copy the list since attaching removes the child from the bone
+        const children: Object3D[] = [...bone.children]
+        children.forEach((child: Object3D) => parent.attach(child))
+        parent.remove(bone)
+      })
+
+      bones_to_remove.forEach((bone: Object3D) => {
+        bone.parent?.remove(bone)
+      })
+    })
+  }
+
+  // bones the variation applies to that also match one of the choice patterns
+  private static find_bones (armature: Object3D, variation_patterns: string[], choice_patterns: string[]): Object3D[] {
+    const bones: Object3D[] = []
+    if (choice_patterns.length === 0) {
+      return bones
+    }
+
+    armature.traverse((child: Object3D) => {
+      const bone_name: string = child.name.toLowerCase()
+      if (child.type === 'Bone' &&
+        variation_patterns.some((pattern: string) => bone_name.includes(pattern)) &&
+        choice_patterns.some((pattern: string) => bone_name.includes(pattern))) {
+        bones.push(child)
+      }
+    })
+    return bones
+  }
+
+  // exact names, since chain segments are often only told apart by a number suffix (Spine_2, Spine_2001)
+  private static find_bones_by_name (armature: Object3D, bone_names: string[]): Object3D[] {
+    const bones: Object3D[] = []
+    armature.traverse((child: Object3D) => {
+      if (child.type === 'Bone' && bone_names.includes(child.name)) {
+        bones.push(child)
+      }
+    })
+    return bones
+  }
+}
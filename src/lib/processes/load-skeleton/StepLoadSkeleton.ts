@@ -1,15 +1,25 @@
 import { UI } from '../../UI.ts'
+import tippy from 'tippy.js'
 import { Object3D, type Scene, type Object3DEventMap } from 'three'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
-import { SkeletonType, type HandSkeletonType } from '../../enums/SkeletonType.js'
+import { type GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFLoaderFactory } from '../../GLTFLoaderFactory.ts'
+import { SkeletonType } from '../../enums/SkeletonType.js'
+import { type SkeletonTemplate } from './interfaces/SkeletonTemplate.ts'
+import { SkeletonTemplateRegistry } from './SkeletonTemplateRegistry.ts'
+import { CustomSkeletonTemplate } from './CustomSkeletonTemplate.ts'
+import { ModalDialog } from '../../ModalDialog.ts'
+import { Utility } from '../../Utilities.ts'
 import type GLTFResult from './interfaces/GLTFResult.ts'
 import { add_origin_markers, remove_origin_markers } from './OriginMarkerManager'
 import { add_preview_skeleton, remove_preview_skeleton } from './PreviewSkeletonManager.ts'
-import { HandHelper } from './HandHelper.ts'
+import { SkeletonVariations } from './SkeletonVariations.ts'
+import { type SkeletonVariation, type SkeletonVariationChoice } from './interfaces/SkeletonVariation.ts'
+import { type LimbProportions, type ProportionChain } from './interfaces/LimbProportions.ts'
+import { SkeletonProportions } from './SkeletonProportions.ts'
 
 // Note: EventTarget is a built-ininterface and do not need to import it
 export class StepLoadSkeleton extends EventTarget {
-  private readonly loader: GLTFLoader = new GLTFLoader()
+  private readonly loader: GLTFLoader = GLTFLoaderFactory.create_loader()
   private readonly ui: UI = UI.getInstance()
   private loaded_armature: Object3D = new Object3D()
 
@@ -21,29 +31,45 @@ export class StepLoadSkeleton extends EventTarget {
   // to prevent large offsets
   private skeleton_scale_percentage: number = 1.0
 
+  // bone length multipliers for the limb chains of the skeleton template
+  private limb_proportions: LimbProportions = SkeletonProportions.default_proportions()
+
   // this was invented since this value is stored on a DOM element
   // this helps the marketing page set the type and doesn't rely on a DOM value
   // probably could refactor this a bit to be cleaner later.
-  private manual_set_skeleton_type: SkeletonType = SkeletonType.None
+  private manual_set_skeleton_type: string = SkeletonType.None
 
-  public skeleton_type (): SkeletonType {
-    if (this.skeleton_file_path() === SkeletonType.None) {
+  // id of the skeleton template in the SkeletonTemplateRegistry
+  public skeleton_type (): string {
+    if (this.selected_skeleton_type() === SkeletonType.None) {
       return this.manual_set_skeleton_type
     }
 
-    return this.skeleton_file_path() // this is actually the type/filepath combo
+    return this.selected_skeleton_type()
   }
 
-  public set_skeleton_type (type: SkeletonType): void {
+  public set_skeleton_type (type: string): void {
     this.manual_set_skeleton_type = type
   }
 
+  public skeleton_template (): SkeletonTemplate | undefined {
+    return SkeletonTemplateRegistry.get_template(this.skeleton_type())
+  }
+
   // The edit skeleton step will use this to scale the skeleton when loading editable skeleton
   // animations listing will use this to scale all position keyframes
   public skeleton_scale (): number {
     return this.skeleton_scale_percentage
   }
 
+  // animations listing will use this to scale the position keyframes along with the legs
+  public leg_length_scale (): number {
+    const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+    if (skeleton_template === undefined) return 1.0
+
+    return SkeletonProportions.leg_length_scale(skeleton_template.proportion_chains, this.limb_proportions)
+  }
+
   constructor (main_scene: Scene) {
     super()
     this._main_scene = main_scene
@@ -64,21 +90,26 @@ export class StepLoadSkeleton extends EventTarget {
 
     // if we are navigating back to this step, we don't want to add the event listeners again
     if (!this._added_event_listeners) {
+      if (this.ui.dom_skeleton_drop_type !== null) {
+        SkeletonTemplateRegistry.add_select_options(this.ui.dom_skeleton_drop_type)
+      }
       this.add_event_listeners()
       this._added_event_listeners = true
     }
 
     // when we come back to this step, there is a good chance we already selected a skeleton
     // so just use that and load the preview right when we enter this step
-    if (!this.has_select_skeleton_ui_option()) {
-      add_preview_skeleton(this._main_scene, this.skeleton_file_path(),
-        this.hand_skeleton_type(), this.skeleton_scale_percentage).catch((err) => {
+    const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+    if (!this.has_select_skeleton_ui_option() && skeleton_template !== undefined) {
+      add_preview_skeleton(this._main_scene, skeleton_template,
+        this.variation_choices(), this.skeleton_scale_percentage, this.limb_proportions).catch((err) => {
         console.error('error loading preview skeleton: ', err)
       })
     }
 
-    // Initialize hand skeleton hand options visibility
-    this.toggle_ui_hand_skeleton_options()
+    // Initialize the skeleton variation options for the selected skeleton template
+    this.toggle_ui_skeleton_variation_options()
+    this.toggle_ui_limb_proportion_options()
 
     // add origin markers for debugging model loading issues
     add_origin_markers(this._main_scene)
@@ -101,33 +132,33 @@ export class StepLoadSkeleton extends EventTarget {
     remove_preview_skeleton(this._main_scene)
   }
 
-  private skeleton_file_path (): SkeletonType {
-    // get currently selected option out of the model-selection drop-down
+  private selected_skeleton_type (): string {
+    // get currently selected option out of the skeleton-selection drop-down
     const skeleton_selection = this.ui.dom_skeleton_drop_type.options
-    const skeleton_file: string = skeleton_selection[skeleton_selection.selectedIndex].value
+    const template_id: string = skeleton_selection[skeleton_selection.selectedIndex].value
 
-    // set the skeleton type. This will be used for the animations listing later
+    // the skeleton type will be used for the animations listing later
     // so it knows what animations to load
-    switch (skeleton_file) {
-      case 'quadraped':
-        return SkeletonType.Quadraped
-      case 'human':
-        return SkeletonType.Human
-      case 'bird':
-        return SkeletonType.Bird
-      case 'select-skeleton':
-        return SkeletonType.None
-      case 'dragon':
-        return SkeletonType.Dragon
-      default:
-        console.error('unknown skeleton type selected: ', skeleton_file)
-        return SkeletonType.Error
+    if (template_id === SkeletonType.None || SkeletonTemplateRegistry.get_template(template_id) !== undefined) {
+      return template_id
     }
+
+    console.error('unknown skeleton type selected: ', template_id)
+    return SkeletonType.Error
   }
 
-  private hand_skeleton_type (): HandSkeletonType {
-    const hand_selection = this.ui.dom_hand_skeleton_selection?.options
-    return hand_selection[hand_selection.selectedIndex].value as HandSkeletonType
+  /**
+   * @returns variation id -> choice id picked in the skeleton variation drop-downs
+   */
+  private variation_choices (): Map<string, string> {
+    const variation_choices: Map<string, string> = SkeletonVariations.default_choices(this.skeleton_template()?.variations ?? [])
+    this.ui.dom_skeleton_variation_options?.querySelectorAll<HTMLSelectElement>('select[data-variation-id]').forEach((select: HTMLSelectElement) => {
+      const variation_id: string | undefined = select.dataset.variationId
+      if (variation_id !== undefined && variation_choices.has(variation_id)) {
+        variation_choices.set(variation_id, select.value)
+      }
+    })
+    return variation_choices
   }
 
   private add_event_listeners (): void {
@@ -138,8 +169,11 @@ export class StepLoadSkeleton extends EventTarget {
         // const skeleton_selection = this.ui.dom_skeleton_drop_type.options
         // this.skeleton_t = skeleton_selection[skeleton_selection.selectedIndex].value as SkeletonType
 
-        // hand options only apply to human skeletons, so we need to show/hide when skeleton type changes
-        this.toggle_ui_hand_skeleton_options()
+        // each skeleton template has its own variation options (fingers, tail segments, etc.)
+        this.toggle_ui_skeleton_variation_options()
+
+        // each skeleton template has a different set of limbs that can be changed
+        this.toggle_ui_limb_proportion_options()
 
         // remove the "select a skeleton" option if we picked something else
         if (this.has_select_skeleton_ui_option()) {
@@ -152,7 +186,10 @@ export class StepLoadSkeleton extends EventTarget {
         // load the preview skeleton
         // need to get the file name for the correct skeleton
         // we pass the skeleton scale in the case where we set a skeleton, change scale, then change the skeleton
-        add_preview_skeleton(this._main_scene, this.skeleton_file_path(), this.hand_skeleton_type(), this.skeleton_scale()).then(() => {
+        const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+        if (skeleton_template === undefined) return
+
+        add_preview_skeleton(this._main_scene, skeleton_template, this.variation_choices(), this.skeleton_scale(), this.limb_proportions).then(() => {
           // enable the ability to progress to next step
           this.allow_proceeding_to_next_step(true)
         }).catch((err) => {
@@ -168,20 +205,41 @@ export class StepLoadSkeleton extends EventTarget {
           return
         }
 
+        const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+        if (skeleton_template === undefined) {
+          console.warn('no skeleton template selected')
+          return
+        }
+
         // add back loading information here
-        this.load_skeleton_file(`${import.meta.env.BASE_URL}${this.skeleton_file_path()}`)
+        this.load_skeleton_file(SkeletonTemplateRegistry.rig_file_url(skeleton_template))
       })
     }// end if statement
 
-    // when hand skeleton type changes. update the preview skeleton
-    this.ui.dom_hand_skeleton_selection?.addEventListener('change', () => {
-      // rebuild the preview skeleton with the new hand skeleton type
+    // when a skeleton variation changes. update the preview skeleton
+    // the drop-downs are created for each skeleton template, so listen on the container
+    this.ui.dom_skeleton_variation_options?.addEventListener('change', () => {
+      // rebuild the preview skeleton with the new skeleton variations
       // make sure we keep existing scale if we made a change to that
-      add_preview_skeleton(this._main_scene, this.skeleton_file_path(), this.hand_skeleton_type(), this.skeleton_scale()).catch((err) => {
+      const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+      if (skeleton_template === undefined) return
+
+      add_preview_skeleton(this._main_scene, skeleton_template, this.variation_choices(), this.skeleton_scale(), this.limb_proportions).catch((err) => {
         console.error('error loading preview skeleton: ', err)
       })
     })
 
+    // custom skeleton template from the user's own rig and animation files
+    this.ui.dom_custom_rig_upload?.addEventListener('change', () => {
+      this.update_custom_template_upload_ui()
+    })
+    this.ui.dom_custom_animations_upload?.addEventListener('change', () => {
+      this.update_custom_template_upload_ui()
+    })
+    this.ui.dom_add_custom_skeleton_template_button?.addEventListener('click', () => {
+      void this.add_custom_skeleton_template()
+    })
+
     // scale skeleton controls
     this.ui.dom_scale_skeleton_input?.addEventListener('input', (event) => {
       // range sliders have rounding errors, so we round the value to avoid issues
@@ -193,6 +251,62 @@ export class StepLoadSkeleton extends EventTarget {
     this.ui.dom_reset_skeleton_scale_button?.addEventListener('click', () => {
       this.update_skeleton_scale_to_value(1.0)
     })
+
+    // limb proportion controls
+    this.limb_proportion_rows().forEach((row: HTMLElement) => {
+      row.querySelector('input')?.addEventListener('input', (event) => {
+        const chain = row.dataset.proportionChain as ProportionChain
+        this.update_limb_proportion_to_value(chain, Number((event.target as HTMLInputElement).value))
+      })
+    })
+
+    this.ui.dom_reset_limb_proportions_button?.addEventListener('click', () => {
+      this.limb_proportion_rows().forEach((row: HTMLElement) => {
+        this.update_limb_proportion_to_value(row.dataset.proportionChain as ProportionChain, 1.0)
+      })
+    })
+  }
+
+  private update_custom_template_upload_ui (): void {
+    const rig_file: File | undefined = this.ui.dom_custom_rig_upload?.files?.[0]
+    const animation_file_count: number = this.ui.dom_custom_animations_upload?.files?.length ?? 0
+
+    if (this.ui.dom_custom_rig_upload_label !== null) {
+      this.ui.dom_custom_rig_upload_label.textContent = rig_file?.name ?? 'Rig GLB'
+    }
+    if (this.ui.dom_custom_animations_upload_label !== null) {
+      this.ui.dom_custom_animations_upload_label.textContent = animation_file_count > 0
+        ? `${animation_file_count} animation file(s)`
+        : 'Animation GLBs'
+    }
+    if (this.ui.dom_add_custom_skeleton_template_button !== null) {
+      this.ui.dom_add_custom_skeleton_template_button.disabled = rig_file === undefined || animation_file_count === 0
+    }
+  }
+
+  /**
+   * Adds the uploaded rig and animations as a new skeleton template and selects it.
+   * It then goes through the same steps as the bundled templates
+   */
+  private async add_custom_skeleton_template (): Promise<void> {
+    const rig_file: File | undefined = this.ui.dom_custom_rig_upload?.files?.[0]
+    const animation_files: File[] = Array.from(this.ui.dom_custom_animations_upload?.files ?? [])
+    const skeleton_selection: HTMLSelectElement | null = this.ui.dom_skeleton_drop_type
+    if (rig_file === undefined || skeleton_selection === null) return
+
+    let skeleton_template: SkeletonTemplate
+    try {
+      skeleton_template = await CustomSkeletonTemplate.create_template(rig_file, animation_files)
+    } catch (error) {
+      const message: string = error instanceof Error ? error.message : String(error)
+      new ModalDialog('Could not add custom template', Utility.escape_html(message)).show()
+      return
+    }
+
+    SkeletonTemplateRegistry.register_template(skeleton_template)
+    SkeletonTemplateRegistry.add_select_option(skeleton_selection, skeleton_template)
+    skeleton_selection.value = skeleton_template.id
+    skeleton_selection.dispatchEvent(new Event('change'))
   }
 
   private update_skeleton_scale_to_value (new_value: number): void {
@@ -203,7 +317,33 @@ export class StepLoadSkeleton extends EventTarget {
       this.ui.dom_scale_skeleton_percentage_display.textContent = display_value
     }
     // re-add the preview skeleton with the new scale
-    add_preview_skeleton(this._main_scene, this.skeleton_file_path(), this.hand_skeleton_type(), this.skeleton_scale_percentage)
+    const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+    if (skeleton_template === undefined) return
+
+    add_preview_skeleton(this._main_scene, skeleton_template, this.variation_choices(), this.skeleton_scale_percentage, this.limb_proportions)
+      .catch((err) => {
+        console.error('error loading preview skeleton: ', err)
+      })
+  }
+
+  private update_limb_proportion_to_value (chain: ProportionChain, new_value: number): void {
+    this.limb_proportions[chain] = new_value
+
+    // the reset button also moves the slider back
+    const row: HTMLElement | undefined = this.limb_proportion_rows().find((row: HTMLElement) => row.dataset.proportionChain === chain)
+    const slider: HTMLInputElement | null | undefined = row?.querySelector('input')
+    if (slider !== null && slider !== undefined) {
+      slider.value = new_value.toString()
+    }
+    const display: Element | null | undefined = row?.querySelector('.limb-proportion-display')
+    if (display !== null && display !== undefined) {
+      display.textContent = Math.round(new_value * 100).toString() + '%'
+    }
+
+    const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+    if (skeleton_template === undefined) return
+
+    add_preview_skeleton(this._main_scene, skeleton_template, this.variation_choices(), this.skeleton_scale_percentage, this.limb_proportions)
       .catch((err) => {
         console.error('error loading preview skeleton: ', err)
       })
@@ -235,10 +375,12 @@ export class StepLoadSkeleton extends EventTarget {
       this.loaded_armature = original_armature.clone()
       this.loaded_armature.name = 'Loaded Armature'
 
-      // Apply hand skeleton modifications for human skeletons
-      if (this.skeleton_file_path() === SkeletonType.Human) {
-        const helper = new HandHelper()
-        helper.modify_hand_skeleton(this.loaded_armature, this.hand_skeleton_type())
+      // remove or collapse bones for the skeleton variations we picked, then
+      // change the bone lengths to what we picked with the limb proportion sliders
+      const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+      if (skeleton_template !== undefined) {
+        SkeletonVariations.apply_variations(this.loaded_armature, skeleton_template.variations, this.variation_choices())
+        SkeletonProportions.apply_proportions(this.loaded_armature, skeleton_template.proportion_chains, this.limb_proportions)
       }
 
       // reset the armature to 0,0,0 in case it is off for some reason
@@ -285,15 +427,68 @@ export class StepLoadSkeleton extends EventTarget {
     return cloned_armature
   }
 
-  private toggle_ui_hand_skeleton_options (): void {
-    if (this.ui.dom_skeleton_drop_type === null || this.ui.dom_hand_skeleton_options === null) {
+  private limb_proportion_rows (): HTMLElement[] {
+    return Array.from(this.ui.dom_limb_proportion_controls?.querySelectorAll<HTMLElement>('[data-proportion-chain]') ?? [])
+  }
+
+  // only show the sliders for limbs the skeleton template has
+  private toggle_ui_limb_proportion_options (): void {
+    const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+    if (this.ui.dom_limb_proportion_controls === null) {
       return
     }
 
-    if (this.skeleton_file_path() === SkeletonType.Human) {
-      this.ui.dom_hand_skeleton_options.style.display = 'flex'
-    } else {
-      this.ui.dom_hand_skeleton_options.style.display = 'none'
+    let visible_row_count: number = 0
+    this.limb_proportion_rows().forEach((row: HTMLElement) => {
+      const chain = row.dataset.proportionChain as ProportionChain
+      const has_chain: boolean = (skeleton_template?.proportion_chains[chain].length ?? 0) > 0
+      row.style.display = has_chain ? 'flex' : 'none'
+      if (has_chain) visible_row_count++
+    })
+
+    this.ui.dom_limb_proportion_controls.style.display = visible_row_count > 0 ? 'flex' : 'none'
+  }
+
+  // rebuilt only when the skeleton template changes, so coming back to this step keeps the choices
+  private toggle_ui_skeleton_variation_options (): void {
+    const container: HTMLElement | null = this.ui.dom_skeleton_variation_options
+    if (container === null) {
+      return
+    }
+
+    const skeleton_template: SkeletonTemplate | undefined = this.skeleton_template()
+    const variations: SkeletonVariation[] = skeleton_template?.variations ?? []
+    container.style.display = variations.length > 0 ? 'flex' : 'none'
+    if (container.dataset.templateId === skeleton_template?.id) {
+      return
     }
+
+    container.dataset.templateId = skeleton_template?.id ?? ''
+    container.replaceChildren(...variations.map((variation: SkeletonVariation) => this.create_variation_option(variation)))
+  }
+
+  private create_variation_option (variation: SkeletonVariation): HTMLElement {
+    const label = document.createElement('span')
+    label.textContent = variation.display_name
+
+    const help_icon = document.createElement('span')
+    help_icon.className = 'material-symbols-outlined'
+    help_icon.textContent = 'help'
+    tippy(help_icon, { content: variation.description, theme: 'mesh2motion' })
+
+    const header = document.createElement('span')
+    header.style.display = 'flex'
+    header.style.gap = '1rem'
+    header.append(label, help_icon)
+
+    const select = document.createElement('select')
+    select.dataset.variationId = variation.id
+    variation.choices.forEach((choice: SkeletonVariationChoice) => {
+      select.add(new Option(choice.display_name, choice.id))
+    })
+
+    const option = document.createElement('div')
+    option.append(header, select)
+    return option
   }
 }
@@ -0,0 +1,12 @@
+/**
+ * Multiplier for the bone lengths along each kind of chain. 1.0 keeps the lengths from the rig
+ */
+export interface LimbProportions {
+  arms: number
+  legs: number
+  spine: number
+  neck: number
+  tail: number
+}
+
+export type ProportionChain = keyof LimbProportions
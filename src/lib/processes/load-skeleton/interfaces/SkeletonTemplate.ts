@@ -0,0 +1,34 @@
+import { type ProportionChain } from './LimbProportions.ts'
+import { type SkeletonVariation } from './SkeletonVariation.ts'
+
+/**
+ * Suffixes that pair up left and right bones, after three.js has sanitized the bone names.
+ * "DEF-hand.L" becomes "DEF-handL", so the human rig uses "L" and "R"
+ */
+export interface MirrorNamingConvention {
+  left_suffix: string
+  right_suffix: string
+}
+
+export interface SkeletonTemplateFeatures {
+  head_weight_correction: boolean // skin weight fix for the head on tall characters
+  // body bones that only get the vertices above the bottom of the body. Without this, the tops of
+  // legs that attach under the body (hips, thorax, etc.) can be closer to the body bone than to the leg bones
+  leg_gap_bones: string[]
+}
+
+export interface SkeletonTemplate {
+  id: string // value used in the skeleton drop-downs and for lookups
+  display_name: string
+  // custom templates are uploaded by the user. Their files are object URLs instead of paths in the static folder
+  is_custom: boolean
+  rig_file: string // relative to the static folder
+  animation_files: string[] // relative to the animations folder
+  preview_folder: string | null // folder in animpreviews with the animation preview videos
+  sample_model_file: string | null // reference model that uses this skeleton, relative to the static folder
+  mirror_naming: MirrorNamingConvention
+  // first bone of each chain the proportion sliders change. A chain goes down to where another one starts
+  proportion_chains: Record<ProportionChain, string[]>
+  variations: SkeletonVariation[] // optional simplifications, like fewer finger bones
+  features: SkeletonTemplateFeatures
+}
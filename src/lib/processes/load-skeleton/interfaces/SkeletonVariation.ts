@@ -0,0 +1,23 @@
+/**
+ * One option in a skeleton variation drop-down. Remove patterns are lowercase,
+ * and match any bone the variation applies to that has the pattern in its name.
+ * Collapsed bones are exact bone names, since a pattern can also match the next segment of the chain
+ */
+export interface SkeletonVariationChoice {
+  id: string
+  display_name: string
+  remove_bones: string[] // these bones are removed with all of their children
+  collapse_bones: string[] // exact names of bones that are removed, and their children move up to the parent. Used for fewer chain segments
+}
+
+/**
+ * Optional simplification of part of a rig, like fewer finger bones or tail segments.
+ * The load skeleton step shows a drop-down for each variation of the selected skeleton template
+ */
+export interface SkeletonVariation {
+  id: string
+  display_name: string
+  description: string // help tooltip
+  bone_patterns: string[] // lowercase name patterns of the bones this variation can change
+  choices: SkeletonVariationChoice[] // the first choice is the default, and should keep the rig as it is
+}
@@ -5,11 +5,12 @@ import { SkinningFormula } from '../../enums/SkinningFormula.ts'
 
 import { Generators } from '../../Generators.ts'
 
-import { type BufferGeometry, type Material, type Object3D, type Skeleton, SkinnedMesh, type Scene, Group, Uint16BufferAttribute, Float32BufferAttribute } from 'three'
+import { type Bone, type BufferGeometry, type Material, type Object3D, type Skeleton, SkinnedMesh, type Scene, Group, Uint16BufferAttribute, Float32BufferAttribute } from 'three'
 import BoneTesterData from '../../interfaces/BoneTesterData.ts'
-import { type SkeletonType } from '../../enums/SkeletonType.ts'
 
 import { type AbstractAutoSkinSolver } from '../../solvers/AbstractAutoSkinSolver.ts'
+import { type WeldedTopology } from '../../solvers/WeldedTopology.ts'
+import { SkinWeightTransfer } from '../../solvers/SkinWeightTransfer.ts'
 
 // Note: EventTarget is a built-ininterface and do not need to import it
 export class StepWeightSkin extends EventTarget {
@@ -21,7 +22,11 @@ export class StepWeightSkin extends EventTarget {
 
   // stores the geometry data for meshes we will skin
   private all_mesh_geometry: BufferGeometry[] = []
-  private all_mesh_materials: Material[] = []
+  private all_mesh_welded_topology: Array<WeldedTopology | undefined> = []
+  private all_mesh_materials: Array<Material | Material[]> = []
+
+  // original bone name -> skeleton bone name. When set, meshes that were uploaded skinned keep their weights
+  private weight_transfer_bone_correspondence: Map<string, string> | null = null
 
   // weight painted mesh actually has multiple meshes that will go in a group
   private readonly weight_painted_mesh_preview: Group = new Group()
@@ -41,7 +46,7 @@ export class StepWeightSkin extends EventTarget {
 
   public begin (): void { }
 
-  public create_bone_formula_object (editable_armature: Object3D, skinning_formula: string, skeleton_type: SkeletonType): AbstractAutoSkinSolver | null {
+  public create_bone_formula_object (editable_armature: Object3D, skinning_formula: string, skeleton_type: string): AbstractAutoSkinSolver | null {
     this.skinning_armature = editable_armature.clone()
     this.skinning_armature.name = 'Armature for skinning'
 
@@ -59,11 +64,13 @@ export class StepWeightSkin extends EventTarget {
 
   /**
    * @param geometry Add in all mesh geometry data to be skinned.
+   * @param welded_topology seam-aware topology for the geometry. The solver builds one if it is not passed in
    */
-  public add_to_geometry_data_to_skin (geometry: BufferGeometry): void {
+  public add_to_geometry_data_to_skin (geometry: BufferGeometry, welded_topology?: WeldedTopology): void {
     // add name to the geometry
     geometry.name = 'Mesh ' + this.all_mesh_geometry.length
     this.all_mesh_geometry.push(geometry)
+    this.all_mesh_welded_topology.push(welded_topology)
   }
 
   public get_geometry_data_to_skin (): BufferGeometry[] {
@@ -72,13 +79,13 @@ export class StepWeightSkin extends EventTarget {
 
   // This can happen multiple times, so we need a better way to handle this to store all geometries
   // this will be useful when creating the weight painted mesh and that generation being done
-  public set_mesh_geometry (geometry: BufferGeometry): void {
+  public set_mesh_geometry (geometry: BufferGeometry, welded_topology?: WeldedTopology): void {
     if (this.bone_skinning_formula === undefined) {
       console.warn('Tried to set_mesh_geometry() in weight skinning step, but bone_skinning_formula is undefined!')
       return
     }
 
-    this.bone_skinning_formula.set_geometry(geometry)
+    this.bone_skinning_formula.set_geometry(geometry, welded_topology)
   }
 
   public test_geometry (): BoneTesterData {
@@ -116,14 +123,18 @@ export class StepWeightSkin extends EventTarget {
     this.skinned_meshes = []
     this.all_mesh_materials = []
     this.all_mesh_geometry = []
+    this.all_mesh_welded_topology = []
     this.weight_painted_mesh_preview.clear()
   }
 
-  public add_mesh_material (material: Material): void {
+  public add_mesh_material (material: Material | Material[]): void {
     this.all_mesh_materials.push(material)
   }
 
-  public create_skinned_mesh (geometry: BufferGeometry, material: Material, idx: number): SkinnedMesh {
+  /**
+   * @param material material array when the geometry has groups. The groups are kept on the geometry
+   */
+  public create_skinned_mesh (geometry: BufferGeometry, material: Material | Material[], idx: number): SkinnedMesh {
     if (this.binding_skeleton === undefined) {
       console.warn('Tried to create_skinned_mesh() but binding_skeleton is undefined!')
       return
@@ -174,6 +185,13 @@ export class StepWeightSkin extends EventTarget {
     }
   }
 
+  /**
+   * @param bone_correspondence original bone name -> skeleton bone name. null to always use the solver
+   */
+  public set_weight_transfer (bone_correspondence: Map<string, string> | null): void {
+    this.weight_transfer_bone_correspondence = bone_correspondence
+  }
+
   public calculate_weights (): number[][] {
     if (this.bone_skinning_formula === undefined) {
       console.warn('Tried to calculate_weights() but bone_skinning_formula is null for some reason!')
@@ -197,13 +215,13 @@ export class StepWeightSkin extends EventTarget {
 
     // loop through each mesh geometry and calculate the weights
     this.all_mesh_geometry.forEach((geometry_data: BufferGeometry, idx: number) => {
-      this.bone_skinning_formula?.set_geometry(geometry_data)
-      const [final_skin_indices, final_skin_weights]: number[][] = this.calculate_weights()
+      this.bone_skinning_formula?.set_geometry(geometry_data, this.all_mesh_welded_topology[idx])
+      const [final_skin_indices, final_skin_weights]: number[][] = this.calculate_weights_for_geometry(geometry_data)
 
       geometry_data.setAttribute('skinIndex', new Uint16BufferAttribute(final_skin_indices, 4))
       geometry_data.setAttribute('skinWeight', new Float32BufferAttribute(final_skin_weights, 4))
 
-      const associated_material: Material = this.all_mesh_materials[idx]
+      const associated_material: Material | Material[] = this.all_mesh_materials[idx]
 
       // create skined mesh from the geometry and material
       const temp_skinned_mesh: SkinnedMesh = this.create_skinned_mesh(geometry_data, associated_material, idx)
@@ -220,4 +238,18 @@ export class StepWeightSkin extends EventTarget {
     console.log('Final skinned meshes:', this.skinned_meshes)
     console.log('Preview weight painted mesh re-generated:', this.weight_painted_mesh_preview)
   }
+
+  // transfers the original weights when possible. The solver fills in anything that can't be transferred
+  private calculate_weights_for_geometry (geometry_data: BufferGeometry): number[][] {
+    if (this.weight_transfer_bone_correspondence === null || this.bone_skinning_formula === undefined ||
+      !SkinWeightTransfer.has_original_weights(geometry_data)) {
+      return this.calculate_weights()
+    }
+
+    const skeleton_bone_names: string[] = this.bone_skinning_formula.get_bone_master_data().map((bone: Bone) => bone.name)
+    const weight_transfer = new SkinWeightTransfer(geometry_data, skeleton_bone_names, this.weight_transfer_bone_correspondence)
+    const [skin_indices, skin_weights, transferred_vertex_count] = weight_transfer.transfer_weights(() => this.calculate_weights())
+    console.log(`Transferred original skin weights for ${transferred_vertex_count} of ${geometry_data.attributes.position.count} vertices in ${geometry_data.name}`)
+    return [skin_indices, skin_weights]
+  }
 }
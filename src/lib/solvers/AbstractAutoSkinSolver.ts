@@ -1,17 +1,18 @@
 import { BufferGeometry, Object3D, type Bone } from 'three'
-import { type SkeletonType } from '../enums/SkeletonType.js'
 import BoneTesterData from '../interfaces/BoneTesterData.js'
 import { Utility } from '../Utilities.js'
+import { WeldedTopology } from './WeldedTopology.js'
 
 export abstract class AbstractAutoSkinSolver {
   protected bones_master_data: Bone[] = []
   protected geometry: BufferGeometry = new BufferGeometry()
+  protected welded_topology: WeldedTopology = new WeldedTopology(this.geometry)
   protected show_debug: boolean = false
   protected bone_idx_test: number = -1
-  protected skeleton_type: SkeletonType | null = null
+  protected skeleton_type: string | null = null // skeleton template id
   protected debugging_scene_object: Object3D = new Object3D()
 
-  constructor (bone_hier: Object3D, skeleton_type: SkeletonType) {
+  constructor (bone_hier: Object3D, skeleton_type: string) {
     this.set_skeleton_type(skeleton_type)
     this.bones_master_data = Utility.bone_list_from_hierarchy(bone_hier)
   }
@@ -19,8 +20,13 @@ export abstract class AbstractAutoSkinSolver {
   // calculation that will bring back the skin indices and weights
   public abstract calculate_indexes_and_weights (): number[][]
 
-  public set_geometry (geom: BufferGeometry): void {
+  /**
+   * @param geom geometry to calculate weights for
+   * @param welded_topology seam-aware topology built when the model was loaded. Built here if not passed in
+   */
+  public set_geometry (geom: BufferGeometry, welded_topology?: WeldedTopology): void {
     this.geometry = geom
+    this.welded_topology = welded_topology ?? new WeldedTopology(geom)
   }
 
   public get_geometry (): BufferGeometry {
@@ -39,7 +45,7 @@ export abstract class AbstractAutoSkinSolver {
     this.debugging_scene_object = scene_object
   }
 
-  public set_skeleton_type (skinning_type: SkeletonType): void {
+  public set_skeleton_type (skinning_type: string): void {
     this.skeleton_type = skinning_type
   }
 
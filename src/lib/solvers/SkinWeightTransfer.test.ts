@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { type BufferGeometry } from 'three'
+import { SkinWeightTransfer } from './SkinWeightTransfer'
+import { StepLoadModel } from '../processes/load-model/StepLoadModel'
+import { ExistingArmature } from '../processes/load-model/ExistingArmature'
+import { create_rigged_strip_glb, create_rigged_triangle_glb, create_spine_armature } from '../test-helpers/TestRigs'
+
+describe('SkinWeightTransfer', () => {
+  let load_model_step: StepLoadModel
+
+  beforeEach(() => {
+    load_model_step = new StepLoadModel()
+  })
+
+  describe('transfer_weights', () => {
+    it('should transfer the original skin weights to the skeleton template bones', async () => {
+      await load_model_step.load_model_file(create_rigged_triangle_glb(), 'glb')
+      const geometry: BufferGeometry = load_model_step.models_geometry_list()[0]
+      expect(SkinWeightTransfer.has_original_weights(geometry)).toBe(true)
+
+      const existing_armature = load_model_step.get_existing_armature()
+      const [armature] = create_spine_armature()
+      const bone_correspondence: Map<string, string> = existing_armature !== null
+        ? ExistingArmature.skin_bone_correspondence(existing_armature, armature)
+        : new Map<string, string>()
+      expect(bone_correspondence.get('DEF-neck')).toBe('DEF-spine001') // the template has no neck, so it goes to the parent
+
+      const skeleton_bone_names: string[] = ['DEF-hips', 'DEF-spine001', 'DEF-head']
+      const fallback_weights = vi.fn(() => [new Array(12).fill(2), [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0]])
+      const [skin_indices, skin_weights, transferred_vertex_count] =
+        new SkinWeightTransfer(geometry, skeleton_bone_names, bone_correspondence).transfer_weights(fallback_weights)
+
+      expect(transferred_vertex_count).toBe(3)
+      expect(fallback_weights).not.toHaveBeenCalled()
+      expect(skin_indices.slice(0, 2)).toEqual([0, 0]) // hips
+      expect(skin_indices[4]).toBe(1) // neck -> spine
+      expect(skin_weights.slice(8, 12)).toEqual([0.5, 0.5, 0, 0]) // half hips, half spine
+
+      // nothing can be transferred without a bone correspondence, so the solver weights are used
+      const [fallback_indices] = new SkinWeightTransfer(geometry, skeleton_bone_names, new Map()).transfer_weights(fallback_weights)
+      expect(fallback_weights).toHaveBeenCalledTimes(1)
+      expect(fallback_indices[0]).toBe(2)
+    })
+
+    it('should still transfer the original skin weights after the model is simplified', async () => {
+      await load_model_step.load_model_file(create_rigged_strip_glb(20), 'glb')
+      const { after } = load_model_step.simplify_model(12)
+      expect(after).toBeLessThanOrEqual(12)
+
+      const geometry: BufferGeometry = load_model_step.models_geometry_list()[0]
+      expect(SkinWeightTransfer.has_original_weights(geometry)).toBe(true)
+
+      const existing_armature = load_model_step.get_existing_armature()
+      const [armature] = create_spine_armature()
+      const bone_correspondence: Map<string, string> = existing_armature !== null
+        ? ExistingArmature.skin_bone_correspondence(existing_armature, armature)
+        : new Map<string, string>()
+      const fallback_weights = vi.fn(() => [[], []])
+      const [skin_indices, skin_weights, transferred_vertex_count] =
+        new SkinWeightTransfer(geometry, ['DEF-hips', 'DEF-spine001', 'DEF-head'], bone_correspondence).transfer_weights(fallback_weights)
+
+      const position = geometry.attributes.position
+      expect(transferred_vertex_count).toBe(position.count)
+      expect(fallback_weights).not.toHaveBeenCalled()
+      for (let i = 0; i < position.count; i++) {
+        const vertex_weights: number[] = skin_weights.slice(i * 4, i * 4 + 4)
+        expect(vertex_weights.reduce((sum: number, weight: number) => sum + weight, 0)).toBeCloseTo(1)
+
+        // vertices away from the middle only had one bone in their cluster
+        if (position.getY(i) < 0.8) {
+          expect([skin_indices[i * 4], vertex_weights[0]]).toEqual([0, 1]) // hips
+        } else if (position.getY(i) > 1.2) {
+          expect([skin_indices[i * 4], vertex_weights[0]]).toEqual([1, 1]) // neck -> spine
+        }
+      }
+    })
+  })
+})
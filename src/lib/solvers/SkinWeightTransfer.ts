@@ -0,0 +1,84 @@
+import { type BufferGeometry } from 'three'
+
+/**
+ * SkinWeightTransfer
+ * Keeps the skin weights a model was uploaded with when it is skinned to the Mesh2Motion skeleton.
+ * Each original bone influence is moved to the skeleton bone it corresponds to. Vertices without any
+ * influence that can be moved use the weights from the automatic solver instead
+ */
+export class SkinWeightTransfer {
+  private readonly geometry: BufferGeometry
+  private readonly skeleton_bone_indices = new Map<string, number>()
+  private readonly bone_correspondence: Map<string, string>
+
+  /**
+   * @param geometry geometry with the original "skinIndex" and "skinWeight" attributes, and the original
+   * bone names in userData.skin_bone_names
+   * @param skeleton_bone_names bone names in the order the solver uses for bone indices
+   * @param bone_correspondence original bone name -> skeleton bone name
+   */
+  constructor (geometry: BufferGeometry, skeleton_bone_names: string[], bone_correspondence: Map<string, string>) {
+    this.geometry = geometry
+    this.bone_correspondence = bone_correspondence
+    skeleton_bone_names.forEach((bone_name: string, index: number) => this.skeleton_bone_indices.set(bone_name, index))
+  }
+
+  /**
+   * False for geometry that was not skinned
+   */
+  public static has_original_weights (geometry: BufferGeometry): boolean {
+    return geometry.attributes.skinIndex !== undefined && geometry.attributes.skinWeight !== undefined &&
+      Array.isArray(geometry.userData.skin_bone_names)
+  }
+
+  /**
+   * @param calculate_fallback_weights solver weights. Only called if some vertices need them
+   * @returns skin indices and weights (4 per vertex), plus how many vertices kept their original weights
+   */
+  public transfer_weights (calculate_fallback_weights: () => number[][]): [number[], number[], number] {
+    const skin_index_attribute = this.geometry.attributes.skinIndex
+    const skin_weight_attribute = this.geometry.attributes.skinWeight
+    const original_bone_names: string[] = this.geometry.userData.skin_bone_names
+    const vertex_count: number = this.geometry.attributes.position.count
+
+    const skin_indices: number[] = []
+    const skin_weights: number[] = []
+    let fallback_weights: number[][] | null = null
+    let transferred_vertex_count = 0
+
+    for (let vertex_index = 0; vertex_index < vertex_count; vertex_index++) {
+      // several original bones can end up on the same skeleton bone, so add them up
+      const weight_per_bone = new Map<number, number>()
+      for (let influence = 0; influence < 4; influence++) {
+        const weight: number = skin_weight_attribute.getComponent(vertex_index, influence)
+        if (weight <= 0) continue
+
+        const original_bone_name: string | undefined = original_bone_names[skin_index_attribute.getComponent(vertex_index, influence)]
+        const skeleton_bone_name: string | undefined = original_bone_name !== undefined ? this.bone_correspondence.get(original_bone_name) : undefined
+        const skeleton_bone_index: number | undefined = skeleton_bone_name !== undefined ? this.skeleton_bone_indices.get(skeleton_bone_name) : undefined
+        if (skeleton_bone_index !== undefined) {
+          weight_per_bone.set(skeleton_bone_index, (weight_per_bone.get(skeleton_bone_index) ?? 0) + weight)
+        }
+      }
+
+      if (weight_per_bone.size === 0) {
+        fallback_weights = fallback_weights ?? calculate_fallback_weights()
+        const offset: number = vertex_index * 4
+        skin_indices.push(...fallback_weights[0].slice(offset, offset + 4))
+        skin_weights.push(...fallback_weights[1].slice(offset, offset + 4))
+        continue
+      }
+
+      // influences of bones that did not map are dropped, so scale the rest back up to 1.0
+      const total_weight: number = Array.from(weight_per_bone.values()).reduce((sum: number, weight: number) => sum + weight, 0)
+      const bone_weights: Array<[number, number]> = Array.from(weight_per_bone.entries())
+      for (let influence = 0; influence < 4; influence++) {
+        skin_indices.push(bone_weights[influence]?.[0] ?? 0)
+        skin_weights.push(bone_weights[influence] !== undefined ? bone_weights[influence][1] / total_weight : 0)
+      }
+      transferred_vertex_count++
+    }
+
+    return [skin_indices, skin_weights, transferred_vertex_count]
+  }
+}
@@ -0,0 +1,175 @@
+import { type BufferGeometry } from 'three'
+
+/**
+ * Welded view of a geometry for the skinning solvers.
+ * Model files split vertices along UV seams and hard edges, so one point on the surface can be
+ * several vertices that are not connected by any face. If those vertices are skinned separately, they
+ * can end up with different weights and the mesh tears apart when animating.
+ * This groups vertices that are within the tolerance of each other into a single welded vertex.
+ * The geometry itself is not changed. Solvers calculate weights per welded vertex, then
+ * write them back to the original vertices with expand_to_original_vertices()
+ */
+export class WeldedTopology {
+  // distance where two vertices are considered the same point. Models are scaled close to meters on import
+  public static readonly default_tolerance: number = 1e-4
+
+  private readonly tolerance: number
+
+  // welded vertex index for every original vertex
+  private readonly original_to_welded: Int32Array
+
+  // original vertex indices that were merged into each welded vertex
+  private readonly welded_to_original: number[][] = []
+
+  // welded vertex indices that share a face with each welded vertex
+  private readonly adjacency: Array<Set<number>> = []
+
+  constructor (geometry: BufferGeometry, tolerance: number = WeldedTopology.default_tolerance) {
+    this.tolerance = Math.max(tolerance, Number.EPSILON)
+
+    // solvers start out with an empty geometry before one is set
+    const has_positions: boolean = geometry.attributes.position !== undefined
+    this.original_to_welded = new Int32Array(has_positions ? geometry.attributes.position.count : 0)
+    if (!has_positions) return
+
+    this.weld_vertices(geometry)
+    this.build_adjacency(geometry)
+  }
+
+  public get_tolerance (): number {
+    return this.tolerance
+  }
+
+  public welded_vertex_count (): number {
+    return this.welded_to_original.length
+  }
+
+  public original_vertex_count (): number {
+    return this.original_to_welded.length
+  }
+
+  public get_welded_index (original_index: number): number {
+    return this.original_to_welded[original_index]
+  }
+
+  /**
+   * @returns original vertex indices merged into the welded vertex. The first one can be used to read positions
+   */
+  public get_original_indices (welded_index: number): number[] {
+    return this.welded_to_original[welded_index]
+  }
+
+  /**
+   * @returns all original vertices at the same position as this vertex, including itself
+   */
+  public get_shared_vertices (original_index: number): number[] {
+    return this.welded_to_original[this.original_to_welded[original_index]]
+  }
+
+  /**
+   * Neighbors are connected through faces, including faces on the other side of a UV seam
+   */
+  public get_neighbors (welded_index: number): Set<number> {
+    return this.adjacency[welded_index]
+  }
+
+  /**
+   * Copies per welded vertex data (skin indices, skin weights) to every original vertex
+   * @param welded_data flat array with item_size values for each welded vertex
+   * @param item_size number of values for each vertex. 4 for skin indices and weights
+   */
+  public expand_to_original_vertices (welded_data: number[], item_size: number): number[] {
+    const original_data: number[] = new Array(this.original_to_welded.length * item_size)
+    for (let i = 0; i < this.original_to_welded.length; i++) {
+      const welded_offset: number = this.original_to_welded[i] * item_size
+      for (let j = 0; j < item_size; j++) {
+        original_data[i * item_size + j] = welded_data[welded_offset + j]
+      }
+    }
+    return original_data
+  }
+
+  /**
+   * Vertices are put in grid cells the size of the tolerance. A vertex close to the edge of a cell
+   * can be within tolerance of a vertex in the cell next to it, so the neighboring cells are checked too
+   */
+  private weld_vertices (geometry: BufferGeometry): void {
+    const position_attribute = geometry.attributes.position
+    const welded_positions: number[] = []
+    const cell_lookup = new Map<string, number[]>()
+    const tolerance_squared: number = this.tolerance * this.tolerance
+
+    for (let i = 0; i < position_attribute.count; i++) {
+      const x: number = position_attribute.getX(i)
+      const y: number = position_attribute.getY(i)
+      const z: number = position_attribute.getZ(i)
+      const cell_x: number = Math.floor(x / this.tolerance)
+      const cell_y: number = Math.floor(y / this.tolerance)
+      const cell_z: number = Math.floor(z / this.tolerance)
+
+      let welded_index: number = -1
+      for (let dx = -1; dx <= 1 && welded_index === -1; dx++) {
+        for (let dy = -1; dy <= 1 && welded_index === -1; dy++) {
+          for (let dz = -1; dz <= 1 && welded_index === -1; dz++) {
+            const candidates: number[] | undefined = cell_lookup.get(`${cell_x + dx},${cell_y + dy},${cell_z + dz}`)
+            if (candidates === undefined) continue
+
+            for (const candidate of candidates) {
+              const offset: number = candidate * 3
+              const distance_x: number = welded_positions[offset] - x
+              const distance_y: number = welded_positions[offset + 1] - y
+              const distance_z: number = welded_positions[offset + 2] - z
+              if (distance_x * distance_x + distance_y * distance_y + distance_z * distance_z <= tolerance_squared) {
+                welded_index = candidate
+                break
+              }
+            }
+          }
+        }
+      }
+
+      if (welded_index === -1) {
+        welded_index = this.welded_to_original.length
+        this.welded_to_original.push([])
+        welded_positions.push(x, y, z)
+
+        const cell_key = `${cell_x},${cell_y},${cell_z}`
+        const cell: number[] | undefined = cell_lookup.get(cell_key)
+        if (cell === undefined) {
+          cell_lookup.set(cell_key, [welded_index])
+        } else {
+          cell.push(welded_index)
+        }
+      }
+
+      this.original_to_welded[i] = welded_index
+      this.welded_to_original[welded_index].push(i)
+    }
+  }
+
+  private build_adjacency (geometry: BufferGeometry): void {
+    for (let i = 0; i < this.welded_to_original.length; i++) {
+      this.adjacency.push(new Set<number>())
+    }
+
+    // non-indexed geometry stores every triangle as 3 vertices in a row
+    const index_count: number = geometry.index !== null ? geometry.index.count : this.original_to_welded.length
+    const get_vertex = (i: number): number => geometry.index !== null ? geometry.index.getX(i) : i
+
+    for (let i = 0; i + 2 < index_count; i += 3) {
+      const a: number = this.original_to_welded[get_vertex(i)]
+      const b: number = this.original_to_welded[get_vertex(i + 1)]
+      const c: number = this.original_to_welded[get_vertex(i + 2)]
+      this.connect(a, b)
+      this.connect(b, c)
+      this.connect(a, c)
+    }
+  }
+
+  private connect (a: number, b: number): void {
+    // faces can become degenerate after welding
+    if (a === b) return
+    this.adjacency[a].add(b)
+    this.adjacency[b].add(a)
+  }
+}
@@ -0,0 +1,43 @@
+import { vi } from 'vitest'
+
+// jsdom blobs do not have arrayBuffer(), so read them the old fashioned way
+async function read_blob (blob: Blob): Promise<ArrayBuffer> {
+  return await new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => { resolve(reader.result as ArrayBuffer) }
+    reader.onerror = () => { reject(reader.error) }
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+/**
+ * jsdom does not have object URLs or image decoding, which the loaders use for files inside a ZIP.
+ * Keep the blobs in memory and serve them through a fake fetch instead. Undo the fake globals with vi.unstubAllGlobals()
+ */
+export function add_browser_file_apis (): void {
+  const object_urls = new Map<string, Blob>()
+  let object_url_count = 0
+
+  URL.createObjectURL = (blob: Blob): string => {
+    // object URLs end in a UUID, which the loaders use to tell them apart from file names
+    object_url_count++
+    const url = `blob:http://localhost/00000000-0000-0000-0000-${object_url_count.toString().padStart(12, '0')}`
+    object_urls.set(url, blob)
+    return url
+  }
+  URL.revokeObjectURL = (url: string): void => { object_urls.delete(url) }
+
+  vi.stubGlobal('fetch', async (input: string | Request): Promise<Response> => {
+    const url: string = typeof input === 'string' ? input : input.url
+    const blob: Blob | undefined = object_urls.get(url)
+    if (blob === undefined) {
+      throw new TypeError(`Failed to fetch ${url}`)
+    }
+    return new Response(await read_blob(blob))
+  })
+
+  vi.stubGlobal('createImageBitmap', async () => ({ width: 1, height: 1, close: () => {} }))
+
+  // loose files that are picked or dropped together are read with arrayBuffer()
+  Blob.prototype.arrayBuffer = async function (this: Blob): Promise<ArrayBuffer> { return await read_blob(this) }
+}
@@ -0,0 +1,52 @@
+import { readFileSync } from 'fs'
+
+/**
+ * Copies bytes into an ArrayBuffer created by the test environment. Buffers coming from
+ * Node APIs fail the "instanceof ArrayBuffer" checks inside the loaders when running in jsdom
+ */
+export function to_array_buffer (bytes: Uint8Array): ArrayBuffer {
+  const array_buffer = new ArrayBuffer(bytes.byteLength)
+  new Uint8Array(array_buffer).set(bytes)
+  return array_buffer
+}
+
+/**
+ * Reads a file from the static folder, like the skeleton rigs and animations
+ */
+export function read_static_file (file_path: string): ArrayBuffer {
+  return to_array_buffer(readFileSync(`static/${file_path}`))
+}
+
+/**
+ * Reads a file from the static/test-files folder
+ */
+export function read_test_file (file_name: string): ArrayBuffer {
+  return read_static_file(`test-files/${file_name}`)
+}
+
+/**
+ * Packs GLTF JSON and its buffer into a GLB file (VRM files are GLB files too). Chunks need to be padded to 4 bytes.
+ * The binary chunk is left out when there is no buffer data
+ */
+export function create_glb (gltf_json: object, buffer_values: Float32Array = new Float32Array(0)): ArrayBuffer {
+  const json_text: string = JSON.stringify(gltf_json)
+  const json_bytes: Uint8Array = new TextEncoder().encode(json_text + ' '.repeat((4 - (json_text.length % 4)) % 4))
+  const bin_bytes = new Uint8Array(buffer_values.buffer)
+  const bin_chunk_length: number = bin_bytes.length > 0 ? 8 + bin_bytes.length : 0
+  const total_length: number = 12 + 8 + json_bytes.length + bin_chunk_length
+
+  const glb = new ArrayBuffer(total_length)
+  const view = new DataView(glb)
+  view.setUint32(0, 0x46546C67, true) // "glTF"
+  view.setUint32(4, 2, true)
+  view.setUint32(8, total_length, true)
+  view.setUint32(12, json_bytes.length, true)
+  view.setUint32(16, 0x4E4F534A, true) // "JSON"
+  new Uint8Array(glb, 20).set(json_bytes)
+  if (bin_bytes.length > 0) {
+    view.setUint32(20 + json_bytes.length, bin_bytes.length, true)
+    view.setUint32(24 + json_bytes.length, 0x004E4942, true) // "BIN"
+    new Uint8Array(glb, 28 + json_bytes.length).set(bin_bytes)
+  }
+  return glb
+}
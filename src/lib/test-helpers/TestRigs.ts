@@ -0,0 +1,109 @@
+import { Bone, Box3, Object3D } from 'three'
+import { create_glb } from './TestFiles'
+
+/**
+ * Adds a bone to the parent. The position is from the parent, in the XY plane
+ */
+export function create_bone (name: string, parent: Object3D, x: number, y: number): Bone {
+  const bone = new Bone()
+  bone.name = name
+  bone.position.set(x, y, 0)
+  parent.add(bone)
+  return bone
+}
+
+/**
+ * Mesh skinned to a hips > spine > neck rig. Each vertex has 2 bone influences
+ */
+export function create_rigged_glb (positions: number[], vertex_joints: number[][], vertex_weights: number[][]): ArrayBuffer {
+  // positions, then joints (unsigned short), weights and inverse bind matrices
+  const vertex_count: number = positions.length / 3
+  const joints_offset: number = vertex_count * 12
+  const weights_offset: number = joints_offset + vertex_count * 8
+  const matrices_offset: number = weights_offset + vertex_count * 16
+  const buffer_data = new ArrayBuffer(matrices_offset + 192)
+  const view = new DataView(buffer_data)
+  positions.forEach((value: number, index: number) => { view.setFloat32(index * 4, value, true) })
+  for (let vertex = 0; vertex < vertex_count; vertex++) {
+    for (let influence = 0; influence < 2; influence++) {
+      view.setUint16(joints_offset + vertex * 8 + influence * 2, vertex_joints[vertex][influence], true)
+      view.setFloat32(weights_offset + vertex * 16 + influence * 4, vertex_weights[vertex][influence], true)
+    }
+  }
+  const bone_heights: number[] = [1, 1.5, 2]
+  bone_heights.forEach((height: number, index: number) => {
+    const inverse_bind_matrix: number[] = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, -height, 0, 1]
+    inverse_bind_matrix.forEach((value: number, element: number) => { view.setFloat32(matrices_offset + index * 64 + element * 4, value, true) })
+  })
+
+  const position_bounds = new Box3().setFromArray(positions)
+  const rigged_gltf = {
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0, 1] }],
+    nodes: [
+      { mesh: 0, skin: 0, name: 'Body' },
+      { name: 'DEF-hips', translation: [0, 1, 0], children: [2] },
+      { name: 'DEF-spine001', translation: [0, 0.5, 0], children: [3] },
+      { name: 'DEF-neck', translation: [0, 0.5, 0] }
+    ],
+    skins: [{ joints: [1, 2, 3], inverseBindMatrices: 3 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0, JOINTS_0: 1, WEIGHTS_0: 2 } }] }],
+    buffers: [{ byteLength: buffer_data.byteLength }],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: joints_offset },
+      { buffer: 0, byteOffset: joints_offset, byteLength: weights_offset - joints_offset },
+      { buffer: 0, byteOffset: weights_offset, byteLength: matrices_offset - weights_offset },
+      { buffer: 0, byteOffset: matrices_offset, byteLength: 192 }
+    ],
+    accessors: [
+      { bufferView: 0, componentType: 5126, count: vertex_count, type: 'VEC3', min: position_bounds.min.toArray(), max: position_bounds.max.toArray() },
+      { bufferView: 1, componentType: 5123, count: vertex_count, type: 'VEC4' },
+      { bufferView: 2, componentType: 5126, count: vertex_count, type: 'VEC4' },
+      { bufferView: 3, componentType: 5126, count: 3, type: 'MAT4' }
+    ]
+  }
+  return create_glb(rigged_gltf, new Float32Array(buffer_data))
+}
+
+/**
+ * Triangle weighted to the hips, the neck, and half hips half spine
+ */
+export function create_rigged_triangle_glb (): ArrayBuffer {
+  return create_rigged_glb([-0.5, 0, 0, 0.5, 0, 0, 0, 2, 0], [[0, 0], [2, 0], [0, 1]], [[1, 0], [1, 0], [0.5, 0.5]])
+}
+
+/**
+ * Strip of quads going up to 2 units. The bottom half is weighted to the hips and the top half to the neck
+ */
+export function create_rigged_strip_glb (quad_count: number): ArrayBuffer {
+  const positions: number[] = []
+  for (let quad = 0; quad < quad_count; quad++) {
+    const bottom: number = 2 * quad / quad_count
+    const top: number = 2 * (quad + 1) / quad_count
+    positions.push(-0.5, bottom, 0, 0.5, bottom, 0, 0.5, top, 0, -0.5, bottom, 0, 0.5, top, 0, -0.5, top, 0)
+  }
+  const vertex_joints: number[][] = []
+  for (let i = 1; i < positions.length; i += 3) {
+    vertex_joints.push(positions[i] <= 1 ? [0, 0] : [2, 0])
+  }
+  return create_rigged_glb(positions, vertex_joints, vertex_joints.map(() => [1, 0]))
+}
+
+/**
+ * A small part of the human rig: hips > spine > head
+ */
+export function create_spine_armature (): [Object3D, Bone, Bone] {
+  const armature = new Object3D()
+  const hips_bone = new Bone()
+  hips_bone.name = 'DEF-hips'
+  const spine_bone = new Bone()
+  spine_bone.name = 'DEF-spine001'
+  const head_bone = new Bone()
+  head_bone.name = 'DEF-head'
+  head_bone.position.set(0, 0.3, 0)
+  armature.add(hips_bone)
+  hips_bone.add(spine_bone)
+  spine_bone.add(head_bone)
+  return [armature, spine_bone, head_bone]
+}
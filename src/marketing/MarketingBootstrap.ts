@@ -1,11 +1,13 @@
 import { Vector3 } from 'three'
 import { ProcessStep } from '../lib/enums/ProcessStep'
 import { SkeletonType } from '../lib/enums/SkeletonType'
+import { SkeletonTemplateRegistry } from '../lib/processes/load-skeleton/SkeletonTemplateRegistry'
+import { type SkeletonTemplate } from '../lib/processes/load-skeleton/interfaces/SkeletonTemplate'
 import { Mesh2MotionEngine } from '../Mesh2MotionEngine'
 
 export class MarketingBootstrap {
   private mesh2motion_engine: Mesh2MotionEngine
-  private skeleton_type: SkeletonType = SkeletonType.None
+  private skeleton_type: string = SkeletonType.None
 
   constructor () {
     this.mesh2motion_engine = new Mesh2MotionEngine()
@@ -28,41 +30,28 @@ export class MarketingBootstrap {
   }
 
   public setup_model_buttons (): void {
-    // add click events for each button type
-    const human_button: HTMLElement | null = document.getElementById('load-human-model-button')
-    const fox_button: HTMLElement | null = document.getElementById('load-fox-model-button')
-    const bird_button: HTMLElement | null = document.getElementById('load-bird-model-button')
-    const dragon_button: HTMLElement | null = document.getElementById('load-dragon-model-button')
+    // each button loads the reference model of the skeleton template in its data-skeleton-template attribute
+    const model_buttons = document.querySelectorAll<HTMLElement>('.model-selection-section button[data-skeleton-template]')
+    model_buttons.forEach((model_button: HTMLElement) => {
+      const skeleton_template: SkeletonTemplate | undefined =
+        SkeletonTemplateRegistry.get_template(model_button.dataset.skeletonTemplate ?? '')
+      const sample_model_file: string | null = skeleton_template?.sample_model_file ?? null
+      if (skeleton_template === undefined || sample_model_file === null) {
+        console.error('no reference model for model button: ', model_button.dataset.skeletonTemplate)
+        return
+      }
 
-    human_button?.addEventListener('click', () => {
-      this.mesh2motion_engine.load_model_step.clear_loaded_model_data()
-      this.mesh2motion_engine.load_model_step.load_model_file(`${import.meta.env.BASE_URL}models/model-human.glb`, 'glb')
-      this.skeleton_type = SkeletonType.Human
-      this.change_active_skeleton(human_button)
+      model_button.addEventListener('click', () => {
+        this.mesh2motion_engine.load_model_step.clear_loaded_model_data()
+        void this.mesh2motion_engine.load_model_step.load_model_file(`${import.meta.env.BASE_URL}${sample_model_file}`, 'glb')
+        this.skeleton_type = skeleton_template.id
+        this.change_active_skeleton(model_button)
+      })
     })
 
-    fox_button?.addEventListener('click', () => {
-      this.mesh2motion_engine.load_model_step.clear_loaded_model_data()
-      this.mesh2motion_engine.load_model_step.load_model_file(`${import.meta.env.BASE_URL}models/model-fox.glb`, 'glb')
-      this.skeleton_type = SkeletonType.Quadraped
-      this.change_active_skeleton(fox_button)
-    })
-
-    bird_button?.addEventListener('click', () => {
-      this.mesh2motion_engine.load_model_step.clear_loaded_model_data()
-      this.mesh2motion_engine.load_model_step.load_model_file(`${import.meta.env.BASE_URL}models/model-bird.glb`, 'glb')
-      this.skeleton_type = SkeletonType.Bird
-      this.change_active_skeleton(bird_button)
-    })
-
-    dragon_button?.addEventListener('click', () => {
-      this.mesh2motion_engine.load_model_step.clear_loaded_model_data()
-      this.mesh2motion_engine.load_model_step.load_model_file(`${import.meta.env.BASE_URL}models/model-dragon.glb`, 'glb')
-      this.skeleton_type = SkeletonType.Dragon
-      this.change_active_skeleton(dragon_button)
-    })
-
-    human_button?.click() // load human by default to start us out
+    if (model_buttons.length > 0) {
+      model_buttons[0].click() // load the first model (human) by default to start us out
+    }
   }
 
   public add_event_listeners (): void {
@@ -73,9 +62,12 @@ export class MarketingBootstrap {
 
     // we are re-creating the engine, so need to manually add the event listeners again
     this.mesh2motion_engine.load_model_step.addEventListener('modelLoaded', () => {
-      // this (this.skeleton_type) value contains the filename for the skeleton rig
+      // the skeleton template has the filename for the skeleton rig
+      const skeleton_template: SkeletonTemplate | undefined = SkeletonTemplateRegistry.get_template(this.skeleton_type)
+      if (skeleton_template === undefined) return
+
       this.mesh2motion_engine.process_step_changed(ProcessStep.LoadSkeleton)
-      this.mesh2motion_engine.load_skeleton_step.load_skeleton_file(`${import.meta.env.BASE_URL}${this.skeleton_type}`)
+      this.mesh2motion_engine.load_skeleton_step.load_skeleton_file(SkeletonTemplateRegistry.rig_file_url(skeleton_template))
       this.mesh2motion_engine.load_skeleton_step.set_skeleton_type(this.skeleton_type)
     })
 
@@ -1,5 +1,5 @@
 import * as THREE from 'three'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFLoaderFactory } from '../lib/GLTFLoaderFactory.ts'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
 
 import { WebMRecorder } from './webm-recorder.ts'
@@ -37,6 +37,7 @@ class PreviewGenerator {
   constructor () {
     // Setup renderer, scene, camera
     this.renderer_ = new THREE.WebGLRenderer({ antialias: true, alpha: true })
+    GLTFLoaderFactory.set_renderer(this.renderer_)
     this.renderer_.shadowMap.enabled = true // Enable shadows
     this.recorder = new WebMRecorder(this.renderer_, this.preview_width, this.preview_height)
 
@@ -101,7 +102,7 @@ class PreviewGenerator {
   public initialize (file_to_load: string): void {
     this.selected_file_to_load = file_to_load
 
-    const loader = new GLTFLoader()
+    const loader = GLTFLoaderFactory.create_loader()
     loader.load(this.selected_file_to_load, (gltf) => {
       this.scene_.add(gltf.scene)
 
@@ -29,7 +29,7 @@ export class AnimationRetargetService {
    * for other classes to grab this data
    */
   private source_armature: Group = new Group()
-  private skeleton_type: SkeletonType = SkeletonType.None
+  private skeleton_type: string = SkeletonType.None
   private target_armature: Scene = new Scene()
 
   private target_skinned_meshes: SkinnedMesh[] = []
@@ -72,11 +72,11 @@ export class AnimationRetargetService {
     return this.target_armature
   }
 
-  public set_skeleton_type (type: SkeletonType): void {
+  public set_skeleton_type (type: string): void {
     this.skeleton_type = type
   }
 
-  public get_skeleton_type (): SkeletonType {
+  public get_skeleton_type (): string {
     return this.skeleton_type
   }
 
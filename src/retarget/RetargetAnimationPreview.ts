@@ -1,5 +1,6 @@
 import { type AnimationClip, AnimationMixer, Object3D, type Scene, type SkinnedMesh, type AnimationAction } from 'three'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { type GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFLoaderFactory } from '../lib/GLTFLoaderFactory.ts'
 import { AnimationUtility } from '../lib/processes/animations-listing/AnimationUtility.ts'
 import type { StepBoneMapping } from './steps/StepBoneMapping.ts'
 import { RetargetUtils } from './RetargetUtils.ts'
@@ -11,7 +12,7 @@ import { AnimationRetargetService } from './AnimationRetargetService.ts'
  */
 export class RetargetAnimationPreview extends EventTarget {
   private readonly step_bone_mapping: StepBoneMapping
-  private readonly gltf_loader: GLTFLoader = new GLTFLoader()
+  private readonly gltf_loader: GLTFLoader = GLTFLoaderFactory.create_loader()
 
   private animation_mixer: AnimationMixer | null = null
   private current_animation_clip: AnimationClip | null = null
@@ -1,6 +1,6 @@
 import { Scene, type Group, type Object3DEventMap, type Skeleton, type SkinnedMesh } from 'three'
 import { ModalDialog } from '../lib/ModalDialog.ts'
-import { SkeletonType } from '../lib/enums/SkeletonType.ts'
+import { SkeletonTemplateRegistry } from '../lib/processes/load-skeleton/SkeletonTemplateRegistry.ts'
 
 // eslint-disable-next-line @typescript-eslint/no-extraneous-class
 export class RetargetUtils {
@@ -42,21 +42,10 @@ export class RetargetUtils {
   }
 
   /**
-   * Get the animation file path based on skeleton type
+   * Get the animation file path based on skeleton type. The first animation file has the preview animations
    */
-  static get_animation_file_path (skeleton_type: SkeletonType): string | null {
-    switch (skeleton_type) {
-      case SkeletonType.Human:
-        return '/animations/human-base-animations.glb'
-      case SkeletonType.Quadraped:
-        return '/animations/quad-creature-animations.glb'
-      case SkeletonType.Bird:
-        return '/animations/bird-animations.glb'
-      case SkeletonType.Dragon:
-        return '/animations/dragon-animations.glb'
-      default:
-        return null
-    }
+  static get_animation_file_path (skeleton_type: string): string | null {
+    return SkeletonTemplateRegistry.animation_file_paths(skeleton_type, '/animations/')[0] ?? null
   }
 
   /**
@@ -1,4 +1,4 @@
-import { Bone, Group, Object3D, Scene, SkinnedMesh } from 'three'
+import { Bone, Group, Object3D, SkinnedMesh } from 'three'
 import { BoneCategoryMapper } from './BoneCategoryMapper'
 import { MixamoMapper } from './MixamoMapper'
 import { TargetBoneMappingType } from '../steps/StepBoneMapping'
@@ -52,9 +52,6 @@ export class BoneAutoMapper {
    * @returns Map of target bone name -> source bone name
    */
   public static auto_map_bones (): Map<string, string> {
-    // mappings: final output mapping of target bone name to source bone name
-    let mappings = new Map<string, string>()
-
     // Traverse source skeleton to build parent-child relationships
     const source_armature: Group | null = AnimationRetargetService.getInstance().get_source_armature()
     if (source_armature === null) {
@@ -62,17 +59,33 @@ export class BoneAutoMapper {
       return new Map<string, string>()
     }
 
-    // Create metadata for both source and target bones
     const retarget_service: AnimationRetargetService = AnimationRetargetService.getInstance()
+    return BoneAutoMapper.map_armature_bones(retarget_service.get_source_armature(),
+      retarget_service.get_target_armature(), retarget_service.get_target_mapping_type())
+  }
+
+  /**
+   * Same as auto_map_bones(), but for armatures that are not part of the retargeting process.
+   * The create page uses this to place the skeleton template joints from a rig the uploaded model already has
+   * @param source_armature - Mesh2Motion skeleton armature
+   * @param target_armature - Object containing the SkinnedMesh with the other rig
+   * @returns Map of target bone name -> source bone name
+   */
+  public static map_armature_bones (source_armature: Object3D, target_armature: Object3D,
+    mapping_type: TargetBoneMappingType): Map<string, string> {
+    // mappings: final output mapping of target bone name to source bone name
+    let mappings = new Map<string, string>()
+
+    // Create metadata for both source and target bones
     let source_bones_meta: BoneMetadata[] = []
     let target_bones_meta: BoneMetadata[] = []
 
-    if (retarget_service.get_source_armature().children.length > 0) {
-      source_bones_meta = BoneAutoMapper.create_all_bone_metadata(retarget_service.get_source_armature(), true)
+    if (source_armature.children.length > 0) {
+      source_bones_meta = BoneAutoMapper.create_all_bone_metadata(source_armature, true)
     }
 
-    if (retarget_service.get_target_armature().children.length > 0) {
-      target_bones_meta = BoneAutoMapper.create_all_bone_metadata(retarget_service.get_target_armature(), false)
+    if (target_armature.children.length > 0 || target_armature.type === 'SkinnedMesh') {
+      target_bones_meta = BoneAutoMapper.create_all_bone_metadata(target_armature, false)
     }
 
     console.log('\n=== FINAL BONE METADATA ===')
@@ -81,7 +94,7 @@ export class BoneAutoMapper {
 
     // if the target is a mixamo rig and our skeleton type is human, we can do a direct name mapping
     // without worrying about guessing
-    if (retarget_service.get_target_mapping_type() === TargetBoneMappingType.Mixamo) {
+    if (mapping_type === TargetBoneMappingType.Mixamo) {
       console.log('Target skeleton appears to be a Mixamo rig, performing direct name mapping...')
       mappings = MixamoMapper.map_mixamo_bones(source_bones_meta, target_bones_meta)
       return mappings
@@ -151,7 +164,7 @@ export class BoneAutoMapper {
    * @param parent_map - Map of bone name -> parent bone name
    * @returns Array of BoneMetadata for all bones
    */
-  private static create_all_bone_metadata (armature: Group | Scene, is_source_skeleton: boolean): BoneMetadata[] {
+  private static create_all_bone_metadata (armature: Object3D, is_source_skeleton: boolean): BoneMetadata[] {
     const metadata_list: BoneMetadata[] = []
     const bones: Bone[] = []
 
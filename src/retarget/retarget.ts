@@ -6,7 +6,6 @@ import { StepBoneMapping } from './steps/StepBoneMapping.ts'
 import { RetargetAnimationPreview } from './RetargetAnimationPreview.ts'
 import { RetargetAnimationListing } from './RetargetAnimationListing.ts'
 import { AnimationRetargetService } from './AnimationRetargetService'
-import { type SkeletonType } from '../lib/enums/SkeletonType.ts'
 
 class RetargetModule {
   private readonly mesh2motion_engine: Mesh2MotionEngine
@@ -79,7 +78,7 @@ class RetargetModule {
     this.step_load_source_skeleton.addEventListener('skeleton-loaded', () => {
       // the load step stores the scene and skeleton type internally. grab the data here
       const source_armature: Group = this.step_load_source_skeleton.get_loaded_source_armature() as Group
-      const skeleton_type: SkeletonType = this.step_load_source_skeleton.get_skeleton_type()
+      const skeleton_type: string = this.step_load_source_skeleton.get_skeleton_type()
 
       // animation service keeps track of shared data across classes
       AnimationRetargetService.getInstance().set_source_armature(source_armature)
@@ -1,17 +1,20 @@
 import { Group, Object3D, Scene, SkeletonHelper } from 'three'
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { type GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { GLTFLoaderFactory } from '../../lib/GLTFLoaderFactory.ts'
 import { SkeletonType } from '../../lib/enums/SkeletonType.ts'
+import { SkeletonTemplateRegistry } from '../../lib/processes/load-skeleton/SkeletonTemplateRegistry.ts'
+import { type SkeletonTemplate } from '../../lib/processes/load-skeleton/interfaces/SkeletonTemplate.ts'
 import type GLTFResult from '../../lib/processes/load-skeleton/interfaces/GLTFResult.ts'
 import { ModalDialog } from '../../lib/ModalDialog.ts'
 
 export class StepLoadSourceSkeleton extends EventTarget {
-  private readonly loader: GLTFLoader = new GLTFLoader() // all skeletons are in GLB format
+  private readonly loader: GLTFLoader = GLTFLoaderFactory.create_loader() // all skeletons are in GLB format
   private readonly _main_scene: Scene
   private loaded_source_armature: Group = new Group()
   private skeleton_helper: SkeletonHelper | null = null
   private _added_event_listeners: boolean = false
 
-  private skeleton_type: SkeletonType = SkeletonType.None
+  private skeleton_type: string = SkeletonType.None
 
   // DOM references
   private skeleton_type_select: HTMLSelectElement | null = null
@@ -26,6 +29,10 @@ export class StepLoadSourceSkeleton extends EventTarget {
     this.skeleton_type_select = document.getElementById('skeleton-type-select') as HTMLSelectElement
 
     if (!this._added_event_listeners) {
+      if (this.skeleton_type_select !== null) {
+        SkeletonTemplateRegistry.add_select_options(this.skeleton_type_select)
+        this.skeleton_type_select.value = SkeletonType.Human
+      }
       this.add_event_listeners()
       this._added_event_listeners = true
     }
@@ -38,7 +45,7 @@ export class StepLoadSourceSkeleton extends EventTarget {
     // Set the skeleton type to human and load it automatically
     this.skeleton_type = SkeletonType.Human
 
-    this.load_skeleton_from_path(`${import.meta.env.BASE_URL}${SkeletonType.Human}`).catch((error) => {
+    this.load_skeleton_from_path(this.rig_file_path(SkeletonType.Human)).catch((error) => {
       console.error('Failed to load default human skeleton:', error)
     })
 
@@ -56,16 +63,14 @@ export class StepLoadSourceSkeleton extends EventTarget {
   private handle_skeleton_selection_change (): void {
     if (this.skeleton_type_select === null) return
 
-    const selected_value = this.skeleton_type_select.value
-
-    // Map selection to skeleton type enum
-    this.skeleton_type = this.get_skeleton_type_enum(selected_value)
+    // the option values are skeleton template ids
+    this.skeleton_type = this.skeleton_type_select.value
 
     // Clear any previously loaded skeleton
     this.clear_previous_skeleton()
 
-    // Load the selected skeleton using the file path from the enum
-    this.load_skeleton_from_path(`${import.meta.env.BASE_URL}${this.skeleton_type}`).catch((error) => {
+    // Load the selected skeleton using the rig file from the skeleton template
+    this.load_skeleton_from_path(this.rig_file_path(this.skeleton_type)).catch((error) => {
       console.error('Failed to load skeleton:', error)
     })
 
@@ -73,19 +78,9 @@ export class StepLoadSourceSkeleton extends EventTarget {
     this.dispatchEvent(new CustomEvent('skeleton-loading'))
   }
 
-  private get_skeleton_type_enum (selection: string): SkeletonType {
-    switch (selection) {
-      case 'human':
-        return SkeletonType.Human
-      case 'quadraped':
-        return SkeletonType.Quadraped
-      case 'bird':
-        return SkeletonType.Bird
-      case 'dragon':
-        return SkeletonType.Dragon
-      default:
-        return SkeletonType.None
-    }
+  private rig_file_path (skeleton_type: string): string {
+    const skeleton_template: SkeletonTemplate | undefined = SkeletonTemplateRegistry.get_template(skeleton_type)
+    return skeleton_template !== undefined ? SkeletonTemplateRegistry.rig_file_url(skeleton_template) : ''
   }
 
   private async load_skeleton_from_path (file_path: string): Promise<void> {
@@ -189,7 +184,7 @@ export class StepLoadSourceSkeleton extends EventTarget {
     return this.loaded_source_armature
   }
 
-  public get_skeleton_type (): SkeletonType {
+  public get_skeleton_type (): string {
     return this.skeleton_type
   }
 }